@@ -11,6 +11,10 @@ import Home from "@/pages/home";
 import History from "@/pages/history";
 import Favorites from "@/pages/favorites";
 import Profile from "@/pages/profile";
+import Compare from "@/pages/compare";
+import Artist from "@/pages/artist";
+import Albums from "@/pages/albums";
+import LessonPlans from "@/pages/lesson-plans";
 import NotFound from "@/pages/not-found";
 
 function Router() {
@@ -40,6 +44,13 @@ function Router() {
         <Route path="/history" component={History} />
         <Route path="/favorites" component={Favorites} />
         <Route path="/profile" component={Profile} />
+        <Route path="/compare" component={Compare} />
+        <Route path="/compare/shared/:shareToken" component={Compare} />
+        <Route path="/artists/:name" component={Artist} />
+        <Route path="/albums" component={Albums} />
+        <Route path="/albums/:id" component={Albums} />
+        <Route path="/lesson-plans" component={LessonPlans} />
+        <Route path="/lesson-plans/:id" component={LessonPlans} />
         <Route component={NotFound} />
       </Switch>
     </DataProvider>
@@ -0,0 +1,224 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { LoadingSpinner } from "@/components/ui/loading-spinner";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest, describeRequestError } from "@/lib/queryClient";
+import { MessageSquareWarning, ThumbsDown, ThumbsUp, X } from "lucide-react";
+import type { AnalysisFeedback as AnalysisFeedbackData, FeedbackComment, FeedbackRating, SongAnalysis } from "@shared/schema";
+
+interface AnalysisFeedbackProps {
+  analysis: SongAnalysis;
+}
+
+const OVERALL = "Overall";
+
+const commentSuggestions = ["Wrong year", "Wrong genre", "Misread the metaphor", "Too vague", "Factually wrong"];
+
+// Thumbs up/down on an analysis, with optional comments on the section
+// that got something wrong
+export function AnalysisFeedback({ analysis }: AnalysisFeedbackProps) {
+  const queryClient = useQueryClient();
+  const queryKey = [`/api/songs/${analysis.id}/feedback`];
+  const [comments, setComments] = useState<FeedbackComment[]>([]);
+  const [section, setSection] = useState(OVERALL);
+  const [comment, setComment] = useState("");
+  const [isCommenting, setIsCommenting] = useState(false);
+
+  const { data: feedback } = useQuery<AnalysisFeedbackData | null>({ queryKey });
+
+  useEffect(() => {
+    setComments(feedback?.comments ?? []);
+  }, [feedback]);
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ rating, comments }: { rating: FeedbackRating; comments: FeedbackComment[] }) => {
+      const res = await apiRequest("PUT", `/api/songs/${analysis.id}/feedback`, { rating, comments });
+      return res.json();
+    },
+    onSuccess: (data: AnalysisFeedbackData) => {
+      queryClient.setQueryData(queryKey, data);
+    },
+  });
+
+  const clearMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/songs/${analysis.id}/feedback`);
+    },
+    onSuccess: () => {
+      queryClient.setQueryData(queryKey, null);
+      setIsCommenting(false);
+    },
+  });
+
+  const handleRate = (rating: FeedbackRating) => {
+    if (feedback?.rating === rating) {
+      clearMutation.mutate();
+      return;
+    }
+    saveMutation.mutate({ rating, comments });
+    // Someone rating an analysis down usually has something to say about it
+    if (rating === "down") setIsCommenting(true);
+  };
+
+  const addComment = (text: string) => {
+    if (!text.trim()) return;
+    setComments((prev) => [...prev, { section, comment: text.trim() }]);
+    setComment("");
+  };
+
+  const handleSend = (rating: FeedbackRating) => {
+    // A comment typed but not yet added still counts
+    const pending = comment.trim() ? [{ section, comment: comment.trim() }] : [];
+    saveMutation.mutate(
+      { rating, comments: [...comments, ...pending] },
+      {
+        onSuccess: () => {
+          setComment("");
+          setIsCommenting(false);
+        },
+      }
+    );
+  };
+
+  const handleCancel = () => {
+    setComments(feedback?.comments ?? []);
+    setComment("");
+    setIsCommenting(false);
+  };
+
+  const sectionHeadings = Array.from(new Set([OVERALL, ...analysis.sections.map((s) => s.heading)]));
+  const isSaving = saveMutation.isPending || clearMutation.isPending;
+  const error = saveMutation.error || clearMutation.error;
+
+  return (
+    <div className="mt-6 border-t border-gray-200 dark:border-gray-700 pt-4">
+      <div className="flex items-center justify-between">
+        <span className="text-sm text-gray-500 dark:text-gray-400">Was this analysis accurate?</span>
+        <div className="flex items-center space-x-1">
+          {isSaving && <LoadingSpinner size="sm" className="mr-1" />}
+          <Button
+            variant="ghost"
+            size="sm"
+            aria-label="Accurate"
+            onClick={() => handleRate("up")}
+            disabled={isSaving}
+            className={feedback?.rating === "up" ? 'text-green-500' : 'text-gray-400'}
+          >
+            <ThumbsUp className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            aria-label="Inaccurate"
+            onClick={() => handleRate("down")}
+            disabled={isSaving}
+            className={feedback?.rating === "down" ? 'text-red-500' : 'text-gray-400'}
+          >
+            <ThumbsDown className="w-4 h-4" />
+          </Button>
+          {feedback && !isCommenting && (
+            <Button
+              variant="ghost"
+              size="sm"
+              aria-label="Comment on a section"
+              onClick={() => setIsCommenting(true)}
+              className="text-gray-400"
+            >
+              <MessageSquareWarning className="w-4 h-4" />
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {feedback && !isCommenting && feedback.comments.length > 0 && (
+        <ul className="mt-2 space-y-1 text-xs text-gray-500 dark:text-gray-400">
+          {feedback.comments.map((entry, index) => (
+            <li key={index}>
+              <span className="font-medium">{entry.section}:</span> {entry.comment}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {feedback && isCommenting && (
+        <div className="mt-3 space-y-2">
+          {comments.map((entry, index) => (
+            <div key={index} className="flex items-center justify-between text-sm text-gray-700 dark:text-gray-300">
+              <span>
+                <span className="font-medium">{entry.section}:</span> {entry.comment}
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                aria-label="Remove comment"
+                onClick={() => setComments((prev) => prev.filter((_, i) => i !== index))}
+              >
+                <X className="w-3 h-3" />
+              </Button>
+            </div>
+          ))}
+
+          <Select value={section} onValueChange={setSection}>
+            <SelectTrigger className="h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {sectionHeadings.map((heading) => (
+                <SelectItem key={heading} value={heading}>
+                  {heading}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <div className="flex flex-wrap gap-1">
+            {commentSuggestions.map((suggestion) => (
+              <Button
+                key={suggestion}
+                variant="outline"
+                size="sm"
+                className="h-7 rounded-full text-xs"
+                onClick={() => addComment(suggestion)}
+              >
+                {suggestion}
+              </Button>
+            ))}
+          </div>
+
+          <Input
+            type="text"
+            placeholder="What did it get wrong?"
+            value={comment}
+            maxLength={500}
+            onChange={(e) => setComment(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") addComment(comment);
+            }}
+          />
+
+          <div className="flex justify-end space-x-2">
+            <Button variant="ghost" size="sm" onClick={handleCancel}>
+              Cancel
+            </Button>
+            <Button
+              size="sm"
+              className="bg-purple-500 hover:bg-purple-600"
+              onClick={() => handleSend(feedback.rating)}
+              disabled={isSaving}
+            >
+              Send feedback
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <p className="text-sm text-red-500 mt-2">
+          {describeRequestError(error, "Couldn't save your feedback. Please try again.")}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { LoadingSpinner } from "@/components/ui/loading-spinner";
+import { useDataContext } from "@/contexts/DataContext";
+import { apiRequest, describeRequestError } from "@/lib/queryClient";
+import { Pin, RefreshCw } from "lucide-react";
+import type { AnalysisRevisions as AnalysisRevisionsData, SongAnalysis } from "@shared/schema";
+
+interface AnalysisRevisionsProps {
+  analysis: SongAnalysis;
+  onSelect: (analysis: SongAnalysis) => void;
+}
+
+// Regenerate an analysis with optional steering, switch between the original
+// and its revisions, and pin the one the user wants to keep seeing
+export function AnalysisRevisions({ analysis, onSelect }: AnalysisRevisionsProps) {
+  const [guidance, setGuidance] = useState("");
+  const queryClient = useQueryClient();
+  const { refreshData } = useDataContext();
+  const rootId = analysis.parentAnalysisId ?? analysis.id;
+  const queryKey = [`/api/songs/${rootId}/revisions`];
+
+  const { data } = useQuery<AnalysisRevisionsData>({ queryKey });
+  const revisions = data?.revisions ?? [];
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/songs/${analysis.id}/regenerate`, {
+        guidance: guidance.trim() || undefined,
+      });
+      return res.json();
+    },
+    onSuccess: (revision: SongAnalysis) => {
+      setGuidance("");
+      queryClient.invalidateQueries({ queryKey });
+      onSelect(revision);
+    },
+  });
+
+  const pinMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/songs/${analysis.id}/pin`);
+      return res.json();
+    },
+    onSuccess: () => {
+      // Pinning swaps the user's history entries over to the pinned revision
+      queryClient.invalidateQueries({ queryKey });
+      queryClient.invalidateQueries({ queryKey: ["/api/songs/history"] });
+      refreshData();
+    },
+  });
+
+  const handleRegenerate = () => {
+    if (regenerateMutation.isPending) return;
+    regenerateMutation.mutate();
+  };
+
+  return (
+    <div className="mb-4">
+      {revisions.length > 1 && (
+        <div className="flex flex-wrap items-center gap-2 mb-3">
+          {revisions.map((revision, index) => (
+            <Button
+              key={revision.id}
+              variant="ghost"
+              size="sm"
+              title={revision.guidance || undefined}
+              onClick={() => onSelect(revision)}
+              className={`rounded-full ${
+                revision.id === analysis.id
+                  ? 'bg-purple-500 text-white hover:bg-purple-600'
+                  : 'text-gray-600 dark:text-gray-300 hover:bg-purple-50 dark:hover:bg-purple-900/30'
+              }`}
+            >
+              {revision.id === data?.primaryId && <Pin className="w-3 h-3 mr-1" />}
+              {index === 0 ? "Original" : `Take ${index + 1}`}
+            </Button>
+          ))}
+          {data && analysis.id !== data.primaryId && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="text-purple-500 hover:text-purple-600"
+              onClick={() => pinMutation.mutate()}
+              disabled={pinMutation.isPending}
+            >
+              <Pin className="w-4 h-4 mr-1" />
+              Pin as primary
+            </Button>
+          )}
+        </div>
+      )}
+
+      {analysis.guidance && (
+        <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+          Regenerated with guidance: "{analysis.guidance}"
+        </p>
+      )}
+
+      <div className="flex items-center space-x-2">
+        <Input
+          type="text"
+          placeholder="Steer a new take, e.g. focus more on the imagery"
+          value={guidance}
+          maxLength={500}
+          onChange={(e) => setGuidance(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") handleRegenerate();
+          }}
+          disabled={regenerateMutation.isPending}
+        />
+        <Button
+          size="sm"
+          variant="outline"
+          className="shrink-0"
+          onClick={handleRegenerate}
+          disabled={regenerateMutation.isPending}
+        >
+          {regenerateMutation.isPending ? (
+            <LoadingSpinner size="sm" className="mr-2" />
+          ) : (
+            <RefreshCw className="w-4 h-4 mr-2" />
+          )}
+          Regenerate
+        </Button>
+      </div>
+
+      {regenerateMutation.isError && (
+        <p className="text-sm text-red-500 mt-2">
+          {describeRequestError(regenerateMutation.error, "Couldn't regenerate the analysis. Please try again.")}
+        </p>
+      )}
+      {pinMutation.isError && (
+        <p className="text-sm text-red-500 mt-2">
+          {describeRequestError(pinMutation.error, "Couldn't pin this version. Please try again.")}
+        </p>
+      )}
+    </div>
+  );
+}
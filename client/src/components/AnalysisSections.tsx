@@ -0,0 +1,70 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import type { SongAnalysis } from "@shared/schema";
+
+interface AnalysisSectionsProps {
+  analysis: Pick<SongAnalysis, "themes" | "mood" | "sections" | "lyricsAnalysis">;
+  interactive?: boolean;
+}
+
+export function AnalysisSections({ analysis, interactive = false }: AnalysisSectionsProps) {
+  const [highlightedSection, setHighlightedSection] = useState<number | null>(null);
+
+  // Rows that predate structured storage and haven't been backfilled yet
+  const sections = analysis.sections.length > 0
+    ? analysis.sections
+    : [{ heading: "", body: analysis.lyricsAnalysis }];
+
+  return (
+    <div className="text-gray-700 dark:text-gray-300 leading-relaxed text-justify">
+      {(analysis.mood || analysis.themes.length > 0) && (
+        <div className="mb-4 space-y-2">
+          {analysis.mood && (
+            <p>
+              <span className="font-bold text-purple-600 dark:text-purple-400">Mood: </span>
+              {analysis.mood}
+            </p>
+          )}
+          {analysis.themes.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {analysis.themes.map((theme) => (
+                <Badge key={theme} variant="secondary" className="bg-purple-100 text-purple-700 dark:bg-purple-900/30 dark:text-purple-300">
+                  {theme}
+                </Badge>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {sections.map((section, index) => {
+        const isHighlighted = interactive && highlightedSection === index;
+
+        return (
+          <div
+            key={index}
+            className={`mb-3 last:mb-0 transition-all duration-500 ${
+              interactive ? 'cursor-pointer' : ''
+            } ${
+              isHighlighted ? 'bg-purple-100 dark:bg-purple-900/30 rounded-lg p-3 shadow-lg border-l-4 border-purple-500' : ''
+            }`}
+            onClick={interactive ? () => setHighlightedSection(isHighlighted ? null : index) : undefined}
+            onMouseEnter={interactive ? () => setHighlightedSection(index) : undefined}
+            onMouseLeave={interactive ? () => setHighlightedSection(null) : undefined}
+          >
+            {section.heading && (
+              <h3 className="text-lg font-bold text-purple-600 dark:text-purple-400 mb-3 mt-4">
+                {section.heading}
+              </h3>
+            )}
+            {section.body.split('\n').filter((paragraph) => paragraph.trim()).map((paragraph, paragraphIndex) => (
+              <p key={paragraphIndex} className="mb-3 last:mb-0">
+                {paragraph}
+              </p>
+            ))}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { GraduationCap, Share } from "lucide-react";
+import { Link } from "wouter";
+import type { SongAnalysis } from "@shared/schema";
+
+interface AnalysisShareActionsProps {
+  analysis: SongAnalysis;
+}
+
+// Share a link to the analysis (the system share sheet where there is one,
+// otherwise the clipboard), or start a lesson plan from it
+export function AnalysisShareActions({ analysis }: AnalysisShareActionsProps) {
+  const { toast } = useToast();
+
+  const handleShare = async () => {
+    const url = `${window.location.origin}/history?analysis=${analysis.id}`;
+    const title = `${analysis.title} by ${analysis.artist}`;
+
+    if (navigator.share) {
+      try {
+        await navigator.share({ title, text: analysis.meaning ?? undefined, url });
+        return;
+      } catch (error) {
+        // Dismissing the share sheet isn't a failure
+        if (error instanceof DOMException && error.name === "AbortError") return;
+      }
+    }
+
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({ title: "Share link copied", description: url });
+    } catch {
+      toast({ title: "Couldn't copy the link", description: url, variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="flex space-x-3 mt-6">
+      <Button className="flex-1 bg-purple-500 hover:bg-purple-600" size="sm" onClick={handleShare}>
+        <Share className="w-4 h-4 mr-2" />
+        Share Analysis
+      </Button>
+      <Link href={`/lesson-plans?songs=${analysis.id}`}>
+        <Button variant="outline" size="sm">
+          <GraduationCap className="w-4 h-4 mr-2" />
+          Lesson Plan
+        </Button>
+      </Link>
+    </div>
+  );
+}
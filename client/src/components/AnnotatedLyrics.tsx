@@ -0,0 +1,145 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { LoadingSpinner } from "@/components/ui/loading-spinner";
+import { apiRequest, describeRequestError } from "@/lib/queryClient";
+import { FileText, Sparkles } from "lucide-react";
+import type { AnnotationGranularity, LyricAnnotation } from "@shared/schema";
+
+interface AnnotatedLyricsProps {
+  songAnalysisId: number;
+  lyrics: string;
+}
+
+interface LyricBlock {
+  lines: string[];
+  startLine: number;
+  annotation?: LyricAnnotation;
+}
+
+// Group consecutive lines covered by the same annotation into one block
+function buildBlocks(lines: string[], annotations: LyricAnnotation[]): LyricBlock[] {
+  const blocks: LyricBlock[] = [];
+
+  lines.forEach((line, index) => {
+    const lineNumber = index + 1;
+    const annotation = annotations.find(
+      (candidate) => candidate.startLine <= lineNumber && lineNumber <= candidate.endLine
+    );
+    const previous = blocks[blocks.length - 1];
+
+    if (previous && previous.annotation && previous.annotation === annotation) {
+      previous.lines.push(line);
+    } else {
+      blocks.push({ lines: [line], startLine: lineNumber, annotation });
+    }
+  });
+
+  return blocks;
+}
+
+export function AnnotatedLyrics({ songAnalysisId, lyrics }: AnnotatedLyricsProps) {
+  const [granularity, setGranularity] = useState<AnnotationGranularity>("line");
+  const [activeAnnotationId, setActiveAnnotationId] = useState<number | null>(null);
+  const queryClient = useQueryClient();
+  const queryKey = [`/api/songs/${songAnalysisId}/annotations?granularity=${granularity}`];
+
+  const { data: annotations = [], isLoading } = useQuery<LyricAnnotation[]>({ queryKey });
+
+  const annotateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/songs/${songAnalysisId}/annotations`, { granularity });
+      return res.json();
+    },
+    onSuccess: (data: LyricAnnotation[]) => {
+      queryClient.setQueryData(queryKey, data);
+    },
+  });
+
+  const blocks = buildBlocks(lyrics.split("\n"), annotations);
+
+  return (
+    <div className="mt-6 border-t border-gray-200 dark:border-gray-700 pt-4">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center space-x-2">
+          <FileText className="w-5 h-5 text-purple-500" />
+          <span className="text-sm font-semibold text-purple-500">Lyrics</span>
+        </div>
+        <div className="flex items-center space-x-1">
+          {(["line", "stanza"] as const).map((mode) => (
+            <Button
+              key={mode}
+              variant={granularity === mode ? "secondary" : "ghost"}
+              size="sm"
+              className="h-7 px-2 text-xs capitalize"
+              onClick={() => {
+                setGranularity(mode);
+                setActiveAnnotationId(null);
+              }}
+            >
+              {mode}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {!isLoading && annotations.length === 0 && (
+        <Button
+          size="sm"
+          className="w-full mb-3 bg-purple-500 hover:bg-purple-600"
+          onClick={() => annotateMutation.mutate()}
+          disabled={annotateMutation.isPending}
+        >
+          {annotateMutation.isPending ? (
+            <LoadingSpinner size="sm" className="text-white mr-2" />
+          ) : (
+            <Sparkles className="w-4 h-4 mr-2" />
+          )}
+          Explain {granularity === "line" ? "individual lines" : "each stanza"}
+        </Button>
+      )}
+
+      {annotateMutation.isError && (
+        <p className="text-sm text-red-500 mb-3">
+          {describeRequestError(annotateMutation.error, "Couldn't explain these lyrics. Please try again.")}
+        </p>
+      )}
+
+      <div className="text-sm leading-relaxed text-gray-700 dark:text-gray-300">
+        {blocks.map((block) => {
+          if (!block.annotation) {
+            return block.lines.map((line, index) => (
+              <p key={block.startLine + index} className="min-h-[1.25rem] px-2">{line}</p>
+            ));
+          }
+
+          const annotation = block.annotation;
+          const isActive = activeAnnotationId === annotation.id;
+
+          return (
+            <div key={block.startLine} className="my-1">
+              <button
+                type="button"
+                className={`w-full text-left px-2 rounded transition-colors ${
+                  isActive
+                    ? 'bg-purple-200 dark:bg-purple-800/60'
+                    : 'bg-purple-100/70 dark:bg-purple-900/30 hover:bg-purple-200 dark:hover:bg-purple-800/50'
+                }`}
+                onClick={() => setActiveAnnotationId(isActive ? null : annotation.id)}
+              >
+                {block.lines.map((line, index) => (
+                  <p key={index} className="min-h-[1.25rem]">{line}</p>
+                ))}
+              </button>
+              {isActive && (
+                <div className="mt-2 mb-3 ml-2 p-3 border-l-4 border-purple-500 bg-white dark:bg-gray-800 rounded-r-lg shadow">
+                  {annotation.explanation}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from "recharts";
+import { ChartContainer, ChartTooltip, type ChartConfig } from "@/components/ui/chart";
+import { Activity } from "lucide-react";
+import type { ArcSection, EmotionalArc } from "@shared/schema";
+
+interface EmotionalArcChartProps {
+  arc: EmotionalArc;
+  lyrics: string;
+}
+
+const chartConfig = {
+  score: { label: "Sentiment", color: "#a855f7" },
+} satisfies ChartConfig;
+
+// Lines of a section shown in the tooltip before it is cut short
+const PREVIEW_LINES = 4;
+
+interface ArcPoint extends ArcSection {
+  position: number;
+}
+
+// How the song's feeling moves from section to section. Hovering a point
+// shows the lyrics it was scored from.
+export function EmotionalArcChart({ arc, lyrics }: EmotionalArcChartProps) {
+  const lyricLines = lyrics.split("\n");
+
+  if (arc.sections.length < 2) return null;
+
+  const data: ArcPoint[] = arc.sections.map((section, index) => ({ ...section, position: index }));
+
+  const sectionLines = (section: ArcSection) =>
+    lyricLines.slice(section.startLine - 1, section.endLine).filter((line) => line.trim());
+
+  return (
+    <div className="mt-6 border-t border-gray-200 dark:border-gray-700 pt-4">
+      <div className="flex items-center space-x-2 mb-3">
+        <Activity className="w-5 h-5 text-purple-500" />
+        <span className="text-sm font-semibold text-purple-500">Emotional Arc</span>
+      </div>
+
+      <ChartContainer config={chartConfig} className="aspect-auto h-48 w-full">
+        <LineChart data={data} margin={{ top: 8, right: 12, bottom: 0, left: -20 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis
+            dataKey="position"
+            tickLine={false}
+            axisLine={false}
+            tickFormatter={(position: number) => data[position]?.label ?? ""}
+            interval={0}
+            tick={{ fontSize: 10 }}
+          />
+          <YAxis
+            domain={[-1, 1]}
+            ticks={[-1, 0, 1]}
+            tickLine={false}
+            axisLine={false}
+            tickFormatter={(value: number) => (value > 0 ? "+" : value < 0 ? "−" : "0")}
+          />
+          <ReferenceLine y={0} stroke="currentColor" strokeOpacity={0.2} />
+          <ChartTooltip
+            content={({ active, payload }) => {
+              const point = payload?.[0]?.payload as ArcPoint | undefined;
+              if (!active || !point) return null;
+
+              const lines = sectionLines(point);
+              return (
+                <div className="max-w-xs rounded-lg border bg-background px-3 py-2 text-xs shadow-xl">
+                  <div className="flex items-center justify-between space-x-3 mb-1">
+                    <span className="font-semibold">{point.label}</span>
+                    <span className="text-muted-foreground capitalize">
+                      {point.emotion ?? "neutral"} · {point.score > 0 ? "+" : ""}{point.score.toFixed(2)}
+                    </span>
+                  </div>
+                  <div className="italic text-muted-foreground">
+                    {lines.slice(0, PREVIEW_LINES).map((line, index) => (
+                      <p key={index}>{line}</p>
+                    ))}
+                    {lines.length > PREVIEW_LINES && <p>…</p>}
+                  </div>
+                </div>
+              );
+            }}
+          />
+          <Line
+            dataKey="score"
+            type="monotone"
+            stroke="var(--color-score)"
+            strokeWidth={2}
+            dot={{ r: 4, fill: "var(--color-score)" }}
+            activeDot={{ r: 6 }}
+          />
+        </LineChart>
+      </ChartContainer>
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+import { Button } from "@/components/ui/button";
+import { MAX_LESSON_PLAN_SONGS, type LessonPlanPicker as Picker } from "@/hooks/useLessonPlanPicker";
+import { GraduationCap } from "lucide-react";
+import { Link } from "wouter";
+
+interface LessonPlanPickerProps {
+  picker: Picker;
+}
+
+// List header controls for picking songs to build a lesson plan from
+export function LessonPlanPicker({ picker }: LessonPlanPickerProps) {
+  if (!picker.isPicking) {
+    return (
+      <Button variant="ghost" size="sm" className="text-purple-200 hover:text-white" onClick={picker.start}>
+        <GraduationCap className="w-4 h-4 mr-1" />
+        Lesson Plan
+      </Button>
+    );
+  }
+
+  return (
+    <div className="flex items-center space-x-2">
+      <span className="text-xs text-[#beccde]">
+        {picker.picked.length}/{MAX_LESSON_PLAN_SONGS}
+      </span>
+      <Button variant="ghost" size="sm" className="text-purple-200 hover:text-white" onClick={picker.cancel}>
+        Cancel
+      </Button>
+      {picker.picked.length > 0 ? (
+        <Link href={`/lesson-plans?songs=${picker.picked.join(",")}`}>
+          <Button size="sm" className="bg-purple-500 hover:bg-purple-600">
+            Next
+          </Button>
+        </Link>
+      ) : (
+        <Button size="sm" className="bg-purple-500 hover:bg-purple-600" disabled>
+          Next
+        </Button>
+      )}
+    </div>
+  );
+}
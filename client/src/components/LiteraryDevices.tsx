@@ -0,0 +1,97 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { LoadingSpinner } from "@/components/ui/loading-spinner";
+import { apiRequest, describeRequestError } from "@/lib/queryClient";
+import { Feather, Sparkles } from "lucide-react";
+import { literaryDeviceTypes, type LiteraryDevice } from "@shared/schema";
+
+interface LiteraryDevicesProps {
+  songAnalysisId: number;
+}
+
+function lineReference(device: LiteraryDevice) {
+  return device.startLine === device.endLine
+    ? `Line ${device.startLine}`
+    : `Lines ${device.startLine}–${device.endLine}`;
+}
+
+// Figurative language in the lyrics, grouped by device, each finding pointing
+// back to the lines it appears on
+export function LiteraryDevices({ songAnalysisId }: LiteraryDevicesProps) {
+  const queryClient = useQueryClient();
+  const queryKey = [`/api/songs/${songAnalysisId}/devices`];
+
+  const { data: devices = [], isLoading } = useQuery<LiteraryDevice[]>({ queryKey });
+
+  const detectMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/songs/${songAnalysisId}/devices`);
+      return res.json();
+    },
+    onSuccess: (data: LiteraryDevice[]) => {
+      queryClient.setQueryData(queryKey, data);
+    },
+  });
+
+  const groups = literaryDeviceTypes
+    .map((type) => ({ type, findings: devices.filter((device) => device.device === type) }))
+    .filter((group) => group.findings.length > 0);
+
+  return (
+    <div className="mt-6 border-t border-gray-200 dark:border-gray-700 pt-4">
+      <div className="flex items-center space-x-2 mb-3">
+        <Feather className="w-5 h-5 text-purple-500" />
+        <span className="text-sm font-semibold text-purple-500">Literary Devices</span>
+      </div>
+
+      {!isLoading && devices.length === 0 && (
+        <Button
+          size="sm"
+          className="w-full mb-3 bg-purple-500 hover:bg-purple-600"
+          onClick={() => detectMutation.mutate()}
+          disabled={detectMutation.isPending}
+        >
+          {detectMutation.isPending ? (
+            <LoadingSpinner size="sm" className="text-white mr-2" />
+          ) : (
+            <Sparkles className="w-4 h-4 mr-2" />
+          )}
+          Find literary devices
+        </Button>
+      )}
+
+      {detectMutation.isError && (
+        <p className="text-sm text-red-500 mb-3">
+          {describeRequestError(detectMutation.error, "Couldn't find literary devices. Please try again.")}
+        </p>
+      )}
+
+      {detectMutation.isSuccess && devices.length === 0 && (
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">No literary devices stood out in these lyrics.</p>
+      )}
+
+      <div className="space-y-4">
+        {groups.map(({ type, findings }) => (
+          <div key={type}>
+            <div className="flex items-center space-x-2 mb-2">
+              <span className="text-sm font-semibold capitalize text-gray-800 dark:text-gray-200">{type}</span>
+              <Badge variant="secondary">{findings.length}</Badge>
+            </div>
+            <ul className="space-y-2">
+              {findings.map((finding) => (
+                <li key={finding.id} className="pl-3 border-l-2 border-purple-300 dark:border-purple-700 text-sm">
+                  <div className="flex items-baseline justify-between space-x-2">
+                    <span className="italic text-gray-800 dark:text-gray-200">"{finding.excerpt}"</span>
+                    <span className="text-xs text-gray-400 shrink-0">{lineReference(finding)}</span>
+                  </div>
+                  <p className="text-gray-600 dark:text-gray-400">{finding.explanation}</p>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
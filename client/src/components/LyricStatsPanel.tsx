@@ -0,0 +1,76 @@
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { BarChart3 } from "lucide-react";
+import type { LyricStatsAverage, LyricStatsComparison, LyricStatsMetric } from "@shared/schema";
+
+interface LyricStatsPanelProps {
+  songAnalysisId: number;
+}
+
+const metricRows: { metric: LyricStatsMetric; label: string; format: (value: number) => string }[] = [
+  { metric: "wordCount", label: "Words", format: (value) => Math.round(value).toString() },
+  { metric: "uniqueWordRatio", label: "Unique words", format: (value) => `${Math.round(value * 100)}%` },
+  { metric: "repetitionIndex", label: "Repeated lines", format: (value) => `${Math.round(value * 100)}%` },
+  { metric: "averageLineLength", label: "Words per line", format: (value) => value.toFixed(1) },
+  { metric: "readabilityGrade", label: "Reading grade", format: (value) => value.toFixed(1) },
+  { metric: "profanityCount", label: "Profanity", format: (value) => (Number.isInteger(value) ? value.toString() : value.toFixed(1)) },
+];
+
+function averageCell(average: LyricStatsAverage | null, metric: LyricStatsMetric, format: (value: number) => string) {
+  return average ? format(average.metrics[metric]) : "—";
+}
+
+// Vocabulary and readability figures for the song, next to the averages of
+// the user's other songs and the artist's other songs
+export function LyricStatsPanel({ songAnalysisId }: LyricStatsPanelProps) {
+  const { data: stats } = useQuery<LyricStatsComparison>({
+    queryKey: [`/api/songs/${songAnalysisId}/stats`],
+  });
+
+  if (!stats) return null;
+
+  return (
+    <div className="mt-6 border-t border-gray-200 dark:border-gray-700 pt-4">
+      <div className="flex items-center space-x-2 mb-3">
+        <BarChart3 className="w-5 h-5 text-purple-500" />
+        <span className="text-sm font-semibold text-purple-500">Lyric Stats</span>
+      </div>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-xs text-gray-500 dark:text-gray-400">
+            <th className="text-left font-normal pb-1"></th>
+            <th className="text-right font-normal pb-1">This song</th>
+            <th className="text-right font-normal pb-1" title={stats.library ? `${stats.library.songs} songs` : undefined}>
+              Your songs
+            </th>
+            <th className="text-right font-normal pb-1" title={stats.artist ? `${stats.artist.songs} songs` : undefined}>
+              Artist
+            </th>
+          </tr>
+        </thead>
+        <tbody className="text-gray-700 dark:text-gray-300">
+          {metricRows.map(({ metric, label, format }) => (
+            <tr key={metric} className="border-t border-gray-100 dark:border-gray-800">
+              <td className="py-1">{label}</td>
+              <td className="py-1 text-right font-semibold">{format(stats.song[metric])}</td>
+              <td className="py-1 text-right text-gray-500 dark:text-gray-400">{averageCell(stats.library, metric, format)}</td>
+              <td className="py-1 text-right text-gray-500 dark:text-gray-400">{averageCell(stats.artist, metric, format)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {stats.song.topWords.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1 mt-3">
+          <span className="text-xs text-gray-500 dark:text-gray-400 mr-1">Most used:</span>
+          {stats.song.topWords.map(({ word, count }) => (
+            <Badge key={word} variant="secondary">
+              {word} <span className="ml-1 text-gray-400">×{count}</span>
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle, ShieldCheck } from "lucide-react";
+import type { AnalysisMetadata, MetadataFieldProvenance } from "@shared/schema";
+
+interface MetadataVerificationProps {
+  metadata: AnalysisMetadata | null;
+}
+
+function describeDisagreement(label: string, field: MetadataFieldProvenance<string | number>) {
+  const conflicts = field.claims.filter((claim) => !claim.agrees);
+  if (conflicts.length === 0) return null;
+
+  const others = conflicts.map((claim) => `${claim.source} says ${claim.value}`).join(", ");
+  return `${label}: ${others}; showing ${field.value} from ${field.source}`;
+}
+
+// Track header badge for genre and release year: verified when independent
+// sources agree, otherwise the disagreements between catalogs and the AI
+export function MetadataVerification({ metadata }: MetadataVerificationProps) {
+  const reconciliation = metadata?.reconciliation;
+  if (!reconciliation) return null;
+
+  const disagreements = [
+    describeDisagreement("Genre", reconciliation.genre),
+    describeDisagreement("Release year", reconciliation.year),
+  ].filter((line): line is string => line !== null);
+
+  if (reconciliation.verified) {
+    return (
+      <Badge
+        className="mt-2 bg-white/20 text-white hover:bg-white/20"
+        title="Genre and release year match across catalog sources"
+      >
+        <ShieldCheck className="w-3 h-3 mr-1" />
+        Verified
+      </Badge>
+    );
+  }
+
+  if (disagreements.length === 0) return null;
+
+  return (
+    <div className="mt-2 space-y-1">
+      {disagreements.map((line) => (
+        <p key={line} className="flex items-start text-xs text-white/70">
+          <AlertTriangle className="w-3 h-3 mr-1 mt-0.5 shrink-0" />
+          {line}
+        </p>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { LoadingSpinner } from "@/components/ui/loading-spinner";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest, describeRequestError } from "@/lib/queryClient";
+import { Mic2 } from "lucide-react";
+import { analysisPersonas, type AnalysisPersona, type User } from "@shared/schema";
+import { personaLabels } from "@shared/analysis";
+
+// The voice new analyses are written in by default, and the user's own
+// description for the custom persona
+export function PersonaPreferences() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const preferences = (user as User | undefined)?.preferences;
+  const [persona, setPersona] = useState<AnalysisPersona>("critic");
+  const [customPersona, setCustomPersona] = useState("");
+
+  useEffect(() => {
+    setPersona(preferences?.persona ?? "critic");
+    setCustomPersona(preferences?.customPersona ?? "");
+  }, [preferences?.persona, preferences?.customPersona]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("PATCH", "/api/user/preferences", {
+        persona,
+        customPersona: customPersona.trim(),
+      });
+      return res.json();
+    },
+    onSuccess: (data: User) => {
+      queryClient.setQueryData(["/api/auth/user"], data);
+    },
+  });
+
+  const isDirty =
+    persona !== (preferences?.persona ?? "critic") || customPersona.trim() !== (preferences?.customPersona ?? "");
+
+  return (
+    <Card className="mb-6">
+      <CardContent className="p-4">
+        <div className="flex items-center space-x-2 mb-1">
+          <Mic2 className="w-5 h-5 text-purple-500" />
+          <span className="text-gray-900 dark:text-white font-medium">Analysis Voice</span>
+        </div>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+          The persona new analyses are written in. You can still pick another one for each search.
+        </p>
+
+        <div className="space-y-3">
+          <Select value={persona} onValueChange={(value) => setPersona(value as AnalysisPersona)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {analysisPersonas.map((option) => (
+                <SelectItem key={option} value={option}>
+                  {personaLabels[option]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Input
+            type="text"
+            placeholder="Custom persona, e.g. a jazz pianist who loves wordplay"
+            value={customPersona}
+            maxLength={200}
+            onChange={(e) => setCustomPersona(e.target.value)}
+          />
+
+          {saveMutation.isError && (
+            <p className="text-sm text-red-500">
+              {describeRequestError(saveMutation.error, "Couldn't save your voice. Please try again.")}
+            </p>
+          )}
+
+          <Button
+            size="sm"
+            className="w-full bg-purple-500 hover:bg-purple-600"
+            onClick={() => saveMutation.mutate()}
+            disabled={!isDirty || saveMutation.isPending || (persona === "custom" && !customPersona.trim())}
+          >
+            {saveMutation.isPending && <LoadingSpinner size="sm" className="text-white mr-2" />}
+            Save
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
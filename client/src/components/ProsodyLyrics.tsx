@@ -0,0 +1,97 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Ruler } from "lucide-react";
+import type { ProsodyAnalysis, ProsodyLine } from "@shared/schema";
+
+interface ProsodyLyricsProps {
+  prosody: ProsodyAnalysis;
+  lyrics: string;
+}
+
+const rhymeColors = [
+  "bg-purple-500",
+  "bg-green-500",
+  "bg-blue-500",
+  "bg-orange-500",
+  "bg-pink-500",
+  "bg-teal-500",
+];
+
+function rhymeColor(letter: string) {
+  return rhymeColors[(letter.charCodeAt(0) - 65) % rhymeColors.length];
+}
+
+// Underline the words that rhyme inside the line
+function renderLine(text: string, line: ProsodyLine) {
+  const rhymingWords = new Set(line.internalRhymes.flat());
+  if (rhymingWords.size === 0) return text;
+
+  return text.split(/(\s+)/).map((token, index) => {
+    const word = token.toLowerCase().replace(/[^a-z]/g, "");
+    return rhymingWords.has(word) ? (
+      <span key={index} className="underline decoration-purple-400 decoration-2 underline-offset-2">{token}</span>
+    ) : (
+      token
+    );
+  });
+}
+
+// Objective craft metrics computed from the lyrics: rhyme scheme per stanza,
+// syllables and an estimated stress pattern per line
+export function ProsodyLyrics({ prosody, lyrics }: ProsodyLyricsProps) {
+  const [showStress, setShowStress] = useState(false);
+  const lyricLines = lyrics.split("\n");
+
+  if (prosody.stanzas.length === 0) return null;
+
+  return (
+    <div className="mt-6 border-t border-gray-200 dark:border-gray-700 pt-4">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center space-x-2">
+          <Ruler className="w-5 h-5 text-purple-500" />
+          <span className="text-sm font-semibold text-purple-500">Rhyme & Meter</span>
+        </div>
+        <Button
+          variant={showStress ? "secondary" : "ghost"}
+          size="sm"
+          className="h-7 px-2 text-xs"
+          onClick={() => setShowStress(!showStress)}
+        >
+          Stress
+        </Button>
+      </div>
+
+      <div className="space-y-4 text-sm text-gray-700 dark:text-gray-300">
+        {prosody.stanzas.map((stanza) => (
+          <div key={stanza.startLine}>
+            <div className="flex items-center space-x-2 mb-1">
+              <Badge variant="secondary" className="font-mono">{stanza.rhymeScheme}</Badge>
+              {stanza.meter && (
+                <span className="text-xs text-gray-500 dark:text-gray-400 capitalize">{stanza.meter}</span>
+              )}
+            </div>
+            {stanza.lines.map((line) => (
+              <div key={line.line} className="flex items-start space-x-2 py-0.5">
+                <span
+                  className={`w-5 h-5 shrink-0 rounded text-[10px] font-bold text-white flex items-center justify-center ${rhymeColor(line.rhyme)}`}
+                >
+                  {line.rhyme}
+                </span>
+                <div className="flex-1">
+                  <p>{renderLine(lyricLines[line.line - 1] ?? "", line)}</p>
+                  {showStress && (
+                    <p className="font-mono text-xs text-gray-400 tracking-widest" title={line.meter || "Irregular meter"}>
+                      {line.stress}
+                    </p>
+                  )}
+                </div>
+                <span className="text-xs text-gray-400 shrink-0" title="Syllables">{line.syllables}</span>
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { LoadingSpinner } from "@/components/ui/loading-spinner";
+import { apiRequest, describeRequestError } from "@/lib/queryClient";
+import { MessageCircle, Send, Trash2 } from "lucide-react";
+import type { AnalysisChatMessage } from "@shared/schema";
+
+interface SongChatPanelProps {
+  songAnalysisId: number;
+}
+
+export function SongChatPanel({ songAnalysisId }: SongChatPanelProps) {
+  const [message, setMessage] = useState("");
+  const queryClient = useQueryClient();
+  const queryKey = [`/api/songs/${songAnalysisId}/chat`];
+
+  const { data: messages = [], isLoading } = useQuery<AnalysisChatMessage[]>({ queryKey });
+
+  const sendMutation = useMutation({
+    mutationFn: async (question: string) => {
+      const res = await apiRequest("POST", `/api/songs/${songAnalysisId}/chat`, { message: question });
+      return res.json();
+    },
+    onSuccess: (newMessages: AnalysisChatMessage[]) => {
+      queryClient.setQueryData<AnalysisChatMessage[]>(queryKey, (prev = []) => [...prev, ...newMessages]);
+      setMessage("");
+    },
+  });
+
+  const clearMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/songs/${songAnalysisId}/chat`);
+    },
+    onSuccess: () => {
+      queryClient.setQueryData(queryKey, []);
+    },
+  });
+
+  const handleSend = () => {
+    if (!message.trim() || sendMutation.isPending) return;
+    sendMutation.mutate(message.trim());
+  };
+
+  return (
+    <Card className="mb-6 border-purple-200 dark:border-purple-800">
+      <CardContent className="p-4">
+        <div className="flex items-center justify-between mb-3">
+          <div className="flex items-center space-x-2">
+            <MessageCircle className="w-5 h-5 text-purple-500" />
+            <span className="text-sm font-semibold text-purple-500">Ask About This Song</span>
+          </div>
+          {messages.length > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="text-gray-400 hover:text-red-500 p-1"
+              onClick={() => clearMutation.mutate()}
+              disabled={clearMutation.isPending}
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <LoadingSpinner size="sm" />
+          </div>
+        ) : messages.length > 0 ? (
+          <div className="space-y-3 mb-3 max-h-80 overflow-y-auto">
+            {messages.map((chatMessage) => (
+              <div
+                key={chatMessage.id}
+                className={`rounded-lg p-3 text-sm leading-relaxed ${
+                  chatMessage.role === "user"
+                    ? 'bg-purple-500 text-white ml-8'
+                    : 'bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 mr-8'
+                }`}
+              >
+                {chatMessage.content}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">
+            Curious about a line or an idea? Ask a follow-up question.
+          </p>
+        )}
+
+        {sendMutation.isError && (
+          <p className="text-sm text-red-500 mb-2">
+            {describeRequestError(sendMutation.error, "Couldn't get an answer. Please try again.")}
+          </p>
+        )}
+
+        <div className="flex items-center space-x-2">
+          <Input
+            type="text"
+            placeholder="e.g. Is the second verse about his father?"
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") handleSend();
+            }}
+            disabled={sendMutation.isPending}
+          />
+          <Button
+            size="sm"
+            className="bg-purple-500 hover:bg-purple-600"
+            onClick={handleSend}
+            disabled={sendMutation.isPending || !message.trim()}
+          >
+            {sendMutation.isPending ? (
+              <LoadingSpinner size="sm" className="text-white" />
+            ) : (
+              <Send className="w-4 h-4" />
+            )}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,247 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { LoadingSpinner } from "@/components/ui/loading-spinner";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest, describeRequestError } from "@/lib/queryClient";
+import { CheckCircle2, GraduationCap, RefreshCw, Sparkles, XCircle } from "lucide-react";
+import {
+  quizDifficulties,
+  type GradedQuizAttempt,
+  type QuizAttempt,
+  type QuizDifficulty,
+  type QuizForTaking,
+  type QuizResponse,
+} from "@shared/schema";
+import { quizDifficultyLabels } from "@shared/analysis";
+
+interface SongQuizProps {
+  songAnalysisId: number;
+}
+
+function describeResponse(response: QuizResponse, choices?: string[]) {
+  if (response === null || response === "") return "No answer";
+  return typeof response === "number" ? choices?.[response] ?? "No answer" : response;
+}
+
+// Comprehension quiz on the song: multiple-choice and short-answer questions
+// at a chosen difficulty, graded with the answer key and explanations
+export function SongQuiz({ songAnalysisId }: SongQuizProps) {
+  const queryClient = useQueryClient();
+  const [difficulty, setDifficulty] = useState<QuizDifficulty>("medium");
+  const [responses, setResponses] = useState<QuizResponse[]>([]);
+  const [result, setResult] = useState<GradedQuizAttempt | null>(null);
+  const quizKey = [`/api/songs/${songAnalysisId}/quiz?difficulty=${difficulty}`];
+
+  const { data: quiz, isLoading } = useQuery<QuizForTaking | null>({ queryKey: quizKey });
+
+  const attemptsKey = [`/api/quizzes/${quiz?.id}/attempts`];
+  const { data: attempts = [] } = useQuery<QuizAttempt[]>({ queryKey: attemptsKey, enabled: !!quiz });
+
+  useEffect(() => {
+    setResponses([]);
+    setResult(null);
+  }, [quiz?.id]);
+
+  const generateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/songs/${songAnalysisId}/quiz`, { difficulty });
+      return res.json();
+    },
+    onSuccess: (data: QuizForTaking) => {
+      queryClient.setQueryData(quizKey, data);
+    },
+  });
+
+  const submitMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/quizzes/${quiz!.id}/attempts`, {
+        responses: quiz!.questions.map((_, index) => responses[index] ?? null),
+      });
+      return res.json();
+    },
+    onSuccess: (data: GradedQuizAttempt) => {
+      setResult(data);
+      queryClient.invalidateQueries({ queryKey: attemptsKey });
+    },
+  });
+
+  const setResponse = (index: number, response: QuizResponse) => {
+    setResponses((prev) => {
+      const next = [...prev];
+      next[index] = response;
+      return next;
+    });
+  };
+
+  const handleRetry = () => {
+    setResponses([]);
+    setResult(null);
+  };
+
+  const bestScore = attempts.reduce<QuizAttempt | null>(
+    (best, attempt) => (!best || attempt.score > best.score ? attempt : best),
+    null
+  );
+  const answered = responses.filter((response) => response !== null && response !== undefined && response !== "").length;
+  const error = generateMutation.isError
+    ? describeRequestError(generateMutation.error, "Couldn't generate a quiz. Please try again.")
+    : submitMutation.isError
+      ? describeRequestError(submitMutation.error, "Couldn't check your answers. Please try again.")
+      : null;
+
+  return (
+    <div className="mt-6 border-t border-gray-200 dark:border-gray-700 pt-4">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center space-x-2">
+          <GraduationCap className="w-5 h-5 text-purple-500" />
+          <span className="text-sm font-semibold text-purple-500">Comprehension Quiz</span>
+        </div>
+        <Select value={difficulty} onValueChange={(value) => setDifficulty(value as QuizDifficulty)}>
+          <SelectTrigger className="h-8 w-28">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {quizDifficulties.map((option) => (
+              <SelectItem key={option} value={option}>
+                {quizDifficultyLabels[option]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading && <LoadingSpinner size="sm" />}
+
+      {!isLoading && !quiz && (
+        <Button
+          size="sm"
+          className="w-full mb-3 bg-purple-500 hover:bg-purple-600"
+          onClick={() => generateMutation.mutate()}
+          disabled={generateMutation.isPending}
+        >
+          {generateMutation.isPending ? (
+            <LoadingSpinner size="sm" className="text-white mr-2" />
+          ) : (
+            <Sparkles className="w-4 h-4 mr-2" />
+          )}
+          Generate quiz
+        </Button>
+      )}
+
+      {quiz && (
+        <div className="space-y-4">
+          {bestScore && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Best score {bestScore.score}/{bestScore.total} · {attempts.length}{" "}
+              {attempts.length === 1 ? "attempt" : "attempts"}
+            </p>
+          )}
+
+          {result && (
+            <p className="text-sm font-semibold text-gray-900 dark:text-white">
+              You scored {result.attempt.score} out of {result.attempt.total}
+            </p>
+          )}
+
+          {quiz.questions.map((question, index) => {
+            const graded = result?.attempt.answers[index];
+            const key = result?.questions[index];
+
+            return (
+              <div key={index} className="space-y-2">
+                <p className="text-sm font-medium text-gray-800 dark:text-gray-200">
+                  {index + 1}. {question.question}
+                </p>
+
+                {!result && question.type === "multiple-choice" && (
+                  <RadioGroup
+                    value={typeof responses[index] === "number" ? String(responses[index]) : ""}
+                    onValueChange={(value) => setResponse(index, parseInt(value))}
+                  >
+                    {question.choices?.map((choice, choiceIndex) => (
+                      <div key={choiceIndex} className="flex items-center space-x-2">
+                        <RadioGroupItem value={String(choiceIndex)} id={`quiz-${quiz.id}-${index}-${choiceIndex}`} />
+                        <Label
+                          htmlFor={`quiz-${quiz.id}-${index}-${choiceIndex}`}
+                          className="text-sm font-normal text-gray-700 dark:text-gray-300"
+                        >
+                          {choice}
+                        </Label>
+                      </div>
+                    ))}
+                  </RadioGroup>
+                )}
+
+                {!result && question.type === "short-answer" && (
+                  <Input
+                    type="text"
+                    placeholder="Your answer"
+                    value={typeof responses[index] === "string" ? (responses[index] as string) : ""}
+                    maxLength={1000}
+                    onChange={(e) => setResponse(index, e.target.value)}
+                  />
+                )}
+
+                {graded && key && (
+                  <div className="rounded-md bg-gray-50 dark:bg-gray-800 p-3 text-sm space-y-1">
+                    <p className={`flex items-start ${graded.correct ? 'text-green-600' : 'text-red-500'}`}>
+                      {graded.correct ? (
+                        <CheckCircle2 className="w-4 h-4 mr-1 mt-0.5 shrink-0" />
+                      ) : (
+                        <XCircle className="w-4 h-4 mr-1 mt-0.5 shrink-0" />
+                      )}
+                      {describeResponse(graded.response, question.choices)}
+                    </p>
+                    {!graded.correct && (
+                      <p className="text-gray-700 dark:text-gray-300">
+                        <span className="font-medium">Answer:</span> {key.answer}
+                      </p>
+                    )}
+                    <p className="text-gray-500 dark:text-gray-400">{key.explanation}</p>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          <div className="flex space-x-2">
+            {result ? (
+              <Button size="sm" className="flex-1 bg-purple-500 hover:bg-purple-600" onClick={handleRetry}>
+                Try again
+              </Button>
+            ) : (
+              <Button
+                size="sm"
+                className="flex-1 bg-purple-500 hover:bg-purple-600"
+                onClick={() => submitMutation.mutate()}
+                disabled={answered === 0 || submitMutation.isPending}
+              >
+                {submitMutation.isPending && <LoadingSpinner size="sm" className="text-white mr-2" />}
+                Check answers
+              </Button>
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => generateMutation.mutate()}
+              disabled={generateMutation.isPending}
+            >
+              {generateMutation.isPending ? (
+                <LoadingSpinner size="sm" className="mr-2" />
+              ) : (
+                <RefreshCw className="w-4 h-4 mr-2" />
+              )}
+              New questions
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-500 mt-2">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { useDataContext } from "@/contexts/DataContext";
+import { Compass } from "lucide-react";
+import { Link } from "wouter";
+import type { SongRecommendation } from "@shared/schema";
+
+interface SongRecommendationsProps {
+  // Recommend from this analysis; without one, from the user's favorites
+  songAnalysisId?: number;
+}
+
+// "You might also explore" rail: stored songs sharing themes or mood, each
+// with the connection spelled out
+export function SongRecommendations({ songAnalysisId }: SongRecommendationsProps) {
+  const { favorites } = useDataContext();
+  const fromFavorites = songAnalysisId === undefined;
+  // Keyed on the favorites too, so the rail follows them as they change
+  const { data: recommendations = [] } = useQuery<SongRecommendation[]>({
+    queryKey: fromFavorites
+      ? ["/api/recommendations", favorites.map((favorite) => favorite.songAnalysisId).join(",")]
+      : [`/api/songs/${songAnalysisId}/recommendations`],
+  });
+
+  if (recommendations.length === 0) return null;
+
+  return (
+    <div className={fromFavorites ? "mb-6" : "mt-6 border-t border-gray-200 dark:border-gray-700 pt-4"}>
+      {fromFavorites ? (
+        <h2 className="text-lg font-semibold text-white mb-4">You might also explore</h2>
+      ) : (
+        <div className="flex items-center space-x-2 mb-3">
+          <Compass className="w-5 h-5 text-purple-500" />
+          <span className="text-sm font-semibold text-purple-500">You might also explore</span>
+        </div>
+      )}
+
+      <div className="flex space-x-3 overflow-x-auto pb-2">
+        {recommendations.map(({ song, reason }) => (
+          <Link key={song.id} href={`/history?analysis=${song.id}`}>
+            <Card className="w-48 shrink-0 cursor-pointer rounded-md hover:opacity-90 transition-opacity">
+              <CardContent className="p-3 h-full text-[#ffffff] bg-[#3b006e] rounded-md">
+                <h4 className="font-medium text-sm truncate">{song.title}</h4>
+                <p className="text-xs text-[#beccde] truncate">{song.artist}</p>
+                <p className="text-xs text-[#beccde]/80 mt-2">{reason}</p>
+              </CardContent>
+            </Card>
+          </Link>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import { useEffect, useRef, useState } from "react";
+import { providerErrorMessage } from "@/lib/queryClient";
+import type { AnalysisStreamOptions } from "@/hooks/useAnalysisStream";
+import type { AlbumAnalysisWithTracks } from "@shared/schema";
+
+export type AlbumTrackStatus = "pending" | "analyzing" | "done" | "failed";
+
+export interface AlbumStreamTrack {
+  position: number;
+  title: string;
+  status: AlbumTrackStatus;
+}
+
+export interface AlbumStreamInfo {
+  title: string;
+  artist: string;
+  year?: number;
+}
+
+// Runs an album analysis through the SSE endpoint, exposing the resolved
+// tracklist and each track's progress while the album is analyzed
+export function useAlbumStream(onComplete: (album: AlbumAnalysisWithTracks) => void) {
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [album, setAlbum] = useState<AlbumStreamInfo | null>(null);
+  const [tracks, setTracks] = useState<AlbumStreamTrack[]>([]);
+  const [isWritingNarrative, setIsWritingNarrative] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const sourceRef = useRef<EventSource | null>(null);
+  const onCompleteRef = useRef(onComplete);
+  onCompleteRef.current = onComplete;
+
+  const close = () => {
+    sourceRef.current?.close();
+    sourceRef.current = null;
+    setIsStreaming(false);
+    setIsWritingNarrative(false);
+  };
+
+  const start = (query: string, { depth = "standard", persona, audience }: AnalysisStreamOptions = {}) => {
+    sourceRef.current?.close();
+    setAlbum(null);
+    setTracks([]);
+    setError(null);
+    setIsWritingNarrative(false);
+    setIsStreaming(true);
+
+    const params = new URLSearchParams({ query, depth });
+    if (persona) params.set("persona", persona);
+    if (audience) params.set("audience", audience);
+    const source = new EventSource(`/api/albums/search/stream?${params}`);
+    sourceRef.current = source;
+
+    source.addEventListener("album", (event) => {
+      const data = JSON.parse((event as MessageEvent).data);
+      setAlbum({ title: data.title, artist: data.artist, year: data.year });
+      setTracks(data.tracks.map((track: { position: number; title: string }) => ({ ...track, status: "pending" })));
+    });
+
+    source.addEventListener("track", (event) => {
+      const data = JSON.parse((event as MessageEvent).data);
+      setTracks((prev) => prev.map((track) => (track.position === data.position ? { ...track, status: data.status } : track)));
+    });
+
+    source.addEventListener("narrative", () => {
+      setIsWritingNarrative(true);
+    });
+
+    source.addEventListener("complete", (event) => {
+      close();
+      onCompleteRef.current(JSON.parse((event as MessageEvent).data));
+    });
+
+    source.addEventListener("failed", (event) => {
+      const data = JSON.parse((event as MessageEvent).data);
+      close();
+      setError(providerErrorMessage(data.code) || data.message);
+    });
+
+    // Connection-level failure; stop EventSource from reconnecting
+    source.onerror = () => {
+      if (sourceRef.current !== source) return;
+      close();
+      setError("Connection lost while analyzing album");
+    };
+  };
+
+  useEffect(() => () => sourceRef.current?.close(), []);
+
+  return {
+    start,
+    cancel: close,
+    isStreaming,
+    album,
+    tracks,
+    isWritingNarrative,
+    error,
+  };
+}
@@ -0,0 +1,85 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { parsePartialAnalysis, type AnalysisStreamPhase, type SongPreview } from "@shared/analysis";
+import { providerErrorMessage } from "@/lib/queryClient";
+import type { AnalysisAudience, AnalysisDepth, AnalysisPersona, SongAnalysis } from "@shared/schema";
+
+export interface AnalysisStreamOptions {
+  depth?: AnalysisDepth;
+  persona?: AnalysisPersona;
+  audience?: AnalysisAudience;
+}
+
+// Runs a song search through the SSE endpoint, exposing progress phases and
+// the partially generated analysis while it streams in
+export function useAnalysisStream(onComplete: (analysis: SongAnalysis) => void) {
+  const [phase, setPhase] = useState<AnalysisStreamPhase | null>(null);
+  const [song, setSong] = useState<SongPreview | null>(null);
+  const [text, setText] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const sourceRef = useRef<EventSource | null>(null);
+  const onCompleteRef = useRef(onComplete);
+  onCompleteRef.current = onComplete;
+
+  const close = () => {
+    sourceRef.current?.close();
+    sourceRef.current = null;
+    setPhase(null);
+  };
+
+  const start = (query: string, { depth = "standard", persona, audience }: AnalysisStreamOptions = {}) => {
+    sourceRef.current?.close();
+    setSong(null);
+    setText("");
+    setError(null);
+    setPhase("lookup");
+
+    const params = new URLSearchParams({ query, depth });
+    if (persona) params.set("persona", persona);
+    if (audience) params.set("audience", audience);
+    const source = new EventSource(`/api/songs/search/stream?${params}`);
+    sourceRef.current = source;
+
+    source.addEventListener("phase", (event) => {
+      const data = JSON.parse((event as MessageEvent).data);
+      setPhase(data.phase);
+      if (data.song) setSong(data.song);
+    });
+
+    source.addEventListener("token", (event) => {
+      const data = JSON.parse((event as MessageEvent).data);
+      setText((prev) => prev + data.text);
+    });
+
+    source.addEventListener("complete", (event) => {
+      close();
+      onCompleteRef.current(JSON.parse((event as MessageEvent).data));
+    });
+
+    source.addEventListener("failed", (event) => {
+      const data = JSON.parse((event as MessageEvent).data);
+      close();
+      setError(providerErrorMessage(data.code) || data.message);
+    });
+
+    // Connection-level failure; stop EventSource from reconnecting
+    source.onerror = () => {
+      if (sourceRef.current !== source) return;
+      close();
+      setError("Connection lost while analyzing song");
+    };
+  };
+
+  useEffect(() => () => sourceRef.current?.close(), []);
+
+  const partialAnalysis = useMemo(() => parsePartialAnalysis(text), [text]);
+
+  return {
+    start,
+    cancel: close,
+    isStreaming: phase !== null,
+    phase,
+    song,
+    partialAnalysis,
+    error,
+  };
+}
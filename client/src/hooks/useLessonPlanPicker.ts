@@ -0,0 +1,33 @@
+import { useState } from "react";
+
+// Most songs one lesson plan is written from; matches the server's limit
+export const MAX_LESSON_PLAN_SONGS = 5;
+
+export type LessonPlanPicker = ReturnType<typeof useLessonPlanPicker>;
+
+// Songs picked from a list to build a lesson plan from, in the order picked
+export function useLessonPlanPicker() {
+  const [isPicking, setIsPicking] = useState(false);
+  const [picked, setPicked] = useState<number[]>([]);
+
+  const toggle = (songAnalysisId: number) => {
+    setPicked((prev) => {
+      if (prev.includes(songAnalysisId)) return prev.filter((id) => id !== songAnalysisId);
+      return prev.length < MAX_LESSON_PLAN_SONGS ? [...prev, songAnalysisId] : prev;
+    });
+  };
+
+  const cancel = () => {
+    setIsPicking(false);
+    setPicked([]);
+  };
+
+  return {
+    isPicking,
+    picked,
+    start: () => setIsPicking(true),
+    cancel,
+    toggle,
+    isPicked: (songAnalysisId: number) => picked.includes(songAnalysisId),
+  };
+}
@@ -1,4 +1,5 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import { providerErrorMessages, type ProviderErrorCode } from "@shared/analysis";
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
@@ -7,6 +8,24 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+export function providerErrorMessage(code: unknown): string | undefined {
+  return typeof code === "string" && code in providerErrorMessages
+    ? providerErrorMessages[code as ProviderErrorCode]
+    : undefined;
+}
+
+// User-facing text for a failed request, explaining LLM provider failures by
+// the error code the server attaches to them
+export function describeRequestError(error: unknown, fallback: string): string {
+  const body = error instanceof Error ? error.message.match(/^\d{3}: ([\s\S]*)$/)?.[1] : undefined;
+
+  try {
+    return providerErrorMessage(body && JSON.parse(body).code) || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
 export async function apiRequest(
   method: string,
   url: string,
@@ -0,0 +1,370 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { LoadingSpinner } from "@/components/ui/loading-spinner";
+import { EmptyState } from "@/components/ui/empty-state";
+import { AnalysisSections } from "@/components/AnalysisSections";
+import { useTheme } from "@/hooks/useTheme";
+import { useAuth } from "@/hooks/useAuth";
+import { useAlbumStream, type AlbumTrackStatus } from "@/hooks/useAlbumStream";
+import { Music, Heart, Disc3, ArrowRight, Search, Check, X } from "lucide-react";
+import { format } from "date-fns";
+import { Link, useLocation, useParams } from "wouter";
+import {
+  analysisAudiences,
+  analysisDepths,
+  analysisPersonas,
+  type AlbumAnalysis,
+  type AlbumAnalysisWithTracks,
+  type AnalysisAudience,
+  type AnalysisDepth,
+  type AnalysisPersona,
+  type User,
+} from "@shared/schema";
+import { audienceLabels, depthLabels, personaLabels } from "@shared/analysis";
+
+function TrackStatusIcon({ status }: { status: AlbumTrackStatus }) {
+  switch (status) {
+    case "analyzing":
+      return <LoadingSpinner size="sm" className="text-purple-300" />;
+    case "done":
+      return <Check className="w-4 h-4 text-green-400" />;
+    case "failed":
+      return <X className="w-4 h-4 text-red-300" />;
+    default:
+      return <span className="w-4 h-4" />;
+  }
+}
+
+export default function Albums() {
+  const { id } = useParams<{ id?: string }>();
+  const [, setLocation] = useLocation();
+  const [searchQuery, setSearchQuery] = useState("");
+  const [depth, setDepth] = useState<AnalysisDepth>("standard");
+  const [persona, setPersona] = useState<AnalysisPersona | null>(null);
+  const [audience, setAudience] = useState<AnalysisAudience>("general");
+  const { user } = useAuth();
+  const preferences = (user as User | undefined)?.preferences;
+  // Albums use the profile's default voice until another one is picked
+  const selectedPersona = persona ?? preferences?.persona ?? "critic";
+  const { isDarkMode, toggleTheme } = useTheme();
+  const queryClient = useQueryClient();
+
+  const { data: albums = [], isLoading } = useQuery<AlbumAnalysis[]>({
+    queryKey: ["/api/albums"],
+    enabled: !id,
+  });
+
+  const { data: album, isLoading: isLoadingAlbum } = useQuery<AlbumAnalysisWithTracks>({
+    queryKey: [`/api/albums/${id}`],
+    enabled: !!id,
+  });
+
+  const albumStream = useAlbumStream((completed) => {
+    queryClient.setQueryData([`/api/albums/${completed.id}`], completed);
+    queryClient.invalidateQueries({ queryKey: ["/api/albums"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/songs/history"] });
+    setSearchQuery("");
+    setLocation(`/albums/${completed.id}`);
+  });
+
+  const handleSearch = () => {
+    if (!searchQuery.trim()) return;
+    albumStream.start(searchQuery.trim(), { depth, persona: selectedPersona, audience });
+  };
+
+  const analyzedCount = albumStream.tracks.filter((track) => track.status === "done" || track.status === "failed").length;
+
+  return (
+    <div className="min-h-screen bg-[#6606ba] text-[#d3d3e3]">
+      {/* Header */}
+      <header className="bg-gray-900 shadow-sm p-4 sticky top-0 z-30 border-b border-gray-800">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <div className="w-8 h-8 bg-purple-500 rounded-full flex items-center justify-center">
+              <Music className="w-4 h-4 text-white" />
+            </div>
+            <div>
+              <h1 className="text-lg font-semibold text-white">Lyric Sensei</h1>
+              <p className="text-xs text-gray-400">Analyze whole albums</p>
+            </div>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Link href="/">
+              <Button variant="ghost" size="sm" className="text-purple-400 hover:text-purple-300">
+                <Music className="w-4 h-4 mr-1" />
+                Home
+              </Button>
+            </Link>
+            <Link href="/favorites">
+              <Button variant="ghost" size="sm" className="text-purple-400 hover:text-purple-300">
+                <Heart className="w-4 h-4 mr-1" />
+                Favorites
+              </Button>
+            </Link>
+            <Button variant="ghost" size="sm" onClick={toggleTheme}>
+              {isDarkMode ? "☀️" : "🌙"}
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <div className="max-w-md mx-auto p-4">
+        {id ? (
+          isLoadingAlbum ? (
+            <div className="flex justify-center py-8">
+              <LoadingSpinner />
+            </div>
+          ) : !album ? (
+            <EmptyState
+              icon={<Disc3 className="w-12 h-12 text-purple-400" />}
+              title="Album Not Found"
+              description="This album analysis doesn't exist or isn't yours"
+            />
+          ) : (
+            <>
+              {/* Album Detail */}
+              <Card className="mb-6 overflow-hidden border-purple-200 dark:border-purple-800">
+                <CardContent className="p-0">
+                  <div className="bg-gradient-to-r from-purple-500 to-purple-600 p-6 text-white">
+                    <h2 className="text-2xl font-bold">{album.title}</h2>
+                    <p className="text-white/80">
+                      <Link href={`/artists/${encodeURIComponent(album.artist)}`}>
+                        <span className="hover:underline cursor-pointer">{album.artist}</span>
+                      </Link>
+                      {album.yearReleased && <> · {album.yearReleased}</>}
+                    </p>
+                  </div>
+                  <div className="p-6">
+                    <p className="mb-4 text-gray-700 dark:text-gray-300 leading-relaxed">{album.summary}</p>
+                    <AnalysisSections
+                      analysis={{
+                        themes: album.themes,
+                        mood: null,
+                        sections: album.sections,
+                        lyricsAnalysis: album.summary,
+                      }}
+                    />
+                  </div>
+                </CardContent>
+              </Card>
+
+              <h2 className="text-lg font-semibold text-white mb-4">Tracks</h2>
+              <div className="space-y-2">
+                {album.tracks.map((track) => {
+                  const row = (
+                    <Card
+                      className={`rounded-md transition-colors ${track.songAnalysis ? "cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-800" : "opacity-60"}`}
+                    >
+                      <CardContent className="p-4 text-[#ffffff] bg-[#3b006e] pt-[10px] pb-[10px] pl-[14px] pr-[14px] mt-[-1px] mb-[-1px] ml-[-1px] mr-[-1px] rounded-md">
+                        <div className="flex items-center space-x-3">
+                          <span className="w-6 text-right text-sm text-[#beccde]">{track.position}</span>
+                          <div className="flex-1">
+                            <h4 className="font-medium text-[#ffffff]">{track.title}</h4>
+                            <p className="text-sm text-[#beccde] capitalize">
+                              {track.songAnalysis ? track.songAnalysis.mood || "" : "Not analyzed"}
+                            </p>
+                          </div>
+                          {track.songAnalysis && <ArrowRight className="w-4 h-4 text-gray-400" />}
+                        </div>
+                      </CardContent>
+                    </Card>
+                  );
+
+                  return track.songAnalysis ? (
+                    <Link key={track.id} href={`/history?analysis=${track.songAnalysis.id}`}>
+                      {row}
+                    </Link>
+                  ) : (
+                    <div key={track.id}>{row}</div>
+                  );
+                })}
+              </div>
+            </>
+          )
+        ) : (
+          <>
+            {/* Search Section */}
+            <div className="mb-6">
+              <div className="relative mb-4">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+                <Input
+                  type="text"
+                  placeholder="Artist - Album..."
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  onKeyPress={(e) => e.key === "Enter" && handleSearch()}
+                  className="py-4 text-lg dark:bg-gray-800 border-gray-200 dark:border-gray-700 rounded-2xl focus:ring-2 focus:ring-purple-500 focus:border-transparent bg-[#27417d] pt-[18px] pb-[18px] pl-[40.25px] pr-[40.25px]"
+                  disabled={albumStream.isStreaming}
+                />
+                <Button
+                  onClick={handleSearch}
+                  disabled={albumStream.isStreaming || !searchQuery.trim()}
+                  size="sm"
+                  className="absolute right-2 top-1/2 transform -translate-y-1/2 bg-purple-500 hover:bg-purple-600 rounded-xl"
+                >
+                  {albumStream.isStreaming ? (
+                    <LoadingSpinner size="sm" className="text-white" />
+                  ) : (
+                    <ArrowRight className="w-4 h-4" />
+                  )}
+                </Button>
+              </div>
+
+              {/* Analysis Depth */}
+              <div className="flex justify-center space-x-2">
+                {analysisDepths.map((mode) => (
+                  <Button
+                    key={mode}
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setDepth(mode)}
+                    disabled={albumStream.isStreaming}
+                    className={`rounded-full ${
+                      depth === mode
+                        ? 'bg-purple-500 text-white hover:bg-purple-600'
+                        : 'text-[#ccd3e0] hover:bg-white/10'
+                    }`}
+                  >
+                    {depthLabels[mode]}
+                  </Button>
+                ))}
+              </div>
+
+              {/* Analysis Persona and Audience */}
+              <div className="flex justify-center items-center space-x-2 mt-2">
+                <Select
+                  value={selectedPersona}
+                  onValueChange={(value) => setPersona(value as AnalysisPersona)}
+                  disabled={albumStream.isStreaming}
+                >
+                  <SelectTrigger
+                    aria-label="Voice"
+                    className="w-44 h-8 rounded-full border-white/20 bg-transparent text-[#ccd3e0]"
+                  >
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {analysisPersonas.map((option) => (
+                      <SelectItem
+                        key={option}
+                        value={option}
+                        disabled={option === "custom" && !preferences?.customPersona}
+                      >
+                        {personaLabels[option]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={audience}
+                  onValueChange={(value) => setAudience(value as AnalysisAudience)}
+                  disabled={albumStream.isStreaming}
+                >
+                  <SelectTrigger
+                    aria-label="Audience"
+                    className="w-36 h-8 rounded-full border-white/20 bg-transparent text-[#ccd3e0]"
+                  >
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {analysisAudiences.map((option) => (
+                      <SelectItem key={option} value={option}>
+                        {audienceLabels[option]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {albumStream.error && (
+                <p className="text-center text-red-200 mt-3">{albumStream.error}</p>
+              )}
+            </div>
+
+            {/* Album Progress */}
+            {albumStream.isStreaming && (
+              <Card className="mb-6 overflow-hidden border-purple-200 dark:border-purple-800">
+                <CardContent className="p-0">
+                  <div className="bg-gradient-to-r from-purple-500 to-purple-600 p-6 text-white">
+                    {albumStream.album ? (
+                      <>
+                        <h2 className="text-xl font-bold">{albumStream.album.title}</h2>
+                        <p className="text-white/80 text-sm">
+                          {albumStream.album.artist} · {albumStream.isWritingNarrative
+                            ? "Reading the album as a whole..."
+                            : `Analyzed ${analyzedCount} of ${albumStream.tracks.length} tracks`}
+                        </p>
+                      </>
+                    ) : (
+                      <p className="text-white/80">Looking up the tracklist...</p>
+                    )}
+                  </div>
+                  {albumStream.tracks.length > 0 && (
+                    <div className="p-4 space-y-1 text-sm text-gray-700 dark:text-gray-300">
+                      {albumStream.tracks.map((track) => (
+                        <div key={track.position} className="flex items-center space-x-3">
+                          <span className="w-6 text-right text-gray-400">{track.position}</span>
+                          <span className="flex-1">{track.title}</span>
+                          <TrackStatusIcon status={track.status} />
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Analyzed Albums */}
+            {isLoading ? (
+              <div className="flex justify-center py-8">
+                <LoadingSpinner />
+              </div>
+            ) : albums.length > 0 ? (
+              <>
+                <h2 className="text-lg font-semibold text-white mb-4">Your Albums</h2>
+                <div className="space-y-3">
+                  {albums.map((entry) => (
+                    <Link key={entry.id} href={`/albums/${entry.id}`}>
+                      <Card className="cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors rounded-md">
+                        <CardContent className="p-4 text-[#ffffff] bg-[#3b006e] pt-[10px] pb-[10px] pl-[14px] pr-[14px] mt-[-1px] mb-[-1px] ml-[-1px] mr-[-1px] rounded-md">
+                          <div className="flex items-center space-x-3">
+                            <div className="w-12 h-12 bg-purple-100 dark:bg-purple-900/30 rounded-lg flex items-center justify-center">
+                              <Disc3 className="w-6 h-6 text-purple-500" />
+                            </div>
+                            <div className="flex-1">
+                              <h4 className="font-medium text-[#ffffff]">{entry.title}</h4>
+                              <p className="font-medium text-[15px] text-[#beccde]">
+                                {entry.artist}{entry.yearReleased ? ` • ${entry.yearReleased}` : ""}
+                              </p>
+                            </div>
+                            <span className="text-xs text-[#beccde]">
+                              {entry.createdAt ? format(new Date(entry.createdAt), "dd MMM") : ""}
+                            </span>
+                            <ArrowRight className="w-4 h-4 text-gray-400" />
+                          </div>
+                        </CardContent>
+                      </Card>
+                    </Link>
+                  ))}
+                </div>
+              </>
+            ) : !albumStream.isStreaming && (
+              <EmptyState
+                icon={<Disc3 className="w-12 h-12 text-purple-400" />}
+                title="No Albums Yet"
+                description="Search for an album to analyze every track and how they fit together"
+              />
+            )}
+          </>
+        )}
+
+        {/* Bottom padding */}
+        <div className="h-20" />
+      </div>
+    </div>
+  );
+}
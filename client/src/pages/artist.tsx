@@ -0,0 +1,200 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { LoadingSpinner } from "@/components/ui/loading-spinner";
+import { EmptyState } from "@/components/ui/empty-state";
+import { useTheme } from "@/hooks/useTheme";
+import { apiRequest, describeRequestError } from "@/lib/queryClient";
+import { Music, Heart, Mic, Sparkles, RefreshCw } from "lucide-react";
+import { Link, useParams } from "wouter";
+import type { ArtistOverview } from "@shared/schema";
+
+export default function Artist() {
+  const { name = "" } = useParams<{ name: string }>();
+  const artistName = decodeURIComponent(name);
+  const { isDarkMode, toggleTheme } = useTheme();
+  const queryClient = useQueryClient();
+  const queryKey = [`/api/artists/${encodeURIComponent(artistName)}`];
+
+  const { data: artist, isLoading } = useQuery<ArtistOverview>({
+    queryKey,
+    retry: false,
+  });
+
+  const lensMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/artists/${encodeURIComponent(artistName)}/lens`);
+      return res.json();
+    },
+    onSuccess: (data: ArtistOverview) => {
+      queryClient.setQueryData(queryKey, data);
+    },
+  });
+
+  const topMoodCount = artist?.moods[0]?.count ?? 0;
+
+  return (
+    <div className="min-h-screen bg-[#6606ba] text-[#d3d3e3]">
+      {/* Header */}
+      <header className="bg-gray-900 shadow-sm p-4 sticky top-0 z-30 border-b border-gray-800">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <div className="w-8 h-8 bg-purple-500 rounded-full flex items-center justify-center">
+              <Music className="w-4 h-4 text-white" />
+            </div>
+            <div>
+              <h1 className="text-lg font-semibold text-white">Lyric Sensei</h1>
+              <p className="text-xs text-gray-400">Artist profile</p>
+            </div>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Link href="/">
+              <Button variant="ghost" size="sm" className="text-purple-400 hover:text-purple-300">
+                <Music className="w-4 h-4 mr-1" />
+                Home
+              </Button>
+            </Link>
+            <Link href="/favorites">
+              <Button variant="ghost" size="sm" className="text-purple-400 hover:text-purple-300">
+                <Heart className="w-4 h-4 mr-1" />
+                Favorites
+              </Button>
+            </Link>
+            <Button variant="ghost" size="sm" onClick={toggleTheme}>
+              {isDarkMode ? "☀️" : "🌙"}
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <div className="max-w-md mx-auto p-4">
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner />
+          </div>
+        ) : !artist ? (
+          <EmptyState
+            icon={<Mic className="w-12 h-12 text-purple-400" />}
+            title="No Songs Analyzed Yet"
+            description={`Analyze a song by ${artistName} to start building their profile`}
+          />
+        ) : (
+          <>
+            <Card className="mb-6 overflow-hidden border-purple-200 dark:border-purple-800">
+              <CardContent className="p-0">
+                <div className="bg-gradient-to-r from-purple-500 to-purple-600 p-6 text-white">
+                  <h2 className="text-2xl font-bold">{artist.name}</h2>
+                  <p className="text-white/80 text-sm">
+                    {artist.songs.length} {artist.songs.length === 1 ? "song" : "songs"} analyzed
+                    {artist.yearSpan && (
+                      <> · {artist.yearSpan.from === artist.yearSpan.to
+                        ? artist.yearSpan.from
+                        : `${artist.yearSpan.from}–${artist.yearSpan.to}`}</>
+                    )}
+                  </p>
+                </div>
+
+                <div className="p-6 space-y-6">
+                  {/* Artist Lens */}
+                  <div>
+                    <div className="flex items-center space-x-2 mb-2">
+                      <Sparkles className="w-5 h-5 text-purple-500" />
+                      <span className="text-sm font-semibold text-purple-500">Artist Lens</span>
+                    </div>
+                    {artist.lens ? (
+                      artist.lens.split(/\n\s*\n/).map((paragraph, index) => (
+                        <p key={index} className="mb-3 text-gray-700 dark:text-gray-300 leading-relaxed">{paragraph}</p>
+                      ))
+                    ) : (
+                      <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">
+                        A short read on what ties {artist.name}'s songs together.
+                      </p>
+                    )}
+                    {artist.lensStale && (
+                      <Button
+                        size="sm"
+                        variant={artist.lens ? "outline" : "default"}
+                        className={artist.lens ? "w-full" : "w-full bg-purple-500 hover:bg-purple-600"}
+                        onClick={() => lensMutation.mutate()}
+                        disabled={lensMutation.isPending}
+                      >
+                        {lensMutation.isPending ? (
+                          <LoadingSpinner size="sm" className={artist.lens ? "mr-2" : "text-white mr-2"} />
+                        ) : artist.lens ? (
+                          <RefreshCw className="w-4 h-4 mr-2" />
+                        ) : (
+                          <Sparkles className="w-4 h-4 mr-2" />
+                        )}
+                        {artist.lens ? "Update with newer songs" : "Write artist lens"}
+                      </Button>
+                    )}
+                    {lensMutation.isError && (
+                      <p className="text-sm text-red-500 mt-2">
+                        {describeRequestError(lensMutation.error, "Couldn't write the artist lens. Please try again.")}
+                      </p>
+                    )}
+                  </div>
+
+                  {/* Recurring Themes */}
+                  {artist.themes.length > 0 && (
+                    <div>
+                      <span className="text-sm font-semibold text-purple-500">Recurring Themes</span>
+                      <div className="flex flex-wrap gap-2 mt-2">
+                        {artist.themes.slice(0, 12).map(({ theme, count }) => (
+                          <Badge key={theme} variant="secondary" className="capitalize">
+                            {theme}
+                            {count > 1 && <span className="ml-1 text-gray-400">×{count}</span>}
+                          </Badge>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Mood Distribution */}
+                  {artist.moods.length > 0 && (
+                    <div>
+                      <span className="text-sm font-semibold text-purple-500">Moods</span>
+                      <div className="space-y-1 mt-2">
+                        {artist.moods.map(({ mood, count }) => (
+                          <div key={mood} className="flex items-center space-x-2 text-sm">
+                            <span className="w-28 shrink-0 capitalize text-gray-700 dark:text-gray-300 truncate">{mood}</span>
+                            <div className="flex-1 h-2 rounded bg-gray-100 dark:bg-gray-800">
+                              <div
+                                className="h-2 rounded bg-purple-500"
+                                style={{ width: `${(count / topMoodCount) * 100}%` }}
+                              />
+                            </div>
+                            <span className="w-6 text-right text-xs text-gray-400">{count}</span>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+
+            <h2 className="text-lg font-semibold text-white mb-4">Analyzed Songs</h2>
+            <div className="space-y-3">
+              {artist.songs.map((song) => (
+                <Card key={song.id} className="rounded-md">
+                  <CardContent className="p-4 text-[#ffffff] bg-[#3b006e] pt-[10px] pb-[10px] pl-[14px] pr-[14px] mt-[-1px] mb-[-1px] ml-[-1px] mr-[-1px] rounded-md">
+                    <div className="flex items-center justify-between">
+                      <h4 className="font-medium text-[#ffffff]">{song.title}</h4>
+                      {song.yearReleased && <span className="text-xs text-[#beccde]">{song.yearReleased}</span>}
+                    </div>
+                    {song.mood && <p className="font-medium text-[15px] text-[#beccde] capitalize">{song.mood}</p>}
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          </>
+        )}
+
+        {/* Bottom padding */}
+        <div className="h-20" />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,345 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { LoadingSpinner } from "@/components/ui/loading-spinner";
+import { EmptyState } from "@/components/ui/empty-state";
+import { AnalysisSections } from "@/components/AnalysisSections";
+import { useTheme } from "@/hooks/useTheme";
+import { useToast } from "@/hooks/use-toast";
+import { useDataContext } from "@/contexts/DataContext";
+import { apiRequest, describeRequestError } from "@/lib/queryClient";
+import { Music, Heart, Share, ArrowRight, GitCompare, X } from "lucide-react";
+import { format } from "date-fns";
+import { Link, useParams } from "wouter";
+import type { SongAnalysis, SongComparisonWithSongs } from "@shared/schema";
+
+interface ComparisonSide {
+  query: string;
+  analysis: SongAnalysis | null;
+}
+
+const emptySide: ComparisonSide = { query: "", analysis: null };
+
+export default function Compare() {
+  const { shareToken } = useParams<{ shareToken?: string }>();
+  const [left, setLeft] = useState<ComparisonSide>(emptySide);
+  const [right, setRight] = useState<ComparisonSide>(emptySide);
+  const [selectedComparison, setSelectedComparison] = useState<SongComparisonWithSongs | null>(null);
+  const { isDarkMode, toggleTheme } = useTheme();
+  const { history } = useDataContext();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: comparisons = [], isLoading } = useQuery<SongComparisonWithSongs[]>({
+    queryKey: ["/api/comparisons"],
+    enabled: !shareToken,
+  });
+
+  const { data: sharedComparison, isLoading: isLoadingShared } = useQuery<SongComparisonWithSongs>({
+    queryKey: [`/api/comparisons/shared/${shareToken}`],
+    enabled: !!shareToken,
+  });
+
+  const compareMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/comparisons", {
+        leftId: left.analysis?.id,
+        leftQuery: left.query,
+        rightId: right.analysis?.id,
+        rightQuery: right.query,
+      });
+      return res.json();
+    },
+    onSuccess: (data: SongComparisonWithSongs) => {
+      setSelectedComparison(data);
+      setLeft(emptySide);
+      setRight(emptySide);
+      queryClient.invalidateQueries({ queryKey: ["/api/comparisons"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/songs/history"] });
+    },
+  });
+
+  const favoriteMutation = useMutation({
+    mutationFn: async (comparison: SongComparisonWithSongs) => {
+      const res = await apiRequest("PATCH", `/api/comparisons/${comparison.id}`, { isFavorite: !comparison.isFavorite });
+      return res.json();
+    },
+    onSuccess: (data) => {
+      setSelectedComparison((prev) => (prev && prev.id === data.id ? { ...prev, isFavorite: data.isFavorite } : prev));
+      queryClient.invalidateQueries({ queryKey: ["/api/comparisons"] });
+    },
+  });
+
+  const shareMutation = useMutation({
+    mutationFn: async (comparisonId: number) => {
+      const res = await apiRequest("POST", `/api/comparisons/${comparisonId}/share`);
+      return res.json();
+    },
+    onSuccess: async ({ shareToken }: { shareToken: string }) => {
+      const url = `${window.location.origin}/compare/shared/${shareToken}`;
+      await navigator.clipboard?.writeText(url);
+      toast({ title: "Share link copied", description: url });
+    },
+  });
+
+  // Fill the first open side with a song from history
+  const pickFromHistory = (analysis: SongAnalysis) => {
+    const side = { query: `${analysis.title} by ${analysis.artist}`, analysis };
+    if (!left.query) {
+      setLeft(side);
+    } else {
+      setRight(side);
+    }
+  };
+
+  const canCompare = !!left.query.trim() && !!right.query.trim() && !compareMutation.isPending;
+  const displayed = shareToken ? sharedComparison : selectedComparison;
+  const favoriteComparisons = comparisons.filter((comparison) => comparison.isFavorite);
+  const otherComparisons = comparisons.filter((comparison) => !comparison.isFavorite);
+
+  const renderSideInput = (label: string, side: ComparisonSide, setSide: (side: ComparisonSide) => void) => (
+    <div className="relative">
+      <Input
+        type="text"
+        placeholder={label}
+        value={side.query}
+        onChange={(e) => setSide({ query: e.target.value, analysis: null })}
+        className="py-4 text-lg dark:bg-gray-800 border-gray-200 dark:border-gray-700 rounded-2xl focus:ring-2 focus:ring-purple-500 focus:border-transparent bg-[#27417d] pt-[18px] pb-[18px] pr-[40.25px]"
+        disabled={compareMutation.isPending}
+      />
+      {side.query && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="absolute right-2 top-1/2 transform -translate-y-1/2 text-gray-400"
+          onClick={() => setSide(emptySide)}
+        >
+          <X className="w-4 h-4" />
+        </Button>
+      )}
+    </div>
+  );
+
+  const renderComparisonRow = (comparison: SongComparisonWithSongs) => (
+    <Card key={comparison.id} className="cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors rounded-md" onClick={() => setSelectedComparison(comparison)}>
+      <CardContent className="p-4 text-[#ffffff] bg-[#3b006e] pt-[10px] pb-[10px] pl-[14px] pr-[14px] mt-[-1px] mb-[-1px] ml-[-1px] mr-[-1px] rounded-md">
+        <div className="flex items-center space-x-3">
+          <div className="w-12 h-12 bg-green-100 dark:bg-green-900/30 rounded-lg flex items-center justify-center">
+            <GitCompare className="w-6 h-6 text-green-500" />
+          </div>
+          <div className="flex-1">
+            <h4 className="font-medium dark:text-white text-[#ffffff]">
+              {comparison.left.title} vs {comparison.right.title}
+            </h4>
+            <p className="dark:text-gray-400 font-medium text-[15px] text-[#beccde]">
+              {comparison.left.artist} • {comparison.right.artist}
+            </p>
+          </div>
+          {comparison.isFavorite && <Heart className="w-4 h-4 fill-red-500 text-red-500" />}
+          <span className="text-xs text-[#beccde]">
+            {comparison.createdAt ? format(new Date(comparison.createdAt), "dd MMM") : ""}
+          </span>
+          <ArrowRight className="w-4 h-4 text-gray-400" />
+        </div>
+      </CardContent>
+    </Card>
+  );
+
+  return (
+    <div className="min-h-screen bg-[#6606ba] text-[#d3d3e3]">
+      {/* Header */}
+      <header className="bg-gray-900 shadow-sm p-4 sticky top-0 z-30 border-b border-gray-800">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <div className="w-8 h-8 bg-purple-500 rounded-full flex items-center justify-center">
+              <Music className="w-4 h-4 text-white" />
+            </div>
+            <div>
+              <h1 className="text-lg font-semibold text-white">Lyric Sensei</h1>
+              <p className="text-xs text-gray-400">Compare songs side by side</p>
+            </div>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Link href="/">
+              <Button variant="ghost" size="sm" className="text-purple-400 hover:text-purple-300">
+                <Music className="w-4 h-4 mr-1" />
+                Home
+              </Button>
+            </Link>
+            <Link href="/favorites">
+              <Button variant="ghost" size="sm" className="text-purple-400 hover:text-purple-300">
+                <Heart className="w-4 h-4 mr-1" />
+                Favorites
+              </Button>
+            </Link>
+            <Button variant="ghost" size="sm" onClick={toggleTheme}>
+              {isDarkMode ? "☀️" : "🌙"}
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <div className="max-w-md mx-auto p-4">
+        {/* Comparison Form */}
+        {!shareToken && (
+          <div className="mb-6 space-y-3">
+            {renderSideInput("First song...", left, setLeft)}
+            {renderSideInput("Second song...", right, setRight)}
+
+            {history.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {history.slice(0, 8).map((analysis) => (
+                  <Badge
+                    key={analysis.id}
+                    variant="secondary"
+                    className="cursor-pointer"
+                    onClick={() => pickFromHistory(analysis)}
+                  >
+                    {analysis.title}
+                  </Badge>
+                ))}
+              </div>
+            )}
+
+            <Button
+              className="w-full bg-purple-500 hover:bg-purple-600"
+              onClick={() => compareMutation.mutate()}
+              disabled={!canCompare}
+            >
+              {compareMutation.isPending ? (
+                <LoadingSpinner size="sm" className="text-white mr-2" />
+              ) : (
+                <GitCompare className="w-4 h-4 mr-2" />
+              )}
+              Compare
+            </Button>
+
+            {compareMutation.isError && (
+              <p className="text-center text-red-200">
+                {describeRequestError(compareMutation.error, "Couldn't compare those songs. Please try again.")}
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Comparison Detail */}
+        {shareToken && isLoadingShared ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner />
+          </div>
+        ) : displayed && (
+          <Card className="mb-6 overflow-hidden border-purple-200 dark:border-purple-800">
+            <CardContent className="p-0">
+              <div className="bg-gradient-to-r from-purple-500 to-purple-600 p-6 text-white">
+                <div className="flex items-start space-x-3">
+                  <div className="flex-1 space-y-2">
+                    <div>
+                      <span className="text-white text-lg font-bold">{displayed.left.title}</span>
+                      <span className="text-white/80"> — {displayed.left.artist}</span>
+                    </div>
+                    <div className="text-white/70 text-sm font-medium">vs</div>
+                    <div>
+                      <span className="text-white text-lg font-bold">{displayed.right.title}</span>
+                      <span className="text-white/80"> — {displayed.right.artist}</span>
+                    </div>
+                  </div>
+                  {!shareToken && (
+                    <div className="flex items-center space-x-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-white hover:bg-white/20"
+                        onClick={() => favoriteMutation.mutate(displayed)}
+                        disabled={favoriteMutation.isPending}
+                      >
+                        <Heart className={`w-5 h-5 ${displayed.isFavorite ? 'fill-red-500 text-red-500' : 'text-white'}`} />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-white hover:bg-white/20"
+                        onClick={() => setSelectedComparison(null)}
+                      >
+                        <X className="w-5 h-5" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              </div>
+
+              <div className="p-6">
+                <p className="mb-4 text-gray-700 dark:text-gray-300 leading-relaxed">{displayed.summary}</p>
+                <AnalysisSections
+                  analysis={{
+                    themes: displayed.sharedThemes,
+                    mood: null,
+                    sections: displayed.sections,
+                    lyricsAnalysis: displayed.summary,
+                  }}
+                />
+
+                {!shareToken && (
+                  <div className="flex space-x-3 mt-6">
+                    <Button
+                      className="flex-1 bg-purple-500 hover:bg-purple-600"
+                      size="sm"
+                      onClick={() => shareMutation.mutate(displayed.id)}
+                      disabled={shareMutation.isPending}
+                    >
+                      <Share className="w-4 h-4 mr-2" />
+                      Share Comparison
+                    </Button>
+                  </div>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {shareToken && !isLoadingShared && !sharedComparison && (
+          <EmptyState
+            icon={<GitCompare className="w-12 h-12 text-purple-400" />}
+            title="Comparison Not Found"
+            description="This share link is no longer valid"
+          />
+        )}
+
+        {/* Saved Comparisons */}
+        {!shareToken && (
+          isLoading ? (
+            <div className="flex justify-center py-8">
+              <LoadingSpinner />
+            </div>
+          ) : comparisons.length > 0 ? (
+            <>
+              {favoriteComparisons.length > 0 && (
+                <>
+                  <h2 className="text-lg font-semibold text-white mb-4">Favorite Comparisons</h2>
+                  <div className="space-y-3 mb-6">{favoriteComparisons.map(renderComparisonRow)}</div>
+                </>
+              )}
+              {otherComparisons.length > 0 && (
+                <>
+                  <h2 className="text-lg font-semibold text-white mb-4">Recent Comparisons</h2>
+                  <div className="space-y-3">{otherComparisons.map(renderComparisonRow)}</div>
+                </>
+              )}
+            </>
+          ) : (
+            <EmptyState
+              icon={<GitCompare className="w-12 h-12 text-purple-400" />}
+              title="No Comparisons Yet"
+              description="Pick two songs to see how their themes, moods and symbolism line up"
+            />
+          )
+        )}
+
+        {/* Bottom padding */}
+        <div className="h-20" />
+      </div>
+    </div>
+  );
+}
@@ -1,18 +1,35 @@
 import { useState } from "react";
 import { useMutation } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { LoadingSpinner } from "@/components/ui/loading-spinner";
 import { EmptyState } from "@/components/ui/empty-state";
+import { Checkbox } from "@/components/ui/checkbox";
+import { AnalysisSections } from "@/components/AnalysisSections";
+import { AnalysisRevisions } from "@/components/AnalysisRevisions";
+import { MetadataVerification } from "@/components/MetadataVerification";
+import { AnnotatedLyrics } from "@/components/AnnotatedLyrics";
+import { ProsodyLyrics } from "@/components/ProsodyLyrics";
+import { EmotionalArcChart } from "@/components/EmotionalArcChart";
+import { LiteraryDevices } from "@/components/LiteraryDevices";
+import { LyricStatsPanel } from "@/components/LyricStatsPanel";
+import { AnalysisFeedback } from "@/components/AnalysisFeedback";
+import { SongQuiz } from "@/components/SongQuiz";
+import { AnalysisShareActions } from "@/components/AnalysisShareActions";
+import { SongRecommendations } from "@/components/SongRecommendations";
+import { LessonPlanPicker } from "@/components/LessonPlanPicker";
 import { useTheme } from "@/hooks/useTheme";
 import { useAuth } from "@/hooks/useAuth";
 import { useDataContext } from "@/contexts/DataContext";
+import { useLessonPlanPicker } from "@/hooks/useLessonPlanPicker";
 import { apiRequest } from "@/lib/queryClient";
-import { Music, ArrowLeft, Heart, Brain, Share, ArrowRight, X, Search } from "lucide-react";
+import { Music, ArrowLeft, Heart, Brain, ArrowRight, X, Search } from "lucide-react";
 import { format } from "date-fns";
 import { Link } from "wouter";
 import type { Favorite, SongAnalysis } from "@shared/schema";
+import { audienceLabels, personaLabels } from "@shared/analysis";
 
 export default function Favorites() {
   const [selectedAnalysis, setSelectedAnalysis] = useState<SongAnalysis | null>(null);
@@ -20,13 +37,16 @@ export default function Favorites() {
   const { user } = useAuth();
   const { isDarkMode, toggleTheme } = useTheme();
   const { favorites, isLoading, refreshData, optimisticToggleFavorite } = useDataContext();
+  const lessonPlanPicker = useLessonPlanPicker();
   const isReallyLoading = isLoading && favorites.length === 0;
 
   // Filter favorites based on local search
   const filteredFavorites = favorites.filter(favorite =>
     favorite.songAnalysis.title.toLowerCase().includes(localSearchQuery.toLowerCase()) ||
     favorite.songAnalysis.artist.toLowerCase().includes(localSearchQuery.toLowerCase()) ||
-    (favorite.songAnalysis.genre && favorite.songAnalysis.genre.toLowerCase().includes(localSearchQuery.toLowerCase()))
+    (favorite.songAnalysis.genre && favorite.songAnalysis.genre.toLowerCase().includes(localSearchQuery.toLowerCase())) ||
+    (favorite.songAnalysis.mood && favorite.songAnalysis.mood.toLowerCase().includes(localSearchQuery.toLowerCase())) ||
+    favorite.songAnalysis.themes.some(theme => theme.toLowerCase().includes(localSearchQuery.toLowerCase()))
   );
 
   // Remove favorite mutation
@@ -181,7 +201,9 @@ export default function Favorites() {
                     </div>
                     <div className="mb-1">
                       <span className="text-white/70 text-lg font-medium">Artist: </span>
-                      <span className="text-white/90 text-lg">{selectedAnalysis.artist}</span>
+                      <Link href={`/artists/${encodeURIComponent(selectedAnalysis.artist)}`}>
+                        <span className="text-white/90 text-lg hover:underline cursor-pointer">{selectedAnalysis.artist}</span>
+                      </Link>
                     </div>
                     <div className="mb-1">
                       <span className="text-white/70 text-lg font-medium">Genre: </span>
@@ -191,6 +213,7 @@ export default function Favorites() {
                       <span className="text-white/70 text-lg font-medium">Released: </span>
                       <span className="text-white/80 text-lg">{selectedAnalysis.yearReleased || 'Unknown'}</span>
                     </div>
+                    <MetadataVerification metadata={selectedAnalysis.metadata} />
                   </div>
                   <div className="flex items-center space-x-1">
                     <Button
@@ -228,82 +251,65 @@ export default function Favorites() {
                 <div className="flex items-center space-x-2 mb-4">
                   <Brain className="w-5 h-5 text-purple-500" />
                   <span className="text-sm font-semibold text-purple-500">AI Analysis</span>
+                  <Badge
+                    variant="secondary"
+                    className="ml-auto text-xs"
+                    title={selectedAnalysis.customPersona || undefined}
+                  >
+                    {personaLabels[selectedAnalysis.persona]}
+                  </Badge>
+                  {selectedAnalysis.audience !== "general" && (
+                    <Badge variant="secondary" className="text-xs">
+                      {audienceLabels[selectedAnalysis.audience]}
+                    </Badge>
+                  )}
                 </div>
-                <div className="text-gray-700 dark:text-gray-300 leading-relaxed text-justify">
-                  {selectedAnalysis.lyricsAnalysis.split('\n').map((paragraph, index) => {
-                    if (!paragraph.trim()) {
-                      return null;
-                    }
-
-                    // Skip metadata lines that should only appear in header
-                    if (paragraph.match(/^Genre:\s*/i) || paragraph.match(/^Release Year:\s*/i)) {
-                      return null;
-                    }
-
-                    // Handle markdown headers (### and ##)
-                    if (paragraph.startsWith('###') || paragraph.startsWith('##')) {
-                      const headerText = paragraph.replace(/^#{2,3}\s*/, '');
-                      return (
-                        <h3 key={index} className="text-lg font-bold text-purple-600 dark:text-purple-400 mb-3 mt-4">
-                          {headerText}
-                        </h3>
-                      );
-                    }
-
-                    if (paragraph.toLowerCase().includes('themes:') || paragraph.includes('**Themes:**')) {
-                      return (
-                        <p key={index} className="mb-3 last:mb-0">
-                          <span className="font-bold text-purple-600 dark:text-purple-400">Themes:</span>
-                        </p>
-                      );
-                    }
-                    
-                    if (paragraph.includes('**') && paragraph.includes(':')) {
-                      const cleanedParagraph = paragraph.replace(/\*\*/g, '');
-                      const parts = cleanedParagraph.split(':');
-                      if (parts.length > 1) {
-                        return (
-                          <p key={index} className="mb-3 last:mb-0">
-                            <span className="font-bold text-purple-600 dark:text-purple-400">{parts[0]}:</span>
-                            {parts.slice(1).join(':')}
-                          </p>
-                        );
-                      }
-                    }
-                    
-                    const cleanedParagraph = paragraph.replace(/\*\*/g, '');
-                    return (
-                      <p key={index} className="mb-3 last:mb-0">
-                        {cleanedParagraph}
-                      </p>
-                    );
-                  })}
-                </div>
+                <AnalysisRevisions analysis={selectedAnalysis} onSelect={setSelectedAnalysis} />
+                <AnalysisSections analysis={selectedAnalysis} />
+                {selectedAnalysis.lyrics && selectedAnalysis.emotionalArc && (
+                  <EmotionalArcChart arc={selectedAnalysis.emotionalArc} lyrics={selectedAnalysis.lyrics} />
+                )}
+                {selectedAnalysis.lyrics && (
+                  <AnnotatedLyrics songAnalysisId={selectedAnalysis.id} lyrics={selectedAnalysis.lyrics} />
+                )}
+                {selectedAnalysis.lyrics && selectedAnalysis.prosody && (
+                  <ProsodyLyrics prosody={selectedAnalysis.prosody} lyrics={selectedAnalysis.lyrics} />
+                )}
+                {selectedAnalysis.lyrics && (
+                  <LiteraryDevices songAnalysisId={selectedAnalysis.id} />
+                )}
+                {selectedAnalysis.lyricStats && (
+                  <LyricStatsPanel songAnalysisId={selectedAnalysis.id} />
+                )}
+                <SongQuiz key={selectedAnalysis.id} songAnalysisId={selectedAnalysis.id} />
+                <AnalysisFeedback analysis={selectedAnalysis} />
+                <SongRecommendations songAnalysisId={selectedAnalysis.id} />
                 
-                <div className="flex space-x-3 mt-6">
-                  <Button className="flex-1 bg-purple-500 hover:bg-purple-600" size="sm">
-                    <Share className="w-4 h-4 mr-2" />
-                    Share Analysis
-                  </Button>
-                </div>
+                <AnalysisShareActions analysis={selectedAnalysis} />
               </div>
             </CardContent>
           </Card>
         )}
 
+        {favorites.length > 0 && !localSearchQuery && <SongRecommendations />}
+
         {filteredFavorites.length > 0 ? (
           <>
-            <div className="mb-4">
+            <div className="mb-4 flex items-center justify-between">
               <h2 className="text-lg font-semibold text-white">
                 {filteredFavorites.length} Favorite{filteredFavorites.length !== 1 ? 's' : ''}
                 {localSearchQuery && ` (filtered from ${favorites.length})`}
               </h2>
+              <LessonPlanPicker picker={lessonPlanPicker} />
             </div>
             <div className="space-y-3">
               {filteredFavorites.map((favorite: Favorite & { songAnalysis: SongAnalysis }) => (
-                <Card key={favorite.id} className="cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors rounded-md" onClick={() => setSelectedAnalysis(favorite.songAnalysis)}>
+                <Card key={favorite.id} className="cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors rounded-md" onClick={() => lessonPlanPicker.isPicking ? lessonPlanPicker.toggle(favorite.songAnalysisId) : setSelectedAnalysis(favorite.songAnalysis)}>
                   <CardContent className="p-4 text-[#ffffff] bg-[#3b006e] pt-[10px] pb-[10px] pl-[14px] pr-[14px] mt-[-1px] mb-[-1px] ml-[-1px] mr-[-1px] rounded-md">
                     <div className="flex items-center space-x-3">
+                      {lessonPlanPicker.isPicking && (
+                        <Checkbox checked={lessonPlanPicker.isPicked(favorite.songAnalysisId)} aria-label={`Pick ${favorite.songAnalysis.title}`} />
+                      )}
                       <div className="w-12 h-12 bg-green-100 dark:bg-green-900/30 rounded-lg flex items-center justify-center">
                         <Music className="w-6 h-6 text-green-500" />
                       </div>
@@ -1,19 +1,36 @@
-import { useState, useRef } from "react";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useState, useRef, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { LoadingSpinner } from "@/components/ui/loading-spinner";
 import { EmptyState } from "@/components/ui/empty-state";
+import { Checkbox } from "@/components/ui/checkbox";
+import { AnalysisSections } from "@/components/AnalysisSections";
+import { AnalysisRevisions } from "@/components/AnalysisRevisions";
+import { MetadataVerification } from "@/components/MetadataVerification";
+import { AnnotatedLyrics } from "@/components/AnnotatedLyrics";
+import { ProsodyLyrics } from "@/components/ProsodyLyrics";
+import { EmotionalArcChart } from "@/components/EmotionalArcChart";
+import { LiteraryDevices } from "@/components/LiteraryDevices";
+import { LyricStatsPanel } from "@/components/LyricStatsPanel";
+import { AnalysisFeedback } from "@/components/AnalysisFeedback";
+import { SongQuiz } from "@/components/SongQuiz";
+import { AnalysisShareActions } from "@/components/AnalysisShareActions";
+import { SongRecommendations } from "@/components/SongRecommendations";
+import { LessonPlanPicker } from "@/components/LessonPlanPicker";
+import { SongChatPanel } from "@/components/SongChatPanel";
 import { useTheme } from "@/hooks/useTheme";
 import { useAuth } from "@/hooks/useAuth";
 import { useDataContext } from "@/contexts/DataContext";
+import { useLessonPlanPicker } from "@/hooks/useLessonPlanPicker";
 import { apiRequest } from "@/lib/queryClient";
-import { Music, ArrowLeft, Calendar, Search, Brain, Share, Heart, ArrowRight, X } from "lucide-react";
+import { Music, ArrowLeft, Calendar, Search, Brain, Heart, ArrowRight, X } from "lucide-react";
 import { format } from "date-fns";
 import { Link, useLocation } from "wouter";
 import type { SongAnalysis } from "@shared/schema";
+import { audienceLabels, depthLabels, personaLabels } from "@shared/analysis";
 
 export default function History() {
   const [searchQuery, setSearchQuery] = useState("");
@@ -26,15 +43,29 @@ export default function History() {
   const { user } = useAuth();
   const { isDarkMode, toggleTheme } = useTheme();
   const [, setLocation] = useLocation();
+  const lessonPlanPicker = useLessonPlanPicker();
 
   const { history, isLoading, favorites, refreshData, optimisticToggleFavorite } = useDataContext();
+
+  // Other pages link straight to one analysis with ?analysis=<id>
+  const linkedAnalysisId = new URLSearchParams(window.location.search).get("analysis");
+  const { data: linkedAnalysis } = useQuery<SongAnalysis>({
+    queryKey: [`/api/songs/${linkedAnalysisId}`],
+    enabled: !!linkedAnalysisId,
+  });
+
+  useEffect(() => {
+    if (linkedAnalysis) setSelectedAnalysis(linkedAnalysis);
+  }, [linkedAnalysis]);
   const isReallyLoading = isLoading && history.length === 0;
 
   // Filter history based on local search
   const filteredHistory = history.filter(analysis =>
     analysis.title.toLowerCase().includes(localSearchQuery.toLowerCase()) ||
     analysis.artist.toLowerCase().includes(localSearchQuery.toLowerCase()) ||
-    (analysis.genre && analysis.genre.toLowerCase().includes(localSearchQuery.toLowerCase()))
+    (analysis.genre && analysis.genre.toLowerCase().includes(localSearchQuery.toLowerCase())) ||
+    (analysis.mood && analysis.mood.toLowerCase().includes(localSearchQuery.toLowerCase())) ||
+    analysis.themes.some(theme => theme.toLowerCase().includes(localSearchQuery.toLowerCase()))
   );
 
   // Remove favorite mutation
@@ -222,7 +253,9 @@ export default function History() {
                     </div>
                     <div className="mb-1">
                       <span className="text-white/70 text-lg font-medium">Artist: </span>
-                      <span className="text-white/90 text-lg">{selectedAnalysis.artist}</span>
+                      <Link href={`/artists/${encodeURIComponent(selectedAnalysis.artist)}`}>
+                        <span className="text-white/90 text-lg hover:underline cursor-pointer">{selectedAnalysis.artist}</span>
+                      </Link>
                     </div>
                     <div className="mb-1">
                       <span className="text-white/70 text-lg font-medium">Genre: </span>
@@ -232,6 +265,7 @@ export default function History() {
                       <span className="text-white/70 text-lg font-medium">Released: </span>
                       <span className="text-white/80 text-lg">{selectedAnalysis.yearReleased || 'Unknown'}</span>
                     </div>
+                    <MetadataVerification metadata={selectedAnalysis.metadata} />
                   </div>
                   <div className="flex items-center space-x-1">
                     <Button
@@ -269,81 +303,66 @@ export default function History() {
                 <div className="flex items-center space-x-2 mb-4">
                   <Brain className="w-5 h-5 text-purple-500" />
                   <span className="text-sm font-semibold text-purple-500">AI Analysis</span>
+                  <Badge
+                    variant="secondary"
+                    className="ml-auto text-xs"
+                    title={selectedAnalysis.customPersona || undefined}
+                  >
+                    {personaLabels[selectedAnalysis.persona]}
+                  </Badge>
+                  {selectedAnalysis.audience !== "general" && (
+                    <Badge variant="secondary" className="text-xs">
+                      {audienceLabels[selectedAnalysis.audience]}
+                    </Badge>
+                  )}
                 </div>
-                <div className="text-gray-700 dark:text-gray-300 leading-relaxed text-justify">
-                  {selectedAnalysis.lyricsAnalysis.split('\n').map((paragraph, index) => {
-                    if (!paragraph.trim()) {
-                      return null;
-                    }
-
-                    // Skip metadata lines that should only appear in header
-                    if (paragraph.match(/^Genre:\s*/i) || paragraph.match(/^Release Year:\s*/i)) {
-                      return null;
-                    }
-
-                    // Handle markdown headers (### and ##)
-                    if (paragraph.startsWith('###') || paragraph.startsWith('##')) {
-                      const headerText = paragraph.replace(/^#{2,3}\s*/, '');
-                      return (
-                        <h3 key={index} className="text-lg font-bold text-purple-600 dark:text-purple-400 mb-3 mt-4">
-                          {headerText}
-                        </h3>
-                      );
-                    }
-
-                    if (paragraph.toLowerCase().includes('themes:') || paragraph.includes('**Themes:**')) {
-                      return (
-                        <p key={index} className="mb-3 last:mb-0">
-                          <span className="font-bold text-purple-600 dark:text-purple-400">Themes:</span>
-                        </p>
-                      );
-                    }
-                    
-                    if (paragraph.includes('**') && paragraph.includes(':')) {
-                      const cleanedParagraph = paragraph.replace(/\*\*/g, '');
-                      const parts = cleanedParagraph.split(':');
-                      if (parts.length > 1) {
-                        return (
-                          <p key={index} className="mb-3 last:mb-0">
-                            <span className="font-bold text-purple-600 dark:text-purple-400">{parts[0]}:</span>
-                            {parts.slice(1).join(':')}
-                          </p>
-                        );
-                      }
-                    }
-                    
-                    const cleanedParagraph = paragraph.replace(/\*\*/g, '');
-                    return (
-                      <p key={index} className="mb-3 last:mb-0">
-                        {cleanedParagraph}
-                      </p>
-                    );
-                  })}
-                </div>
+                <AnalysisRevisions analysis={selectedAnalysis} onSelect={setSelectedAnalysis} />
+                <AnalysisSections analysis={selectedAnalysis} />
+                {selectedAnalysis.lyrics && selectedAnalysis.emotionalArc && (
+                  <EmotionalArcChart arc={selectedAnalysis.emotionalArc} lyrics={selectedAnalysis.lyrics} />
+                )}
+                {selectedAnalysis.lyrics && (
+                  <AnnotatedLyrics songAnalysisId={selectedAnalysis.id} lyrics={selectedAnalysis.lyrics} />
+                )}
+                {selectedAnalysis.lyrics && selectedAnalysis.prosody && (
+                  <ProsodyLyrics prosody={selectedAnalysis.prosody} lyrics={selectedAnalysis.lyrics} />
+                )}
+                {selectedAnalysis.lyrics && (
+                  <LiteraryDevices songAnalysisId={selectedAnalysis.id} />
+                )}
+                {selectedAnalysis.lyricStats && (
+                  <LyricStatsPanel songAnalysisId={selectedAnalysis.id} />
+                )}
+                <SongQuiz key={selectedAnalysis.id} songAnalysisId={selectedAnalysis.id} />
+                <AnalysisFeedback analysis={selectedAnalysis} />
+                <SongRecommendations songAnalysisId={selectedAnalysis.id} />
                 
-                <div className="flex space-x-3 mt-6">
-                  <Button className="flex-1 bg-purple-500 hover:bg-purple-600" size="sm">
-                    <Share className="w-4 h-4 mr-2" />
-                    Share Analysis
-                  </Button>
-                </div>
+                <AnalysisShareActions analysis={selectedAnalysis} />
               </div>
             </CardContent>
           </Card>
         )}
 
+        {selectedAnalysis && (
+          <SongChatPanel key={selectedAnalysis.id} songAnalysisId={selectedAnalysis.id} />
+        )}
+
         {recentAnalyses && recentAnalyses.length > 0 ? (
           <>
-            <div className="mb-4">
+            <div className="mb-4 flex items-center justify-between">
               <h2 className="text-lg font-semibold text-white">
                 Last 10 Searches
               </h2>
+              <LessonPlanPicker picker={lessonPlanPicker} />
             </div>
             <div className="space-y-3">
               {recentAnalyses.map((analysis: SongAnalysis) => (
-                <Card key={analysis.id} className="cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors rounded-md" onClick={() => setSelectedAnalysis(analysis)}>
+                <Card key={analysis.id} className="cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors rounded-md" onClick={() => lessonPlanPicker.isPicking ? lessonPlanPicker.toggle(analysis.id) : setSelectedAnalysis(analysis)}>
                   <CardContent className="p-4 text-[#ffffff] bg-[#3b006e] pt-[10px] pb-[10px] pl-[14px] pr-[14px] mt-[-1px] mb-[-1px] ml-[-1px] mr-[-1px] rounded-md">
                     <div className="flex items-center space-x-3">
+                      {lessonPlanPicker.isPicking && (
+                        <Checkbox checked={lessonPlanPicker.isPicked(analysis.id)} aria-label={`Pick ${analysis.title}`} />
+                      )}
                       <div className="w-12 h-12 bg-green-100 dark:bg-green-900/30 rounded-lg flex items-center justify-center">
                         <Music className="w-6 h-6 text-green-500" />
                       </div>
@@ -359,6 +378,9 @@ export default function History() {
                             {analysis.genre} • {analysis.yearReleased}
                           </p>
                         )}
+                        <Badge variant="secondary" className="mt-1 text-xs">
+                          {depthLabels[analysis.depth]}
+                        </Badge>
                       </div>
                       <div className="flex items-center space-x-2">
                         <Button
@@ -2,24 +2,60 @@ import { useState, useRef, useEffect } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { LoadingSpinner } from "@/components/ui/loading-spinner";
 import { EmptyState } from "@/components/ui/empty-state";
+import { AnalysisSections } from "@/components/AnalysisSections";
+import { AnalysisRevisions } from "@/components/AnalysisRevisions";
+import { MetadataVerification } from "@/components/MetadataVerification";
+import { AnnotatedLyrics } from "@/components/AnnotatedLyrics";
+import { ProsodyLyrics } from "@/components/ProsodyLyrics";
+import { EmotionalArcChart } from "@/components/EmotionalArcChart";
+import { LiteraryDevices } from "@/components/LiteraryDevices";
+import { LyricStatsPanel } from "@/components/LyricStatsPanel";
+import { AnalysisFeedback } from "@/components/AnalysisFeedback";
+import { SongQuiz } from "@/components/SongQuiz";
+import { AnalysisShareActions } from "@/components/AnalysisShareActions";
+import { SongRecommendations } from "@/components/SongRecommendations";
+import { SongChatPanel } from "@/components/SongChatPanel";
 import { useThemeContext } from "@/components/ThemeProvider";
 import { useDataContext } from "@/contexts/DataContext";
 import { apiRequest } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/useAuth";
-import { Heart, Search, Music, Brain, Share, ArrowRight, History, X } from "lucide-react";
-import type { SongAnalysis } from "@shared/schema";
+import { useAnalysisStream } from "@/hooks/useAnalysisStream";
+import { Link } from "wouter";
+import { Heart, Search, Music, Brain, ArrowRight, History, X } from "lucide-react";
+import {
+  analysisAudiences,
+  analysisDepths,
+  analysisPersonas,
+  type AnalysisAudience,
+  type AnalysisDepth,
+  type AnalysisPersona,
+  type SongAnalysis,
+  type User,
+} from "@shared/schema";
+import { audienceLabels, depthLabels, personaLabels, type AnalysisStreamPhase } from "@shared/analysis";
+
+const streamPhaseLabels: Record<AnalysisStreamPhase, string> = {
+  lookup: "Looking up song...",
+  metadata: "Gathering song details...",
+  analysis: "Writing analysis...",
+};
 
 export default function Home() {
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedAnalysis, setSelectedAnalysis] = useState<SongAnalysis | null>(null);
-  const [highlightedSection, setHighlightedSection] = useState<string | null>(null);
-  const [animatedParagraphs, setAnimatedParagraphs] = useState<Set<number>>(new Set());
+  const [depth, setDepth] = useState<AnalysisDepth>("standard");
+  const [persona, setPersona] = useState<AnalysisPersona | null>(null);
+  const [audience, setAudience] = useState<AnalysisAudience>("general");
   const searchInputRef = useRef<HTMLInputElement>(null);
   const { user } = useAuth();
+  const preferences = (user as User | undefined)?.preferences;
+  // Searches use the profile's default voice until another one is picked
+  const selectedPersona = persona ?? preferences?.persona ?? "critic";
   const { isDarkMode, toggleTheme } = useThemeContext();
   const queryClient = useQueryClient();
   const { favorites, refreshData, optimisticToggleFavorite } = useDataContext();
@@ -29,29 +65,12 @@ export default function Home() {
     return favorites.some(fav => fav.songAnalysisId === songId);
   };
 
-  // Search mutation
-  const searchMutation = useMutation({
-    mutationFn: async (query: string) => {
-      const res = await apiRequest("POST", "/api/songs/search", { query });
-      return res.json();
-    },
-    onSuccess: (data) => {
-      setSelectedAnalysis(data);
-      setAnimatedParagraphs(new Set());
-      // Invalidate queries to refresh data
-      queryClient.invalidateQueries({ queryKey: ["/api/songs/history"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/search/history"] });
-      
-      // Trigger staggered animation for analysis paragraphs
-      setTimeout(() => {
-        const totalParagraphs = data.lyricsAnalysis.split('\n').filter((paragraph: string) => paragraph.trim()).length;
-        for (let i = 0; i < totalParagraphs; i++) {
-          setTimeout(() => {
-            setAnimatedParagraphs(prev => new Set(Array.from(prev).concat([i])));
-          }, i * 150);
-        }
-      }, 500);
-    },
+  // Streaming search: sections render as the analysis is generated
+  const analysisStream = useAnalysisStream((data) => {
+    setSelectedAnalysis(data);
+    // Invalidate queries to refresh data
+    queryClient.invalidateQueries({ queryKey: ["/api/songs/history"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/search/history"] });
   });
 
   // Recent analyses
@@ -109,7 +128,8 @@ export default function Home() {
       searchInputRef.current?.focus();
       return;
     }
-    searchMutation.mutate(searchQuery.trim());
+    setSelectedAnalysis(null);
+    analysisStream.start(searchQuery.trim(), { depth, persona: selectedPersona, audience });
   };
 
   const handleKeyPress = (e: React.KeyboardEvent) => {
@@ -120,7 +140,8 @@ export default function Home() {
 
   const handleSuggestionClick = (suggestion: string) => {
     setSearchQuery(suggestion);
-    searchMutation.mutate(suggestion);
+    setSelectedAnalysis(null);
+    analysisStream.start(suggestion, { depth, persona: selectedPersona, audience });
   };
 
   const popularSuggestions = [
@@ -163,6 +184,18 @@ export default function Home() {
               onClick={() => window.location.href = '/history'}
               className="text-purple-400 hover:text-purple-300"
             >Search History</Button>
+            <Button 
+              variant="ghost" 
+              size="sm" 
+              onClick={() => window.location.href = '/compare'}
+              className="text-purple-400 hover:text-purple-300"
+            >Compare</Button>
+            <Button 
+              variant="ghost" 
+              size="sm" 
+              onClick={() => window.location.href = '/albums'}
+              className="text-purple-400 hover:text-purple-300"
+            >Albums</Button>
             <Button variant="ghost" size="sm" onClick={toggleTheme}>
               {isDarkMode ? "☀️" : "🌙"}
             </Button>
@@ -196,15 +229,15 @@ export default function Home() {
               onChange={(e) => setSearchQuery(e.target.value)}
               onKeyPress={handleKeyPress}
               className="py-4 text-lg dark:bg-gray-800 border-gray-200 dark:border-gray-700 rounded-2xl focus:ring-2 focus:ring-purple-500 focus:border-transparent bg-[#27417d] pt-[18px] pb-[18px] pl-[40.25px] pr-[40.25px] mt-[2px] mb-[2px]"
-              disabled={searchMutation.isPending}
+              disabled={analysisStream.isStreaming}
             />
             <Button
               onClick={handleSearch}
-              disabled={searchMutation.isPending || !searchQuery.trim()}
+              disabled={analysisStream.isStreaming || !searchQuery.trim()}
               size="sm"
               className="absolute right-2 top-1/2 transform -translate-y-1/2 bg-purple-500 hover:bg-purple-600 rounded-xl"
             >
-              {searchMutation.isPending ? (
+              {analysisStream.isStreaming ? (
                 <LoadingSpinner size="sm" className="text-white" />
               ) : (
                 <ArrowRight className="w-4 h-4" />
@@ -212,9 +245,122 @@ export default function Home() {
             </Button>
           </div>
 
+          {/* Analysis Depth */}
+          <div className="flex justify-center space-x-2">
+            {analysisDepths.map((mode) => (
+              <Button
+                key={mode}
+                variant="ghost"
+                size="sm"
+                onClick={() => setDepth(mode)}
+                disabled={analysisStream.isStreaming}
+                className={`rounded-full ${
+                  depth === mode
+                    ? 'bg-purple-500 text-white hover:bg-purple-600'
+                    : 'text-[#ccd3e0] hover:bg-white/10'
+                }`}
+              >
+                {depthLabels[mode]}
+              </Button>
+            ))}
+          </div>
 
+          {/* Analysis Persona and Audience */}
+          <div className="flex justify-center items-center space-x-2 mt-2">
+            <Select
+              value={selectedPersona}
+              onValueChange={(value) => setPersona(value as AnalysisPersona)}
+              disabled={analysisStream.isStreaming}
+            >
+              <SelectTrigger
+                aria-label="Voice"
+                className="w-44 h-8 rounded-full border-white/20 bg-transparent text-[#ccd3e0]"
+              >
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {analysisPersonas.map((option) => (
+                  <SelectItem
+                    key={option}
+                    value={option}
+                    disabled={option === "custom" && !preferences?.customPersona}
+                  >
+                    {personaLabels[option]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={audience}
+              onValueChange={(value) => setAudience(value as AnalysisAudience)}
+              disabled={analysisStream.isStreaming}
+            >
+              <SelectTrigger
+                aria-label="Audience"
+                className="w-36 h-8 rounded-full border-white/20 bg-transparent text-[#ccd3e0]"
+              >
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {analysisAudiences.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {audienceLabels[option]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
         </div>
 
+        {/* Streaming Analysis */}
+        {analysisStream.isStreaming && (
+          <Card className="mb-6 overflow-hidden border-purple-200 dark:border-purple-800">
+            <CardContent className="p-0">
+              <div className="bg-gradient-to-r from-purple-500 to-purple-600 p-6 text-white">
+                <div className="flex items-start space-x-3">
+                  <div className="w-14 h-14 bg-white/20 rounded-xl flex items-center justify-center">
+                    <Music className="w-6 h-6" />
+                  </div>
+                  <div className="flex-1">
+                    {analysisStream.song ? (
+                      <>
+                        <div className="mb-1">
+                          <span className="text-white/70 text-lg font-medium">Title: </span>
+                          <span className="text-white text-lg font-bold">{analysisStream.song.title}</span>
+                        </div>
+                        <div className="mb-1">
+                          <span className="text-white/70 text-lg font-medium">Artist: </span>
+                          <span className="text-white/90 text-lg">{analysisStream.song.artist}</span>
+                        </div>
+                      </>
+                    ) : (
+                      <span className="text-white text-lg font-bold">{searchQuery}</span>
+                    )}
+                    <div className="flex items-center space-x-2 mt-2 text-white/80 text-sm">
+                      <LoadingSpinner size="sm" className="text-white" />
+                      <span>{streamPhaseLabels[analysisStream.phase!]}</span>
+                    </div>
+                  </div>
+                </div>
+              </div>
+
+              {analysisStream.partialAnalysis.sections.length > 0 && (
+                <div className="p-6">
+                  <div className="flex items-center space-x-2 mb-4">
+                    <Brain className="w-5 h-5 text-purple-500" />
+                    <span className="text-sm font-semibold text-purple-500">AI Analysis</span>
+                  </div>
+                  <AnalysisSections analysis={{ ...analysisStream.partialAnalysis, lyricsAnalysis: "" }} />
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {analysisStream.error && !analysisStream.isStreaming && (
+          <p className="mb-6 text-center text-red-200">{analysisStream.error}</p>
+        )}
+
         {/* Search Results */}
         {selectedAnalysis && (
           <Card className="mb-6 overflow-hidden border-purple-200 dark:border-purple-800">
@@ -232,7 +378,9 @@ export default function Home() {
                     </div>
                     <div className="mb-1">
                       <span className="text-white/70 text-lg font-medium">Artist: </span>
-                      <span className="text-white/90 text-lg">{selectedAnalysis.artist}</span>
+                      <Link href={`/artists/${encodeURIComponent(selectedAnalysis.artist)}`}>
+                        <span className="text-white/90 text-lg hover:underline cursor-pointer">{selectedAnalysis.artist}</span>
+                      </Link>
                     </div>
                     <div className="mb-1">
                       <span className="text-white/70 text-lg font-medium">Genre: </span>
@@ -242,6 +390,7 @@ export default function Home() {
                       <span className="text-white/70 text-lg font-medium">Released: </span>
                       <span className="text-white/80 text-lg">{selectedAnalysis.yearReleased || 'Unknown'}</span>
                     </div>
+                    <MetadataVerification metadata={selectedAnalysis.metadata} />
                   </div>
                   <div className="flex items-center space-x-1">
                     <Button
@@ -279,133 +428,50 @@ export default function Home() {
                 <div className="flex items-center space-x-2 mb-4">
                   <Brain className="w-5 h-5 text-purple-500" />
                   <span className="text-sm font-semibold text-purple-500">AI Analysis</span>
+                  <Badge
+                    variant="secondary"
+                    className="ml-auto text-xs"
+                    title={selectedAnalysis.customPersona || undefined}
+                  >
+                    {personaLabels[selectedAnalysis.persona]}
+                  </Badge>
+                  {selectedAnalysis.audience !== "general" && (
+                    <Badge variant="secondary" className="text-xs">
+                      {audienceLabels[selectedAnalysis.audience]}
+                    </Badge>
+                  )}
                 </div>
-                <div className="text-gray-700 dark:text-gray-300 leading-relaxed text-justify">
-                  {selectedAnalysis.lyricsAnalysis.split('\n').map((paragraph, index) => {
-                    // Skip empty lines
-                    if (!paragraph.trim()) {
-                      return null;
-                    }
-
-                    // Skip metadata lines that should only appear in header
-                    if (paragraph.match(/^Genre:\s*/i) || paragraph.match(/^Release Year:\s*/i)) {
-                      return null;
-                    }
-
-                    const isAnimated = animatedParagraphs.has(index);
-                    const isHighlighted = highlightedSection === paragraph;
-
-                    // Handle markdown headers (### and ##)
-                    if (paragraph.startsWith('###') || paragraph.startsWith('##')) {
-                      const headerText = paragraph.replace(/^#{2,3}\s*/, '');
-                      return (
-                        <div
-                          key={index}
-                          className={`mb-3 mt-4 transition-all duration-500 transform cursor-pointer hover:scale-105 opacity-100 translate-y-0 ${
-                            isHighlighted ? 'bg-purple-100 dark:bg-purple-900/30 rounded-lg p-2 shadow-lg' : ''
-                          }`}
-                          onClick={() => setHighlightedSection(isHighlighted ? null : paragraph)}
-                          onMouseEnter={() => setHighlightedSection(paragraph)}
-                          onMouseLeave={() => setHighlightedSection(null)}
-                        >
-                          <h3 className="text-lg font-bold text-purple-600 dark:text-purple-400 relative">
-                            {headerText}
-                            {isHighlighted && (
-                              <span className="absolute -bottom-1 left-0 w-full h-0.5 bg-purple-500 animate-pulse"></span>
-                            )}
-                          </h3>
-                        </div>
-                      );
-                    }
-
-                    // Make "Themes" bold and remove asterisks
-                    if (paragraph.toLowerCase().includes('themes:') || paragraph.includes('**Themes:**')) {
-                      return (
-                        <div
-                          key={index}
-                          className={`mb-3 last:mb-0 transition-all duration-500 transform cursor-pointer hover:scale-105 opacity-100 translate-y-0 ${
-                            isHighlighted ? 'bg-purple-100 dark:bg-purple-900/30 rounded-lg p-2 shadow-lg' : ''
-                          }`}
-                          onClick={() => setHighlightedSection(isHighlighted ? null : paragraph)}
-                          onMouseEnter={() => setHighlightedSection(paragraph)}
-                          onMouseLeave={() => setHighlightedSection(null)}
-                        >
-                          <p className="relative">
-                            <span className="font-bold text-purple-600 dark:text-purple-400 relative">
-                              Themes:
-                              {isHighlighted && (
-                                <span className="absolute -bottom-1 left-0 w-full h-0.5 bg-purple-500 animate-pulse"></span>
-                              )}
-                            </span>
-                          </p>
-                        </div>
-                      );
-                    }
-                    
-                    // Check for other bold sections and make them purple
-                    if (paragraph.includes('**') && paragraph.includes(':')) {
-                      const cleanedParagraph = paragraph.replace(/\*\*/g, '');
-                      const parts = cleanedParagraph.split(':');
-                      if (parts.length > 1) {
-                        return (
-                          <div
-                            key={index}
-                            className={`mb-3 last:mb-0 transition-all duration-500 transform cursor-pointer hover:scale-105 opacity-100 translate-y-0 ${
-                              isHighlighted ? 'bg-purple-100 dark:bg-purple-900/30 rounded-lg p-2 shadow-lg' : ''
-                            }`}
-                            onClick={() => setHighlightedSection(isHighlighted ? null : paragraph)}
-                            onMouseEnter={() => setHighlightedSection(paragraph)}
-                            onMouseLeave={() => setHighlightedSection(null)}
-                          >
-                            <p className="relative">
-                              <span className="font-bold text-purple-600 dark:text-purple-400 relative">
-                                {parts[0]}:
-                                {isHighlighted && (
-                                  <span className="absolute -bottom-1 left-0 w-full h-0.5 bg-purple-500 animate-pulse"></span>
-                                )}
-                              </span>
-                              {parts.slice(1).join(':')}
-                            </p>
-                          </div>
-                        );
-                      }
-                    }
-                    
-                    // Remove asterisks from all other lines
-                    const cleanedParagraph = paragraph.replace(/\*\*/g, '');
-                    
-                    return (
-                      <div
-                        key={index}
-                        className={`mb-3 last:mb-0 transition-all duration-500 transform cursor-pointer hover:scale-105 opacity-100 translate-y-0 ${
-                          isHighlighted ? 'bg-purple-100 dark:bg-purple-900/30 rounded-lg p-3 shadow-lg border-l-4 border-purple-500' : ''
-                        }`}
-                        onClick={() => setHighlightedSection(isHighlighted ? null : paragraph)}
-                        onMouseEnter={() => setHighlightedSection(paragraph)}
-                        onMouseLeave={() => setHighlightedSection(null)}
-                      >
-                        <p className="relative">
-                          {cleanedParagraph}
-                          {isHighlighted && (
-                            <span className="absolute -bottom-1 left-0 w-full h-0.5 bg-gradient-to-r from-purple-500 to-transparent animate-pulse"></span>
-                          )}
-                        </p>
-                      </div>
-                    );
-                  })}
-                </div>
+                <AnalysisRevisions analysis={selectedAnalysis} onSelect={setSelectedAnalysis} />
+                <AnalysisSections analysis={selectedAnalysis} interactive />
+                {selectedAnalysis.lyrics && selectedAnalysis.emotionalArc && (
+                  <EmotionalArcChart arc={selectedAnalysis.emotionalArc} lyrics={selectedAnalysis.lyrics} />
+                )}
+                {selectedAnalysis.lyrics && (
+                  <AnnotatedLyrics songAnalysisId={selectedAnalysis.id} lyrics={selectedAnalysis.lyrics} />
+                )}
+                {selectedAnalysis.lyrics && selectedAnalysis.prosody && (
+                  <ProsodyLyrics prosody={selectedAnalysis.prosody} lyrics={selectedAnalysis.lyrics} />
+                )}
+                {selectedAnalysis.lyrics && (
+                  <LiteraryDevices songAnalysisId={selectedAnalysis.id} />
+                )}
+                {selectedAnalysis.lyricStats && (
+                  <LyricStatsPanel songAnalysisId={selectedAnalysis.id} />
+                )}
+                <SongQuiz key={selectedAnalysis.id} songAnalysisId={selectedAnalysis.id} />
+                <AnalysisFeedback analysis={selectedAnalysis} />
+                <SongRecommendations songAnalysisId={selectedAnalysis.id} />
                 
-                <div className="flex space-x-3 mt-6">
-                  <Button className="flex-1 bg-purple-500 hover:bg-purple-600" size="sm">
-                    <Share className="w-4 h-4 mr-2" />
-                    Share Analysis
-                  </Button>
-                </div>
+                <AnalysisShareActions analysis={selectedAnalysis} />
               </div>
             </CardContent>
           </Card>
         )}
 
+        {selectedAnalysis && (
+          <SongChatPanel key={selectedAnalysis.id} songAnalysisId={selectedAnalysis.id} />
+        )}
+
         {/* Recent Searches */}
         <div>
           <div className="flex items-center justify-between mb-4">
@@ -440,6 +506,9 @@ export default function Home() {
                           {analysis.artist}
                         </p>
                       </div>
+                      <Badge variant="secondary" className="text-xs">
+                        {depthLabels[analysis.depth]}
+                      </Badge>
                       <Button
                         variant="ghost"
                         size="sm"
@@ -0,0 +1,324 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { LoadingSpinner } from "@/components/ui/loading-spinner";
+import { EmptyState } from "@/components/ui/empty-state";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useTheme } from "@/hooks/useTheme";
+import { useDataContext } from "@/contexts/DataContext";
+import { apiRequest, describeRequestError } from "@/lib/queryClient";
+import { Music, Heart, GraduationCap, ArrowRight, Clock, Download, History } from "lucide-react";
+import { format } from "date-fns";
+import { Link, useLocation, useParams } from "wouter";
+import { analysisAudiences, type AnalysisAudience, type LessonPlan, type LessonPlanWithSongs } from "@shared/schema";
+import { audienceLabels } from "@shared/analysis";
+
+const sessionLengths = [30, 45, 60, 90];
+
+const exportFormats = [
+  { format: "markdown", label: "Markdown" },
+  { format: "html", label: "Word" },
+  { format: "pdf", label: "PDF" },
+];
+
+export default function LessonPlans() {
+  const { id } = useParams<{ id?: string }>();
+  const [, setLocation] = useLocation();
+  const [durationMinutes, setDurationMinutes] = useState(45);
+  const [audience, setAudience] = useState<AnalysisAudience>("high-school");
+  const { isDarkMode, toggleTheme } = useTheme();
+  const { history, favorites } = useDataContext();
+  const queryClient = useQueryClient();
+
+  // History and favorites link here with ?songs=<id>,<id> to start a plan
+  const songIds = (new URLSearchParams(window.location.search).get("songs") || "")
+    .split(",")
+    .map((value) => parseInt(value))
+    .filter((value) => Number.isInteger(value) && value > 0);
+  const isCreating = !id && songIds.length > 0;
+
+  const knownSongs = [...history, ...favorites.map((favorite) => favorite.songAnalysis)];
+  const pickedSongs = songIds.map((songId) => ({
+    id: songId,
+    analysis: knownSongs.find((song) => song.id === songId),
+  }));
+
+  const { data: plans = [], isLoading } = useQuery<LessonPlan[]>({
+    queryKey: ["/api/lesson-plans"],
+    enabled: !id && !isCreating,
+  });
+
+  const { data: plan, isLoading: isLoadingPlan } = useQuery<LessonPlanWithSongs>({
+    queryKey: [`/api/lesson-plans/${id}`],
+    enabled: !!id,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/lesson-plans", {
+        songAnalysisIds: songIds,
+        durationMinutes,
+        audience,
+      });
+      return res.json();
+    },
+    onSuccess: (data: LessonPlanWithSongs) => {
+      queryClient.setQueryData([`/api/lesson-plans/${data.id}`], data);
+      queryClient.invalidateQueries({ queryKey: ["/api/lesson-plans"] });
+      setLocation(`/lesson-plans/${data.id}`);
+    },
+  });
+
+  const plannedMinutes = plan?.activities.reduce((total, activity) => total + activity.minutes, 0) ?? 0;
+
+  return (
+    <div className="min-h-screen bg-[#6606ba] text-[#d3d3e3]">
+      {/* Header */}
+      <header className="bg-gray-900 shadow-sm p-4 sticky top-0 z-30 border-b border-gray-800">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <div className="w-8 h-8 bg-purple-500 rounded-full flex items-center justify-center">
+              <Music className="w-4 h-4 text-white" />
+            </div>
+            <div>
+              <h1 className="text-lg font-semibold text-white">Lyric Sensei</h1>
+              <p className="text-xs text-gray-400">Lesson plans from your songs</p>
+            </div>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Link href="/">
+              <Button variant="ghost" size="sm" className="text-purple-400 hover:text-purple-300">
+                <Music className="w-4 h-4 mr-1" />
+                Home
+              </Button>
+            </Link>
+            <Link href="/favorites">
+              <Button variant="ghost" size="sm" className="text-purple-400 hover:text-purple-300">
+                <Heart className="w-4 h-4 mr-1" />
+                Favorites
+              </Button>
+            </Link>
+            <Button variant="ghost" size="sm" onClick={toggleTheme}>
+              {isDarkMode ? "☀️" : "🌙"}
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <div className="max-w-md mx-auto p-4">
+        {isCreating ? (
+          <>
+            {/* New Lesson Plan */}
+            <h2 className="text-lg font-semibold text-white mb-4">New Lesson Plan</h2>
+            <div className="space-y-2 mb-4">
+              {pickedSongs.map(({ id: songId, analysis }) => (
+                <Card key={songId} className="rounded-md">
+                  <CardContent className="p-4 text-[#ffffff] bg-[#3b006e] pt-[10px] pb-[10px] pl-[14px] pr-[14px] mt-[-1px] mb-[-1px] ml-[-1px] mr-[-1px] rounded-md">
+                    <h4 className="font-medium text-[#ffffff]">{analysis?.title ?? `Song #${songId}`}</h4>
+                    {analysis && <p className="text-sm text-[#beccde]">{analysis.artist}</p>}
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+
+            <div className="flex gap-2 mb-4">
+              <Select value={String(durationMinutes)} onValueChange={(value) => setDurationMinutes(parseInt(value))}>
+                <SelectTrigger className="flex-1" aria-label="Session length">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {sessionLengths.map((minutes) => (
+                    <SelectItem key={minutes} value={String(minutes)}>
+                      {minutes} minutes
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={audience} onValueChange={(value) => setAudience(value as AnalysisAudience)}>
+                <SelectTrigger className="flex-1" aria-label="Class">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {analysisAudiences.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {audienceLabels[option]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <Button
+              className="w-full bg-purple-500 hover:bg-purple-600"
+              onClick={() => createMutation.mutate()}
+              disabled={createMutation.isPending}
+            >
+              {createMutation.isPending ? (
+                <LoadingSpinner size="sm" className="text-white mr-2" />
+              ) : (
+                <GraduationCap className="w-4 h-4 mr-2" />
+              )}
+              Write Lesson Plan
+            </Button>
+
+            {createMutation.isError && (
+              <p className="text-center text-red-200 mt-3">
+                {describeRequestError(createMutation.error, "Couldn't write the lesson plan. Please try again.")}
+              </p>
+            )}
+          </>
+        ) : id ? (
+          isLoadingPlan ? (
+            <div className="flex justify-center py-8">
+              <LoadingSpinner />
+            </div>
+          ) : !plan ? (
+            <EmptyState
+              icon={<GraduationCap className="w-12 h-12 text-purple-400" />}
+              title="Lesson Plan Not Found"
+              description="This lesson plan doesn't exist or isn't yours"
+            />
+          ) : (
+            /* Lesson Plan Detail */
+            <Card className="mb-6 overflow-hidden border-purple-200 dark:border-purple-800">
+              <CardContent className="p-0">
+                <div className="bg-gradient-to-r from-purple-500 to-purple-600 p-6 text-white">
+                  <h2 className="text-2xl font-bold">{plan.title}</h2>
+                  <div className="flex flex-wrap gap-2 mt-2">
+                    <Badge className="bg-white/20 text-white hover:bg-white/20">
+                      <Clock className="w-3 h-3 mr-1" />
+                      {plan.durationMinutes} min
+                    </Badge>
+                    <Badge className="bg-white/20 text-white hover:bg-white/20">{audienceLabels[plan.audience]}</Badge>
+                  </div>
+                </div>
+
+                <div className="p-6 space-y-6 text-gray-700 dark:text-gray-300">
+                  <p className="leading-relaxed">{plan.overview}</p>
+
+                  <div>
+                    <h3 className="text-sm font-semibold text-purple-500 mb-2">{plan.songs.length === 1 ? "Song" : "Songs"}</h3>
+                    <ul className="space-y-1 text-sm">
+                      {plan.songs.map((song) => (
+                        <li key={song.id}>
+                          <Link href={`/history?analysis=${song.id}`}>
+                            <span className="font-medium hover:underline cursor-pointer">{song.title}</span>
+                          </Link>{" "}
+                          by {song.artist}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+
+                  {plan.objectives.length > 0 && (
+                    <div>
+                      <h3 className="text-sm font-semibold text-purple-500 mb-2">Objectives</h3>
+                      <ul className="list-disc pl-5 space-y-1 text-sm">
+                        {plan.objectives.map((objective, index) => (
+                          <li key={index}>{objective}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
+                  {plan.activities.length > 0 && (
+                    <div>
+                      <div className="flex items-center justify-between mb-2">
+                        <h3 className="text-sm font-semibold text-purple-500">Activities</h3>
+                        <span className="text-xs text-gray-500 dark:text-gray-400">{plannedMinutes} min planned</span>
+                      </div>
+                      <div className="space-y-3">
+                        {plan.activities.map((activity, index) => (
+                          <div key={index} className="text-sm">
+                            <div className="flex items-center justify-between">
+                              <span className="font-medium text-gray-900 dark:text-white">{activity.title}</span>
+                              <Badge variant="secondary">{activity.minutes} min</Badge>
+                            </div>
+                            <p className="mt-1">{activity.description}</p>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {plan.discussionPrompts.length > 0 && (
+                    <div>
+                      <h3 className="text-sm font-semibold text-purple-500 mb-2">Discussion Prompts</h3>
+                      <ol className="list-decimal pl-5 space-y-1 text-sm">
+                        {plan.discussionPrompts.map((prompt, index) => (
+                          <li key={index}>{prompt}</li>
+                        ))}
+                      </ol>
+                    </div>
+                  )}
+
+                  <div className="flex space-x-2">
+                    {exportFormats.map(({ format: exportFormat, label }) => (
+                      <a key={exportFormat} href={`/api/lesson-plans/${plan.id}/export?format=${exportFormat}`} download className="flex-1">
+                        <Button variant="outline" size="sm" className="w-full">
+                          <Download className="w-4 h-4 mr-2" />
+                          {label}
+                        </Button>
+                      </a>
+                    ))}
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          )
+        ) : isLoading ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner />
+          </div>
+        ) : plans.length > 0 ? (
+          <>
+            {/* Saved Lesson Plans */}
+            <h2 className="text-lg font-semibold text-white mb-4">Your Lesson Plans</h2>
+            <div className="space-y-3">
+              {plans.map((saved) => (
+                <Link key={saved.id} href={`/lesson-plans/${saved.id}`}>
+                  <Card className="cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors rounded-md">
+                    <CardContent className="p-4 text-[#ffffff] bg-[#3b006e] pt-[10px] pb-[10px] pl-[14px] pr-[14px] mt-[-1px] mb-[-1px] ml-[-1px] mr-[-1px] rounded-md">
+                      <div className="flex items-center space-x-3">
+                        <div className="w-12 h-12 bg-green-100 dark:bg-green-900/30 rounded-lg flex items-center justify-center">
+                          <GraduationCap className="w-6 h-6 text-green-500" />
+                        </div>
+                        <div className="flex-1">
+                          <h4 className="font-medium text-[#ffffff]">{saved.title}</h4>
+                          <p className="text-sm text-[#beccde]">
+                            {saved.songAnalysisIds.length} {saved.songAnalysisIds.length === 1 ? "song" : "songs"} ·{" "}
+                            {saved.durationMinutes} min · {audienceLabels[saved.audience]}
+                          </p>
+                        </div>
+                        <span className="text-xs text-[#beccde]">
+                          {saved.createdAt ? format(new Date(saved.createdAt), "dd MMM") : ""}
+                        </span>
+                        <ArrowRight className="w-4 h-4 text-gray-400" />
+                      </div>
+                    </CardContent>
+                  </Card>
+                </Link>
+              ))}
+            </div>
+          </>
+        ) : (
+          <EmptyState
+            icon={<GraduationCap className="w-12 h-12 text-purple-400" />}
+            title="No Lesson Plans Yet"
+            description="Pick songs from your history or favorites to build a lesson around them"
+            action={
+              <Link href="/history">
+                <Button className="bg-purple-500 hover:bg-purple-600">
+                  <History className="w-4 h-4 mr-2" />
+                  Go to History
+                </Button>
+              </Link>
+            }
+          />
+        )}
+      </div>
+    </div>
+  );
+}
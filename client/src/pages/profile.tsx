@@ -3,11 +3,14 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { LoadingSpinner } from "@/components/ui/loading-spinner";
+import { PersonaPreferences } from "@/components/PersonaPreferences";
 import { useAuth } from "@/hooks/useAuth";
 import { useThemeContext } from "@/components/ThemeProvider";
 import { apiRequest } from "@/lib/queryClient";
-import { User, Heart, BarChart3, History, Settings, HelpCircle, LogOut, ArrowLeft } from "lucide-react";
-import type { SongAnalysis } from "@shared/schema";
+import { User, Heart, BarChart3, History, Settings, HelpCircle, LogOut, ArrowLeft, Activity } from "lucide-react";
+import type { SongAnalysis, UsageSummary } from "@shared/schema";
+
+const formatCost = (cost: number) => `$${cost < 0.01 && cost > 0 ? cost.toFixed(4) : cost.toFixed(2)}`;
 
 export default function Profile() {
   const { user } = useAuth();
@@ -27,6 +30,10 @@ export default function Profile() {
     queryKey: ["/api/search/history"],
   });
 
+  const { data: usage } = useQuery<UsageSummary>({
+    queryKey: ["/api/usage"],
+  });
+
   // Clear search history mutation
   const clearHistoryMutation = useMutation({
     mutationFn: async () => {
@@ -109,6 +116,51 @@ export default function Profile() {
           </Card>
         </div>
 
+        {/* AI Usage */}
+        {usage && (
+          <Card className="mb-6">
+            <CardContent className="p-4">
+              <div className="flex items-center space-x-2 mb-4">
+                <Activity className="w-5 h-5 text-purple-500" />
+                <span className="text-gray-900 dark:text-white font-medium">AI Usage</span>
+                <span className="text-xs text-gray-500 dark:text-gray-400">Last 30 days</span>
+              </div>
+              <div className="grid grid-cols-3 gap-2 text-center mb-4">
+                <div>
+                  <p className="text-purple-500 font-semibold text-lg">{usage.totals.calls}</p>
+                  <p className="text-xs text-gray-600 dark:text-gray-400">Requests</p>
+                </div>
+                <div>
+                  <p className="text-purple-500 font-semibold text-lg">
+                    {(usage.totals.promptTokens + usage.totals.completionTokens).toLocaleString()}
+                  </p>
+                  <p className="text-xs text-gray-600 dark:text-gray-400">Tokens</p>
+                </div>
+                <div>
+                  <p className="text-purple-500 font-semibold text-lg">{formatCost(usage.totals.estimatedCost)}</p>
+                  <p className="text-xs text-gray-600 dark:text-gray-400">Est. Cost</p>
+                </div>
+              </div>
+              {usage.byTask.length > 0 && (
+                <div className="space-y-2 border-t border-gray-200 dark:border-gray-700 pt-3">
+                  {usage.byTask.map((task) => (
+                    <div key={task.task} className="flex items-center justify-between text-sm">
+                      <span className="text-gray-700 dark:text-gray-300">{task.task}</span>
+                      <span className="text-gray-500 dark:text-gray-400">
+                        {task.calls}
+                        {task.failures > 0 && ` (${task.failures} failed)`} · {(task.promptTokens + task.completionTokens).toLocaleString()} tokens · {formatCost(task.estimatedCost)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Analysis Voice */}
+        <PersonaPreferences />
+
         {/* Settings */}
         <Card className="mb-6">
           <CardContent className="p-0">
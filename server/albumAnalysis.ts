@@ -0,0 +1,113 @@
+import { storage } from "./storage";
+import { getAlbumTracklist, type AlbumInfo } from "./lyricsApi";
+import { analyzeAlbumNarrative } from "./openai";
+import { canonicalAlbumKey } from "./analysisCache";
+import { getPromptTemplate, isActivePrompt } from "./prompts";
+import { analyzeSong, type SongAnalysisOptions } from "./songAnalysis";
+import type { AlbumAnalysis, AlbumAnalysisWithTracks, SongAnalysis } from "@shared/schema";
+
+// Longest tracklist analyzed; deluxe editions and box sets are cut short
+const MAX_ALBUM_TRACKS = 25;
+
+export type AlbumTrackStatus = "analyzing" | "done" | "failed";
+
+export interface AlbumProgress {
+  onAlbum?: (album: AlbumInfo) => void;
+  onTrack?: (position: number, status: AlbumTrackStatus) => void;
+  onNarrative?: () => void;
+  // Aborted when the client goes away, so no more tracks are analyzed
+  signal?: AbortSignal;
+}
+
+export async function withAlbumTracks(album: AlbumAnalysis): Promise<AlbumAnalysisWithTracks> {
+  return { ...album, tracks: await storage.getAlbumTracks(album.id) };
+}
+
+// Resolve an album's tracklist, analyze each track (served from the analysis
+// cache when another search already produced it), then write the album-wide
+// narrative. Returns null when the album can't be found, or when the
+// progress signal is aborted before the album is done.
+export async function analyzeAlbum(
+  query: string,
+  userId: string,
+  { depth = "standard", persona = "critic", customPersona = null, audience = "general" }: SongAnalysisOptions = {},
+  progress: AlbumProgress = {}
+): Promise<AlbumAnalysisWithTracks | null> {
+  const album = await getAlbumTracklist(query);
+
+  if (!album) {
+    return null;
+  }
+
+  album.tracks = album.tracks.slice(0, MAX_ALBUM_TRACKS);
+  const albumKey = canonicalAlbumKey(album.title, album.artist) ?? `mbid::${album.musicBrainzId}`;
+
+  const voice = { depth, persona, customPersona: persona === "custom" ? customPersona : null, audience };
+  const existing = await storage.findUserAlbumAnalysis(userId, albumKey, voice);
+  if (existing && isActivePrompt(existing.promptId, existing.promptVersion)) {
+    return await withAlbumTracks(existing);
+  }
+
+  progress.onAlbum?.(album);
+
+  // Tracks are analyzed one at a time to stay inside provider rate limits. A
+  // failed track is left out of the narrative rather than failing the album.
+  const tracks: { position: number; title: string; analysis: SongAnalysis | null }[] = [];
+  let lastError: unknown;
+
+  for (const track of album.tracks) {
+    if (progress.signal?.aborted) {
+      return null;
+    }
+
+    progress.onTrack?.(track.position, "analyzing");
+
+    try {
+      const analysis = await analyzeSong(`${album.artist} - ${track.title}`, userId, {
+        ...voice,
+        recordHistory: false,
+      });
+      tracks.push({ ...track, analysis });
+      progress.onTrack?.(track.position, analysis ? "done" : "failed");
+    } catch (error) {
+      console.error(`Error analyzing album track "${track.title}":`, error);
+      lastError = error;
+      tracks.push({ ...track, analysis: null });
+      progress.onTrack?.(track.position, "failed");
+    }
+  }
+
+  if (progress.signal?.aborted) {
+    return null;
+  }
+
+  if (tracks.every((track) => !track.analysis)) {
+    throw lastError ?? new Error("None of the album's tracks could be analyzed");
+  }
+
+  progress.onNarrative?.();
+  const narrative = await analyzeAlbumNarrative(album, tracks, { userId });
+  const prompt = getPromptTemplate("album-analysis");
+
+  const created = await storage.createAlbumAnalysis(
+    {
+      userId,
+      albumKey,
+      title: album.title,
+      artist: album.artist,
+      yearReleased: album.year || null,
+      musicBrainzId: album.musicBrainzId,
+      ...voice,
+      ...narrative,
+      promptId: prompt.id,
+      promptVersion: prompt.version,
+    },
+    tracks.map(({ position, title, analysis }) => ({
+      position,
+      title,
+      songAnalysisId: analysis?.id ?? null,
+    }))
+  );
+
+  return await withAlbumTracks(created);
+}
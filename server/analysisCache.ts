@@ -0,0 +1,87 @@
+import { storage } from "./storage";
+import { isActivePrompt } from "./prompts";
+import type { AnalysisAudience, AnalysisDepth, AnalysisPersona, SongAnalysis } from "@shared/schema";
+
+const CACHE_TTL_MS = (parseInt(process.env.ANALYSIS_CACHE_TTL_HOURS || "") || 24 * 30) * 60 * 60 * 1000;
+
+function normalize(value: string): string {
+  return value
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+// "Song (feat. X)", "Song - 2011 Remaster", "Song [Live]" -> "song"
+export function normalizeTitle(title: string): string {
+  return normalize(
+    title
+      .replace(/\s*[([][^)\]]*[)\]]/g, "")
+      .replace(/\s+-\s+.*(remaster|version|edit|mix|live|mono|stereo).*$/i, "")
+  );
+}
+
+// "The Beatles", "Beatles" -> "beatles"; featured artists are dropped
+export function normalizeArtist(artist: string): string {
+  return normalize(artist.split(/\s+(?:feat\.?|ft\.?|featuring)\s+/i)[0]).replace(/^the /, "");
+}
+
+// Stable identity for a song across spellings of its title and artist.
+// Returns null when the artist is unknown, since titles alone collide.
+export function canonicalSongKey(title: string, artist: string): string | null {
+  const normalizedTitle = normalizeTitle(title);
+  const normalizedArtist = normalizeArtist(artist);
+
+  if (!normalizedTitle || !normalizedArtist || normalizedArtist === "unknown artist") {
+    return null;
+  }
+
+  return `${normalizedArtist}::${normalizedTitle}`;
+}
+
+// Same identity for albums, so editions and remasters of one album match
+export function canonicalAlbumKey(title: string, artist: string): string | null {
+  return canonicalSongKey(title, artist);
+}
+
+// Cache variant for an analysis's depth, persona and audience. The default
+// critic voice and general audience are left out, so those analyses keep the
+// bare depth they were cached under before either option existed. Custom
+// personas are the user's own and aren't shared.
+export function analysisVariant(
+  depth: AnalysisDepth,
+  persona: AnalysisPersona,
+  audience: AnalysisAudience
+): string | null {
+  if (persona === "custom") return null;
+
+  const parts: string[] = [depth];
+  if (persona !== "critic") parts.push(persona);
+  if (audience !== "general") parts.push(audience);
+  return parts.join(":");
+}
+
+// A still-valid cached analysis for the song, produced by the active version
+// of its prompt template
+export async function getCachedAnalysis(songKey: string, variant: string): Promise<SongAnalysis | undefined> {
+  const entry = await storage.getAnalysisCacheEntry(songKey, variant);
+
+  if (!entry || entry.expiresAt < new Date()) {
+    return undefined;
+  }
+
+  const analysis = await storage.getSongAnalysis(entry.songAnalysisId);
+  return analysis && isActivePrompt(analysis.promptId, analysis.promptVersion) ? analysis : undefined;
+}
+
+export async function cacheAnalysis(songKey: string, variant: string, analysis: SongAnalysis): Promise<void> {
+  await storage.upsertAnalysisCacheEntry({
+    songKey,
+    variant,
+    promptVersion: `${analysis.promptId}@${analysis.promptVersion}`,
+    songAnalysisId: analysis.id,
+    expiresAt: new Date(Date.now() + CACHE_TTL_MS),
+  });
+}
@@ -0,0 +1,164 @@
+import OpenAI from "openai";
+import { FixtureProvider } from "./fixtureProvider";
+import { ResilientProvider } from "./resilientProvider";
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface CompletionRequest {
+  // Identifies what is being generated, e.g. "lyrics-analysis"
+  task: string;
+  messages: ChatMessage[];
+  maxTokens: number;
+  json?: boolean;
+  // Aborts the request, e.g. on timeout
+  signal?: AbortSignal;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface CompletionResult {
+  content: string;
+  model: string;
+  // Absent when the server doesn't report it
+  usage?: TokenUsage;
+}
+
+// Receives completion text as it is generated; passing one switches the
+// request to a streamed completion
+export type TokenHandler = (text: string) => void;
+
+export interface AnalysisProvider {
+  readonly name: string;
+  // The configured model; completions report the exact one that answered
+  readonly model: string;
+  complete(request: CompletionRequest, onToken?: TokenHandler): Promise<CompletionResult>;
+}
+
+interface OpenAIProviderOptions {
+  apiKey: string;
+  model: string;
+  baseURL?: string;
+}
+
+function toTokenUsage(usage: OpenAI.CompletionUsage | null | undefined): TokenUsage | undefined {
+  return usage ? { promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens } : undefined;
+}
+
+export class OpenAIProvider implements AnalysisProvider {
+  readonly name: string = "openai";
+  protected client: OpenAI;
+  readonly model: string;
+  protected supportsJsonMode = true;
+  protected supportsStreamUsage = true;
+
+  constructor({ apiKey, model, baseURL }: OpenAIProviderOptions) {
+    // Retries are handled by ResilientProvider
+    this.client = new OpenAI({ apiKey, baseURL, maxRetries: 0 });
+    this.model = model;
+  }
+
+  async complete(request: CompletionRequest, onToken?: TokenHandler): Promise<CompletionResult> {
+    const params = {
+      model: this.model,
+      messages: request.messages,
+      max_tokens: request.maxTokens,
+      ...(request.json && this.supportsJsonMode
+        ? { response_format: { type: "json_object" as const } }
+        : {}),
+    };
+
+    if (!onToken) {
+      const response = await this.client.chat.completions.create(params, { signal: request.signal });
+      return {
+        content: response.choices[0].message.content || "",
+        model: response.model || this.model,
+        usage: toTokenUsage(response.usage),
+      };
+    }
+
+    const stream = await this.client.chat.completions.create({
+      ...params,
+      stream: true,
+      ...(this.supportsStreamUsage ? { stream_options: { include_usage: true } } : {}),
+    }, { signal: request.signal });
+    let content = "";
+    let model = this.model;
+    let usage: TokenUsage | undefined;
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        content += delta;
+        onToken(delta);
+      }
+      // With include_usage the final chunk carries usage and no choices
+      if (chunk.usage) usage = toTokenUsage(chunk.usage);
+      if (chunk.model) model = chunk.model;
+    }
+    return { content, model, usage };
+  }
+}
+
+// Self-hosted or third-party servers that speak the OpenAI chat API
+// (vLLM, Ollama, LM Studio, ...). Many of them ignore or reject
+// response_format, so JSON mode is opt-in.
+export class OpenAICompatibleProvider extends OpenAIProvider {
+  readonly name: string = "openai-compatible";
+
+  constructor(options: OpenAIProviderOptions & { jsonMode?: boolean }) {
+    super(options);
+    this.supportsJsonMode = options.jsonMode ?? false;
+    // stream_options is rejected by some servers
+    this.supportsStreamUsage = false;
+  }
+}
+
+export function createAnalysisProvider(env: NodeJS.ProcessEnv = process.env): AnalysisProvider {
+  const providerName = env.LLM_PROVIDER || "openai";
+
+  switch (providerName) {
+    case "openai": {
+      const apiKey = env.OPENAI_API_KEY || env.OPENAI_KEY;
+      if (!apiKey) {
+        throw new Error(
+          "OPENAI_API_KEY must be set to use the OpenAI provider. Set LLM_PROVIDER=fixture to run without it.",
+        );
+      }
+      // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
+      return new OpenAIProvider({ apiKey, model: env.LLM_MODEL || "gpt-4o" });
+    }
+    case "openai-compatible": {
+      if (!env.LLM_BASE_URL || !env.LLM_MODEL) {
+        throw new Error("LLM_BASE_URL and LLM_MODEL must be set to use the openai-compatible provider");
+      }
+      return new OpenAICompatibleProvider({
+        // Local servers usually accept any key, but the client requires one
+        apiKey: env.LLM_API_KEY || "not-needed",
+        baseURL: env.LLM_BASE_URL,
+        model: env.LLM_MODEL,
+        jsonMode: env.LLM_JSON_MODE === "true",
+      });
+    }
+    case "fixture":
+      return new FixtureProvider(env.LLM_FIXTURES_DIR);
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${providerName}"`);
+  }
+}
+
+let provider: AnalysisProvider | undefined;
+
+// Provider chosen by configuration, created on first use so the server can
+// boot without credentials. Timeouts, retries and the circuit breaker are
+// configured with the LLM_TIMEOUT_MS, LLM_MAX_RETRIES and LLM_CIRCUIT_* env vars.
+export function getAnalysisProvider(): AnalysisProvider {
+  if (!provider) {
+    provider = new ResilientProvider(createAnalysisProvider());
+  }
+  return provider;
+}
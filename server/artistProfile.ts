@@ -0,0 +1,94 @@
+import { storage } from "./storage";
+import { normalizeArtist } from "./analysisCache";
+import { synthesizeArtistLens } from "./openai";
+import { getPromptTemplate, isActivePrompt } from "./prompts";
+import type { ArtistOverview, ArtistProfile, SongAnalysis } from "@shared/schema";
+
+// Most frequent values first, ties alphabetically
+function tally(values: string[]): { value: string; count: number }[] {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    counts.set(value, (counts.get(value) || 0) + 1);
+  }
+  return Array.from(counts.entries())
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+}
+
+function isStale(profile: ArtistProfile | undefined, songs: SongAnalysis[]): boolean {
+  return (
+    !profile ||
+    profile.songCount !== songs.length ||
+    profile.latestSongAnalysisId !== Math.max(...songs.map((song) => song.id)) ||
+    !isActivePrompt(profile.promptId, profile.promptVersion)
+  );
+}
+
+// Rewrite the artist lens from every song analyzed for the artist
+async function writeLens(
+  artistKey: string,
+  name: string,
+  songs: SongAnalysis[],
+  userId: string
+): Promise<ArtistProfile> {
+  const lens = await synthesizeArtistLens(name, songs, { userId });
+  const prompt = getPromptTemplate("artist-lens");
+
+  return await storage.upsertArtistProfile({
+    artistKey,
+    name,
+    lens,
+    songCount: songs.length,
+    latestSongAnalysisId: Math.max(...songs.map((song) => song.id)),
+    promptId: prompt.id,
+    promptVersion: prompt.version,
+  });
+}
+
+// Recurring themes, mood distribution and release years across every song
+// analyzed for the artist, plus the stored lens. The lens is only rewritten
+// when asked to and out of date, since that's a billed model call. Null when
+// no songs by the artist have been analyzed.
+export async function getArtistOverview(
+  name: string,
+  userId: string,
+  { refreshLens = false }: { refreshLens?: boolean } = {}
+): Promise<ArtistOverview | null> {
+  const artistKey = normalizeArtist(name);
+  if (!artistKey) return null;
+
+  // Newest analysis of each song; re-analyses at other depths don't count twice
+  const songs: SongAnalysis[] = [];
+  const seen = new Set<string>();
+  for (const analysis of await storage.getArtistSongAnalyses(artistKey)) {
+    if (!seen.has(analysis.songKey!)) {
+      seen.add(analysis.songKey!);
+      songs.push(analysis);
+    }
+  }
+
+  if (songs.length === 0) return null;
+
+  const displayName = tally(songs.map((song) => song.artist))[0].value;
+  const years = songs.map((song) => song.yearReleased).filter((year): year is number => !!year);
+  let profile = await storage.getArtistProfile(artistKey);
+  let lensStale = isStale(profile, songs);
+
+  if (refreshLens && lensStale) {
+    profile = await writeLens(artistKey, displayName, songs, userId);
+    lensStale = false;
+  }
+
+  return {
+    name: displayName,
+    songs: songs.map(({ id, title, yearReleased, mood, themes }) => ({ id, title, yearReleased, mood, themes })),
+    themes: tally(songs.flatMap((song) => song.themes.map((theme) => theme.toLowerCase())))
+      .map(({ value, count }) => ({ theme: value, count })),
+    moods: tally(songs.map((song) => song.mood?.toLowerCase()).filter((mood): mood is string => !!mood))
+      .map(({ value, count }) => ({ mood: value, count })),
+    yearSpan: years.length > 0 ? { from: Math.min(...years), to: Math.max(...years) } : null,
+    lens: profile?.lens ?? null,
+    lensUpdatedAt: profile?.updatedAt?.toISOString() ?? null,
+    lensStale,
+  };
+}
@@ -0,0 +1,83 @@
+import { storage } from "./storage";
+import { pool } from "./db";
+import { analyzeProsody } from "./prosody";
+import { analyzeEmotionalArc } from "./emotionalArc";
+import { analyzeLyricStats } from "./lyricStats";
+import { canonicalSongKey } from "./analysisCache";
+import { parseAnalysisText } from "@shared/analysis";
+
+// One-off migration: parse the flattened lyricsAnalysis text of older rows
+// into the structured meaning/themes/mood/interpretation/sections columns,
+// and compute craft metrics, the emotional arc and lyric statistics for rows
+// that have lyrics. Original analyses also get the song key the shared
+// analysis cache, artist pages and recommendations look them up by.
+// Run after `npm run db:push` has added the new columns.
+async function backfill() {
+  let migrated = 0;
+
+  while (true) {
+    const rows = await storage.getUnstructuredSongAnalyses(200);
+    if (rows.length === 0) break;
+
+    for (const row of rows) {
+      const { genre, year, ...structured } = parseAnalysisText(row.lyricsAnalysis);
+      await storage.updateSongAnalysis(row.id, {
+        ...structured,
+        // An empty meaning would leave the row selected on the next pass
+        meaning: structured.meaning || row.lyricsAnalysis.trim(),
+        metadata: {
+          source: "legacy",
+          aiGenre: genre || null,
+          aiYear: year || null,
+        },
+      });
+      migrated++;
+    }
+  }
+
+  console.log(`Migrated ${migrated} song analyses to structured fields`);
+
+  let measured = 0;
+
+  while (true) {
+    const rows = await storage.getSongAnalysesMissingCraftMetrics(200);
+    if (rows.length === 0) break;
+
+    for (const row of rows) {
+      await storage.updateSongAnalysis(row.id, {
+        prosody: analyzeProsody(row.lyrics!),
+        emotionalArc: analyzeEmotionalArc(row.lyrics!),
+        lyricStats: analyzeLyricStats(row.lyrics!),
+      });
+      measured++;
+    }
+  }
+
+  console.log(`Computed craft metrics for ${measured} song analyses`);
+
+  let keyed = 0;
+  let lastId = 0;
+
+  while (true) {
+    const rows = await storage.getSongAnalysesMissingSongKey(lastId, 200);
+    if (rows.length === 0) break;
+
+    for (const row of rows) {
+      lastId = row.id;
+      const songKey = canonicalSongKey(row.title, row.artist);
+      if (!songKey) continue;
+
+      await storage.updateSongAnalysis(row.id, { songKey });
+      keyed++;
+    }
+  }
+
+  console.log(`Added song keys to ${keyed} song analyses`);
+}
+
+backfill()
+  .catch((error) => {
+    console.error("Error migrating song analyses:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
@@ -0,0 +1,212 @@
+import type { ArcEmotion, ArcSection, EmotionalArc } from "@shared/schema";
+
+// Sentiment and dominant emotion per lyric section, scored from a small word
+// lexicon. Like server/prosody.ts this is a heuristic over the spelling of the
+// lyrics: it tracks how the song's feeling rises and falls, it doesn't read
+// irony.
+
+const EMOTION_LEXICON: Record<ArcEmotion, { valence: number; words: string[] }> = {
+  joy: {
+    valence: 2,
+    words: [
+      "happy", "joy", "smile", "laugh", "dance", "sunshine", "bright", "shine", "glad", "celebrate",
+      "fun", "alive", "free", "sweet", "beautiful", "golden", "paradise", "heaven", "high", "party",
+      "sing", "wonderful", "good", "great", "best", "delight", "glow", "thrill", "cheer", "blessed",
+    ],
+  },
+  love: {
+    valence: 2,
+    words: [
+      "love", "lover", "kiss", "hold", "embrace", "darling", "baby", "honey", "heart", "together",
+      "forever", "tender", "touch", "adore", "cherish", "devotion", "romance", "desire", "sweetheart", "mine",
+    ],
+  },
+  hope: {
+    valence: 1.5,
+    words: [
+      "hope", "dream", "believe", "faith", "tomorrow", "rise", "light", "morning", "dawn", "heal",
+      "strong", "brave", "promise", "wish", "begin", "new", "grow", "fly", "better", "someday",
+    ],
+  },
+  sadness: {
+    valence: -2,
+    words: [
+      "sad", "cry", "tear", "alone", "lonely", "gone", "lost", "lose", "goodbye", "miss",
+      "broken", "break", "pain", "hurt", "sorrow", "grief", "empty", "cold", "rain", "grey",
+      "gray", "blue", "die", "dead", "death", "regret", "fade", "sorry", "ache", "weep",
+    ],
+  },
+  anger: {
+    valence: -2,
+    words: [
+      "hate", "angry", "rage", "fight", "fire", "burn", "kill", "scream", "fury", "mad",
+      "blame", "liar", "lie", "betray", "revenge", "war", "enemy", "damn", "curse", "bitter",
+    ],
+  },
+  fear: {
+    valence: -1.5,
+    words: [
+      "fear", "afraid", "scared", "scare", "dark", "darkness", "shadow", "danger", "panic", "nightmare",
+      "run", "hide", "trap", "fall", "shake", "tremble", "worry", "anxious", "alarm", "terror",
+    ],
+  },
+};
+
+const WORD_EMOTIONS = new Map<string, ArcEmotion>(
+  (Object.keys(EMOTION_LEXICON) as ArcEmotion[]).flatMap((emotion) =>
+    EMOTION_LEXICON[emotion].words.map((word) => [word, emotion] as [string, ArcEmotion])
+  )
+);
+
+// Words that flip the sentiment of what follows ("don't cry", "no love")
+const NEGATIONS = new Set([
+  "not", "no", "never", "nothing", "nobody", "without",
+  "dont", "cant", "wont", "aint", "didnt", "doesnt", "isnt", "wasnt", "couldnt", "wouldnt", "shouldnt",
+]);
+
+// How many words back a negation still applies
+const NEGATION_WINDOW = 3;
+
+// Larger values flatten the score curve; 15 keeps a handful of strong words
+// short of the extremes
+const NORMALIZE_ALPHA = 15;
+
+// Share of the section's emotional weight an emotion needs to be called its
+// dominant one
+const DOMINANT_SHARE = 0.4;
+
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z]+(?:'[a-z]+)?/g) || []).map((word) => word.replace(/'/g, ""));
+}
+
+// Match inflected forms against the lexicon: "smiling", "tears", "broke"
+function lookup(word: string): ArcEmotion | undefined {
+  if (WORD_EMOTIONS.has(word)) return WORD_EMOTIONS.get(word);
+
+  const stems = [
+    word.replace(/(ing|ed|es|s|ly|y)$/, ""),
+    word.replace(/(ing|ed|es|s)$/, "e"),
+    word.replace(/([^aeiou])\1(ing|ed)$/, "$1"),
+    word.replace(/ies$/, "y").replace(/ied$/, "y"),
+  ];
+  for (const stem of stems) {
+    if (stem !== word && WORD_EMOTIONS.has(stem)) return WORD_EMOTIONS.get(stem);
+  }
+  return undefined;
+}
+
+function scoreSection(lines: string[]): Pick<ArcSection, "score" | "emotion"> {
+  let total = 0;
+  const weights = new Map<ArcEmotion, number>();
+
+  for (const line of lines) {
+    const words = tokenize(line);
+
+    words.forEach((word, index) => {
+      const emotion = lookup(word);
+      if (!emotion) return;
+
+      const negated = words
+        .slice(Math.max(0, index - NEGATION_WINDOW), index)
+        .some((previous) => NEGATIONS.has(previous));
+      const valence = EMOTION_LEXICON[emotion].valence;
+
+      // A negated feeling counts as its opposite, at half strength, and
+      // doesn't vote for the section's emotion
+      total += negated ? -valence / 2 : valence;
+      if (!negated) {
+        weights.set(emotion, (weights.get(emotion) || 0) + Math.abs(valence));
+      }
+    });
+  }
+
+  const score = total / Math.sqrt(total * total + NORMALIZE_ALPHA);
+  const weightSum = Array.from(weights.values()).reduce((sum, weight) => sum + weight, 0);
+  const [top, topWeight] = Array.from(weights.entries()).sort((a, b) => b[1] - a[1])[0] || [null, 0];
+
+  return {
+    score: Math.round(score * 100) / 100,
+    emotion: top && topWeight / weightSum >= DOMINANT_SHARE ? top : null,
+  };
+}
+
+interface RawSection {
+  header: string | null;
+  lines: { line: number; text: string }[];
+}
+
+// "[Chorus]", "(Verse 2)", "Bridge:" -> "Chorus", "Verse 2", "Bridge"
+function parseHeader(text: string): string | null {
+  const match = text.match(/^[[(]\s*([^\])]+?)\s*[\])]$/) || text.match(/^(verse|chorus|bridge|intro|outro|pre-chorus|hook|refrain)(\s*\d+)?\s*:$/i);
+  if (!match) return null;
+
+  const label = (match[1] + (match[2] || "")).replace(/\s*:.*$/, "").trim();
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
+
+function splitSections(lyrics: string): RawSection[] {
+  const sections: RawSection[] = [];
+  let current: RawSection | null = null;
+  let pendingHeader: string | null = null;
+
+  const flush = () => {
+    if (current && current.lines.length > 0) sections.push(current);
+    current = null;
+  };
+
+  lyrics.split("\n").forEach((text, index) => {
+    const trimmed = text.trim();
+    const header = trimmed ? parseHeader(trimmed) : null;
+
+    if (!trimmed) {
+      flush();
+    } else if (header) {
+      flush();
+      pendingHeader = header;
+    } else {
+      if (!current) {
+        current = { header: pendingHeader, lines: [] };
+        pendingHeader = null;
+      }
+      current.lines.push({ line: index + 1, text: trimmed });
+    }
+  });
+  flush();
+
+  return sections;
+}
+
+// Sections in lyric order. Unlabelled stanzas that repeat are taken to be the
+// chorus; the rest are numbered as verses.
+export function analyzeEmotionalArc(lyrics: string): EmotionalArc {
+  const raw = splitSections(lyrics);
+  const fingerprint = (section: RawSection) => section.lines.map((l) => l.text.toLowerCase()).join("\n");
+
+  const counts = new Map<string, number>();
+  raw.forEach((section) => counts.set(fingerprint(section), (counts.get(fingerprint(section)) || 0) + 1));
+
+  const labels = new Map<string, string>();
+  let verse = 0;
+
+  const sections: ArcSection[] = raw.map((section) => {
+    const key = fingerprint(section);
+    let label = section.header || labels.get(key);
+
+    if (!label) {
+      label = (counts.get(key) || 0) > 1 ? "Chorus" : `Verse ${++verse}`;
+    } else {
+      // Keep inferred verse numbers after the ones the lyrics name
+      verse = Math.max(verse, parseInt(label.match(/^verse\s*(\d+)/i)?.[1] || "0"));
+    }
+    labels.set(key, label);
+
+    return {
+      label,
+      startLine: section.lines[0].line,
+      endLine: section.lines[section.lines.length - 1].line,
+      ...scoreSection(section.lines.map((l) => l.text)),
+    };
+  });
+
+  return { sections };
+}
@@ -0,0 +1,71 @@
+import { storage, type FeedbackReportRow } from "./storage";
+import type { FeedbackReport, FeedbackReportAnalysis, FeedbackReportGroup } from "@shared/schema";
+
+function groupKey(row: FeedbackReportRow): string {
+  return `${row.promptId ?? ""}@${row.promptVersion ?? ""}::${row.provider ?? ""}`;
+}
+
+function downShare(analysis: FeedbackReportAnalysis): number {
+  return analysis.downvotes / (analysis.upvotes + analysis.downvotes);
+}
+
+// Group the ratings given since the cutoff by the prompt version and provider
+// behind each analysis, so a bad prompt or provider shows up as a cluster of
+// low-rated analyses. Groups with the most down votes come first.
+export async function getFeedbackReport(since: Date): Promise<FeedbackReport> {
+  const rows = await storage.getFeedbackSince(since);
+  const groups = new Map<string, { group: FeedbackReportGroup; analyses: Map<number, FeedbackReportAnalysis> }>();
+
+  for (const row of rows) {
+    const key = groupKey(row);
+    let entry = groups.get(key);
+    if (!entry) {
+      entry = {
+        group: {
+          promptId: row.promptId,
+          promptVersion: row.promptVersion,
+          provider: row.provider,
+          ratings: 0,
+          downvotes: 0,
+          lowRated: [],
+        },
+        analyses: new Map(),
+      };
+      groups.set(key, entry);
+    }
+
+    let analysis = entry.analyses.get(row.songAnalysisId);
+    if (!analysis) {
+      analysis = {
+        songAnalysisId: row.songAnalysisId,
+        title: row.title,
+        artist: row.artist,
+        source: row.source,
+        upvotes: 0,
+        downvotes: 0,
+        comments: [],
+      };
+      entry.analyses.set(row.songAnalysisId, analysis);
+    }
+
+    entry.group.ratings++;
+    if (row.rating === "down") {
+      entry.group.downvotes++;
+      analysis.downvotes++;
+    } else {
+      analysis.upvotes++;
+    }
+    analysis.comments.push(...row.comments);
+  }
+
+  const report = Array.from(groups.values()).map(({ group, analyses }) => ({
+    ...group,
+    lowRated: Array.from(analyses.values())
+      .filter((analysis) => analysis.downvotes > analysis.upvotes)
+      .sort((a, b) => downShare(b) - downShare(a) || b.downvotes - a.downvotes),
+  }));
+
+  report.sort((a, b) => b.downvotes - a.downvotes || b.ratings - a.ratings);
+
+  return { since: since.toISOString(), groups: report };
+}
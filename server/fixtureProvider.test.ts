@@ -0,0 +1,101 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { FixtureProvider } from "./fixtureProvider";
+import type { CompletionRequest } from "./analysisProvider";
+import type { LineAnnotation } from "./openai";
+import type { StructuredAnalysis } from "@shared/analysis";
+import type { QuizQuestion } from "@shared/schema";
+
+function request(task: string, json = false): CompletionRequest {
+  return {
+    task,
+    json,
+    maxTokens: 500,
+    messages: [
+      { role: "system", content: "You are a critic." },
+      { role: "user", content: "Analyze the song." },
+    ],
+  };
+}
+
+test("answers each JSON task with JSON in the shape its parser expects", async () => {
+  const provider = new FixtureProvider();
+
+  const analysis: StructuredAnalysis = JSON.parse((await provider.complete(request("lyrics-analysis", true))).content);
+  assert.equal(typeof analysis.meaning, "string");
+  assert.ok(Array.isArray(analysis.themes) && analysis.themes.length > 0);
+  assert.equal(typeof analysis.mood, "string");
+  assert.equal(typeof analysis.interpretation, "string");
+
+  const annotations: { annotations: LineAnnotation[] } = JSON.parse(
+    (await provider.complete(request("lyric-annotations", true))).content
+  );
+  assert.ok(annotations.annotations.every((annotation) => annotation.startLine <= annotation.endLine));
+
+  const quiz: { questions: QuizQuestion[] } = JSON.parse((await provider.complete(request("song-quiz", true))).content);
+  assert.ok(quiz.questions.some((question) => question.type === "multiple-choice"));
+  assert.ok(quiz.questions.some((question) => question.type === "short-answer"));
+
+  for (const task of ["song-comparison", "literary-devices", "album-analysis", "lesson-plan"]) {
+    const { content } = await provider.complete(request(task, true));
+    assert.doesNotThrow(() => JSON.parse(content), task);
+  }
+});
+
+test("answers song-meaning in the sectioned format with trailing metadata", async () => {
+  const { content } = await new FixtureProvider().complete(request("song-meaning"));
+
+  assert.match(content, /^## Core Theme/);
+  assert.match(content, /^Themes: .+$/m);
+  assert.match(content, /^Mood: .+$/m);
+  assert.match(content, /^Genre: .+$/m);
+  assert.match(content, /^Release Year: \d{4}$/m);
+});
+
+test("falls back to a generic response for unknown tasks", async () => {
+  const provider = new FixtureProvider();
+
+  assert.equal((await provider.complete(request("unknown-task", true))).content, "{}");
+  assert.equal((await provider.complete(request("unknown-task"))).content, "Fixture response for unknown-task.");
+});
+
+test("streams the same content it returns", async () => {
+  const tokens: string[] = [];
+  const result = await new FixtureProvider().complete(request("song-chat"), (text) => tokens.push(text));
+
+  assert.ok(tokens.length > 1);
+  assert.equal(tokens.join(""), result.content);
+});
+
+test("reports the fixture model and estimated token usage", async () => {
+  const result = await new FixtureProvider().complete(request("artist-lens"));
+
+  assert.equal(result.model, "fixture");
+  assert.equal(result.usage?.promptTokens, Math.ceil("You are a critic.Analyze the song.".length / 4));
+  assert.equal(result.usage?.completionTokens, Math.ceil(result.content.length / 4));
+});
+
+test("prefers fixture files from its directory over the built-ins", async () => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "fixtures-"));
+
+  try {
+    await fs.writeFile(path.join(dir, "artist-lens.md"), "A lens from a file.");
+    const provider = new FixtureProvider(dir);
+
+    assert.equal((await provider.complete(request("artist-lens"))).content, "A lens from a file.");
+    assert.notEqual((await provider.complete(request("song-chat"))).content, "");
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+});
+
+test("returns the same response every time", async () => {
+  const provider = new FixtureProvider();
+  const first = await provider.complete(request("lyrics-analysis", true));
+  const second = await provider.complete(request("lyrics-analysis", true));
+
+  assert.deepEqual(first, second);
+});
@@ -0,0 +1,132 @@
+import fs from "fs/promises";
+import path from "path";
+import type { AnalysisProvider, CompletionRequest, CompletionResult, TokenHandler } from "./analysisProvider";
+
+// Canned responses per task, shaped like real model output so the rest of the
+// pipeline (parsing, persistence, streaming) behaves as it would in production
+const builtinFixtures: Record<string, string> = {
+  "lyrics-analysis": JSON.stringify({
+    meaning: "The narrator looks back on a relationship that shaped them, weighing what was lost against what it taught them.",
+    themes: ["memory", "loss", "growth"],
+    mood: "bittersweet",
+    interpretation: "The song frames heartbreak as a turning point rather than an ending, using small domestic images to make a private story feel universal.",
+  }, null, 2),
+  "song-meaning": `## Core Theme
+A reflection on holding on to who you are while everything around you changes.
+
+## Emotional Tone
+Wistful in the verses, lifting into quiet resolve by the final chorus.
+
+## Key Symbolism
+Roads and open windows stand for possibility; the recurring night sky marks time passing.
+
+## Personal or Universal?
+Written from a personal vantage point, but the feelings are drawn broadly enough for any listener to step into.
+
+Themes: identity, change, resilience
+Mood: wistful
+Genre: Indie Pop
+Release Year: 2019`,
+  "lyric-annotations": JSON.stringify({
+    annotations: [
+      { startLine: 1, endLine: 2, explanation: "The opening sets the scene in a quiet, ordinary moment, which makes the emotional turn that follows hit harder." },
+      { startLine: 3, endLine: 4, explanation: "Here the narrator admits what the opening only hinted at; the shift to the present tense signals the feeling is still raw." },
+    ],
+  }, null, 2),
+  "song-comparison": JSON.stringify({
+    summary: "Both songs circle the same loss, but one mourns it while the other has already made peace with it.",
+    sharedThemes: ["loss", "memory"],
+    sections: [
+      { heading: "Shared Themes", body: "Each song returns to a single remembered place as a stand-in for the relationship." },
+      { heading: "Diverging Moods", body: "The first stays in a raw, present-tense ache; the second looks back with warmth." },
+      { heading: "Symbolism", body: "Closed doors in the first song give way to open windows in the second." },
+      { heading: "Perspective", body: "The first addresses the lost person directly; the second speaks about them to the listener." },
+    ],
+  }, null, 2),
+  "literary-devices": JSON.stringify({
+    devices: [
+      { device: "metaphor", startLine: 1, endLine: 1, excerpt: "the opening line", explanation: "Treats an everyday moment as a threshold, framing the song as a crossing from one life into another." },
+      { device: "personification", startLine: 3, endLine: 3, excerpt: "the third line", explanation: "Gives the setting a will of its own, so the narrator's loneliness seems to come from the world around them." },
+    ],
+  }, null, 2),
+  "album-analysis": JSON.stringify({
+    summary: "A record about leaving home and finding out what came along anyway, told in the order it happened.",
+    themes: ["home", "departure", "memory"],
+    sections: [
+      { heading: "The Arc", body: "The opening tracks are restless and packed with motion; by the closer the narrator has stopped running and looks back." },
+      { heading: "The Concept", body: "Each track is a stop on one journey, with the same house returning as a reference point." },
+      { heading: "How the Tracks Relate", body: "The first and last tracks share a melody and an image, framing everything between them as a round trip." },
+    ],
+  }, null, 2),
+  "artist-lens": "Across these songs the artist keeps circling the same question: what's left of a person once a place or a relationship has moved on without them. Early songs meet that loss head-on, in raw present-tense scenes; later ones step back and find something worth keeping in it.\n\nWhat makes a song theirs is the small domestic detail that carries the weight, an open window or a kitchen light, standing in for feelings the lyrics never name outright.",
+  "song-quiz": JSON.stringify({
+    questions: [
+      { type: "multiple-choice", question: "What is the narrator mostly looking back on?", choices: ["A relationship that shaped them", "A job they lost", "A city they never visited", "A childhood pet"], answerIndex: 0, explanation: "The verses keep returning to the relationship and what it taught the narrator." },
+      { type: "multiple-choice", question: "How does the mood change by the final chorus?", choices: ["It turns angry", "It lifts into quiet resolve", "It stays wistful throughout", "It becomes playful"], answerIndex: 1, explanation: "The wistful verses give way to a steadier, more hopeful final chorus." },
+      { type: "short-answer", question: "What do the small domestic images in the song do?", answer: "They make a private story feel universal.", keywords: ["private", "universal"], explanation: "Everyday details let listeners map their own lives onto the narrator's story." },
+    ],
+  }, null, 2),
+  "lesson-plan": JSON.stringify({
+    title: "Reading Songs as Stories of Change",
+    overview: "Students read the song as a short narrative about change and loss, then trace how small domestic images carry its feeling.",
+    objectives: [
+      "Students will be able to identify the narrator's situation and how it changes across the song.",
+      "Students will be able to explain how a concrete image conveys an emotion the lyrics don't name.",
+    ],
+    discussionPrompts: [
+      "Which line marks the turning point for the narrator, and how can you tell?",
+      "Why might the songwriter describe a kitchen light instead of naming the feeling directly?",
+    ],
+    activities: [
+      { title: "Warm-up", minutes: 5, description: "Play the song once; students jot down one image that stuck with them." },
+      { title: "Close reading", minutes: 20, description: "In pairs, students annotate the lyrics for images of home and mark where the mood shifts." },
+      { title: "Discussion", minutes: 15, description: "Whole-class discussion using the prompts, with pairs sharing their annotations." },
+      { title: "Exit ticket", minutes: 5, description: "Each student writes two sentences on what the song says about change." },
+    ],
+  }, null, 2),
+  "song-chat": "Good question. The lyrics point that way—the second verse shifts from \"we\" to \"I\", which suggests the narrator is now speaking about themselves alone. That reading is interpretation, though; the artist hasn't confirmed it.",
+};
+
+// Deterministic provider for local development and automated tests. Reads
+// `<task>.json`, `<task>.md` or `<task>.txt` from the fixtures directory when
+// one is configured, falling back to the built-in fixtures.
+export class FixtureProvider implements AnalysisProvider {
+  readonly name = "fixture";
+  readonly model = "fixture";
+
+  constructor(private fixturesDir?: string) {}
+
+  async complete(request: CompletionRequest, onToken?: TokenHandler): Promise<CompletionResult> {
+    const content = await this.loadFixture(request);
+
+    if (onToken) {
+      for (const chunk of content.match(/\S+\s*|\s+/g) || []) {
+        onToken(chunk);
+      }
+    }
+
+    // Rough 4-characters-per-token estimate so usage accounting can be exercised
+    return {
+      content,
+      model: this.model,
+      usage: {
+        promptTokens: Math.ceil(request.messages.reduce((total, message) => total + message.content.length, 0) / 4),
+        completionTokens: Math.ceil(content.length / 4),
+      },
+    };
+  }
+
+  private async loadFixture(request: CompletionRequest): Promise<string> {
+    if (this.fixturesDir) {
+      for (const extension of [".json", ".md", ".txt"]) {
+        try {
+          return await fs.readFile(path.join(this.fixturesDir, `${request.task}${extension}`), "utf-8");
+        } catch {
+          // Try the next extension, then the built-ins
+        }
+      }
+    }
+
+    return builtinFixtures[request.task] ?? (request.json ? "{}" : `Fixture response for ${request.task}.`);
+  }
+}
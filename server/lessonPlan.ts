@@ -0,0 +1,56 @@
+import { storage } from "./storage";
+import { generateLessonPlan } from "./openai";
+import { getPromptTemplate } from "./prompts";
+import type { AnalysisAudience, LessonPlan, LessonPlanWithSongs, SongAnalysis } from "@shared/schema";
+
+export interface LessonPlanOptions {
+  durationMinutes: number;
+  audience: AnalysisAudience;
+}
+
+// The plan's songs in the order they were picked; songs whose analysis has
+// since gone missing are left out
+export async function withLessonSongs(plan: LessonPlan): Promise<LessonPlanWithSongs> {
+  const songs = await storage.getSongAnalysesByIds(plan.songAnalysisIds);
+  const byId = new Map(songs.map((song) => [song.id, song]));
+
+  return {
+    ...plan,
+    songs: plan.songAnalysisIds
+      .map((id) => byId.get(id))
+      .filter((song): song is SongAnalysis => !!song),
+  };
+}
+
+// Write a lesson plan from the given analyses, taught in the order given.
+// Returns null when any of the analyses can't be found.
+export async function createLessonPlan(
+  songAnalysisIds: number[],
+  userId: string,
+  { durationMinutes, audience }: LessonPlanOptions
+): Promise<LessonPlanWithSongs | null> {
+  const ids = Array.from(new Set(songAnalysisIds));
+  const found = await storage.getSongAnalysesByIds(ids);
+
+  if (found.length !== ids.length) {
+    return null;
+  }
+
+  const byId = new Map(found.map((song) => [song.id, song]));
+  const songs = ids.map((id) => byId.get(id)!);
+
+  const content = await generateLessonPlan(songs, { durationMinutes, audience }, { userId });
+  const prompt = getPromptTemplate("lesson-plan");
+
+  const plan = await storage.createLessonPlan({
+    userId,
+    songAnalysisIds: ids,
+    audience,
+    durationMinutes,
+    ...content,
+    promptId: prompt.id,
+    promptVersion: prompt.version,
+  });
+
+  return { ...plan, songs };
+}
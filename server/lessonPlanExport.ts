@@ -0,0 +1,167 @@
+import { renderPdf, type PdfParagraph } from "./pdfDocument";
+import { audienceLabels } from "@shared/analysis";
+import type { LessonPlanWithSongs, SongAnalysis } from "@shared/schema";
+
+export const lessonPlanFormats = ["markdown", "html", "pdf"] as const;
+export type LessonPlanFormat = typeof lessonPlanFormats[number];
+
+export interface LessonPlanExport {
+  contentType: string;
+  extension: string;
+  body: string | Buffer;
+}
+
+// Format-neutral outline of a lesson plan, rendered by each exporter
+type Block =
+  | { type: "title" | "meta" | "heading" | "subheading" | "paragraph"; text: string }
+  | { type: "list"; items: string[]; ordered?: boolean };
+
+function songLine(song: SongAnalysis): string {
+  return `"${song.title}" by ${song.artist}${song.yearReleased ? ` (${song.yearReleased})` : ""}`;
+}
+
+function lessonPlanBlocks(plan: LessonPlanWithSongs): Block[] {
+  const blocks: Block[] = [
+    { type: "title", text: plan.title },
+    { type: "meta", text: `${plan.durationMinutes} minutes · ${audienceLabels[plan.audience]}` },
+    { type: "heading", text: "Overview" },
+    { type: "paragraph", text: plan.overview },
+    { type: "heading", text: plan.songs.length === 1 ? "Song" : "Songs" },
+    { type: "list", items: plan.songs.map((song) => (song.meaning ? `${songLine(song)}: ${song.meaning}` : songLine(song))) },
+  ];
+
+  if (plan.objectives.length > 0) {
+    blocks.push({ type: "heading", text: "Objectives" }, { type: "list", items: plan.objectives });
+  }
+
+  if (plan.activities.length > 0) {
+    blocks.push({ type: "heading", text: "Activities" });
+    for (const activity of plan.activities) {
+      blocks.push(
+        { type: "subheading", text: `${activity.title} (${activity.minutes} min)` },
+        { type: "paragraph", text: activity.description }
+      );
+    }
+  }
+
+  if (plan.discussionPrompts.length > 0) {
+    blocks.push(
+      { type: "heading", text: "Discussion Prompts" },
+      { type: "list", items: plan.discussionPrompts, ordered: true }
+    );
+  }
+
+  return blocks;
+}
+
+function toMarkdown(blocks: Block[]): string {
+  return blocks
+    .map((block) => {
+      switch (block.type) {
+        case "title":
+          return `# ${block.text}`;
+        case "meta":
+          return `_${block.text}_`;
+        case "heading":
+          return `## ${block.text}`;
+        case "subheading":
+          return `### ${block.text}`;
+        case "paragraph":
+          return block.text;
+        case "list":
+          return block.items.map((item, index) => `${block.ordered ? `${index + 1}.` : "-"} ${item}`).join("\n");
+      }
+    })
+    .join("\n\n") + "\n";
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// Plain HTML with the Office namespaces, which Word and Google Docs open
+// as a document
+function toHtml(blocks: Block[], title: string): string {
+  const body = blocks
+    .map((block) => {
+      switch (block.type) {
+        case "title":
+          return `<h1>${escapeHtml(block.text)}</h1>`;
+        case "meta":
+          return `<p class="meta">${escapeHtml(block.text)}</p>`;
+        case "heading":
+          return `<h2>${escapeHtml(block.text)}</h2>`;
+        case "subheading":
+          return `<h3>${escapeHtml(block.text)}</h3>`;
+        case "paragraph":
+          return `<p>${escapeHtml(block.text)}</p>`;
+        case "list": {
+          const tag = block.ordered ? "ol" : "ul";
+          return `<${tag}>${block.items.map((item) => `<li>${escapeHtml(item)}</li>`).join("")}</${tag}>`;
+        }
+      }
+    })
+    .join("\n");
+
+  return `<!DOCTYPE html>
+<html xmlns:o="urn:schemas-microsoft-com:office:office" xmlns:w="urn:schemas-microsoft-com:office:word" xmlns="http://www.w3.org/TR/REC-html40">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+body { font-family: Calibri, Arial, sans-serif; font-size: 11pt; line-height: 1.4; }
+h1 { font-size: 20pt; margin-bottom: 4pt; }
+h2 { font-size: 14pt; margin-top: 16pt; }
+h3 { font-size: 12pt; margin-top: 10pt; margin-bottom: 2pt; }
+.meta { color: #555555; font-style: italic; }
+</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+function toPdf(blocks: Block[], title: string): Buffer {
+  const paragraphs: PdfParagraph[] = blocks.flatMap((block): PdfParagraph[] => {
+    switch (block.type) {
+      case "title":
+        return [{ text: block.text, font: "bold", size: 20 }];
+      case "meta":
+        return [{ text: block.text, font: "italic", size: 10, spaceBefore: 4 }];
+      case "heading":
+        return [{ text: block.text, font: "bold", size: 14, spaceBefore: 14 }];
+      case "subheading":
+        return [{ text: block.text, font: "bold", size: 11, spaceBefore: 8 }];
+      case "paragraph":
+        return [{ text: block.text, spaceBefore: 2 }];
+      case "list":
+        return block.items.map((item, index) => ({
+          text: item,
+          marker: block.ordered ? `${index + 1}.` : "•",
+          indent: 8,
+          spaceBefore: 3,
+        }));
+    }
+  });
+
+  return renderPdf(paragraphs, title);
+}
+
+export function exportLessonPlan(plan: LessonPlanWithSongs, format: LessonPlanFormat): LessonPlanExport {
+  const blocks = lessonPlanBlocks(plan);
+
+  switch (format) {
+    case "markdown":
+      return { contentType: "text/markdown; charset=utf-8", extension: "md", body: toMarkdown(blocks) };
+    case "html":
+      return { contentType: "application/msword; charset=utf-8", extension: "doc", body: toHtml(blocks, plan.title) };
+    case "pdf":
+      return { contentType: "application/pdf", extension: "pdf", body: toPdf(blocks, plan.title) };
+  }
+}
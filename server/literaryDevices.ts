@@ -0,0 +1,154 @@
+import type { InsertLiteraryDevice, LiteraryDeviceType } from "@shared/schema";
+
+// Literary devices that can be found from the wording alone. Metaphor,
+// personification, hyperbole and allusion need interpretation and are left
+// to the model, see detectLiteraryDevices in server/openai.ts.
+
+export type DeviceFinding = Omit<InsertLiteraryDevice, "songAnalysisId">;
+
+export const interpretiveDevices: LiteraryDeviceType[] = ["metaphor", "personification", "hyperbole", "allusion"];
+
+// Words skipped when looking for alliteration or repeated line openings
+const MINOR_WORDS = new Set([
+  "a", "an", "the", "and", "or", "but", "of", "to", "in", "on", "at", "by", "for", "with",
+  "is", "am", "are", "was", "were", "be", "it", "its",
+]);
+
+// Subjects that make "like" a verb ("I like the way") rather than a comparison
+const LIKE_VERB_SUBJECTS = new Set(["i", "you", "we", "they", "would", "do", "don't", "dont", "did", "didn't"]);
+
+// Consecutive lines that must open the same way to count as anaphora
+const ANAPHORA_MIN_LINES = 2;
+
+// Stressed words sharing an opening sound within a line
+const ALLITERATION_MIN_WORDS = 3;
+
+interface LyricLine {
+  line: number;
+  text: string;
+}
+
+function words(text: string): string[] {
+  return text.toLowerCase().match(/[a-z]+(?:'[a-z]+)?/g) || [];
+}
+
+// Opening consonant sound, folding spellings of the same sound together
+function onset(word: string): string | null {
+  const w = word.replace(/^(ph)/, "f").replace(/^(kn|wr|gn)/, (m) => m[1]).replace(/^c(?=[eiy])/, "s").replace(/^c/, "k");
+  const match = w.match(/^(ch|sh|th|wh|[bcdfghjklmnpqrstvwxz])/);
+  return match ? match[1] : null;
+}
+
+function findSimiles(lines: LyricLine[]): DeviceFinding[] {
+  const findings: DeviceFinding[] = [];
+
+  for (const { line, text } of lines) {
+    // "Like a rolling stone" opens the line with no subject before it
+    const like = text.match(/(?:^\s*|(\S+)\s+)like\s+(?:a|an|the|my|your|his|her|their|some)\b[^,;.!?]*/i);
+    const asAs = text.match(/\bas\s+\w+\s+as\s+[^,;.!?]+/i);
+
+    if (like && !(like[1] && LIKE_VERB_SUBJECTS.has(like[1].toLowerCase()))) {
+      findings.push({
+        device: "simile",
+        startLine: line,
+        endLine: line,
+        excerpt: like[0].slice(like[1]?.length ?? 0).trim(),
+        explanation: `Draws an explicit comparison with "like": ${like[0].trim()}.`,
+        source: "pattern",
+      });
+    } else if (asAs) {
+      findings.push({
+        device: "simile",
+        startLine: line,
+        endLine: line,
+        excerpt: asAs[0].trim(),
+        explanation: `Draws an explicit comparison with "as ... as".`,
+        source: "pattern",
+      });
+    }
+  }
+
+  return findings;
+}
+
+function findAlliteration(lines: LyricLine[]): DeviceFinding[] {
+  const findings: DeviceFinding[] = [];
+
+  for (const { line, text } of lines) {
+    const runs = new Map<string, string[]>();
+
+    for (const word of words(text)) {
+      if (MINOR_WORDS.has(word)) continue;
+      const sound = onset(word);
+      if (!sound) continue;
+      runs.set(sound, [...(runs.get(sound) || []), word]);
+    }
+
+    const [sound, repeated] = Array.from(runs.entries()).sort((a, b) => b[1].length - a[1].length)[0] || [];
+    if (sound && repeated && new Set(repeated).size >= ALLITERATION_MIN_WORDS) {
+      findings.push({
+        device: "alliteration",
+        startLine: line,
+        endLine: line,
+        excerpt: text.trim(),
+        explanation: `Repeats the "${sound}" sound across ${repeated.join(", ")}.`,
+        source: "pattern",
+      });
+    }
+  }
+
+  return findings;
+}
+
+// Runs of consecutive lines opening with the same word, counting any leading
+// articles or prepositions ("in the dark", "in the cold"). Repeated choruses
+// are reported once.
+function findAnaphora(lines: LyricLine[]): DeviceFinding[] {
+  const findings: DeviceFinding[] = [];
+  const seen = new Set<string>();
+
+  const opening = (text: string) => {
+    const lineWords = words(text);
+    const firstMeaningful = lineWords.findIndex((word) => !MINOR_WORDS.has(word));
+    return firstMeaningful >= 0 ? lineWords.slice(0, firstMeaningful + 1).join(" ") : null;
+  };
+
+  let start = 0;
+  for (let i = 1; i <= lines.length; i++) {
+    const current = i < lines.length ? opening(lines[i].text) : null;
+    const runOpening = opening(lines[start].text);
+    const continues = current !== null && current === runOpening && lines[i].line === lines[i - 1].line + 1;
+
+    if (continues) continue;
+
+    const runLength = i - start;
+    const runText = lines.slice(start, i).map((l) => l.text.trim().toLowerCase()).join("\n");
+    // Identical lines are a refrain, not anaphora
+    const distinct = new Set(lines.slice(start, i).map((l) => l.text.trim().toLowerCase())).size > 1;
+
+    if (runOpening && runLength >= ANAPHORA_MIN_LINES && distinct && !seen.has(runText)) {
+      seen.add(runText);
+      findings.push({
+        device: "anaphora",
+        startLine: lines[start].line,
+        endLine: lines[i - 1].line,
+        excerpt: lines.slice(start, i).map((l) => l.text.trim()).join(" / "),
+        explanation: `${runLength} consecutive lines open with "${runOpening}", building emphasis through repetition.`,
+        source: "pattern",
+      });
+    }
+
+    start = i;
+  }
+
+  return findings;
+}
+
+export function detectPatternDevices(lyrics: string): DeviceFinding[] {
+  const lines = lyrics
+    .split("\n")
+    .map((text, index) => ({ line: index + 1, text }))
+    .filter(({ text }) => text.trim() && !/^[[(].*[\])]$/.test(text.trim()));
+
+  return [...findSimiles(lines), ...findAlliteration(lines), ...findAnaphora(lines)];
+}
@@ -0,0 +1,119 @@
+import { countSyllables } from "./prosody";
+import {
+  lyricStatsMetrics,
+  type LyricStats,
+  type LyricStatsAverage,
+  type LyricStatsMetric,
+  type SongAnalysis,
+} from "@shared/schema";
+
+// Vocabulary and readability statistics computed from the lyrics alone
+
+const STOPWORDS = new Set([
+  "a", "an", "the", "and", "but", "or", "nor", "so", "yet", "if", "as", "than", "that", "this", "these", "those",
+  "of", "to", "in", "on", "at", "by", "for", "from", "with", "up", "down", "off", "out", "into", "over", "through",
+  "i", "me", "my", "you", "your", "he", "him", "his", "she", "her", "it", "its", "we", "us", "our",
+  "they", "them", "their", "who", "what", "when", "where", "why", "how", "which",
+  "am", "is", "are", "was", "were", "be", "been", "being", "do", "does", "did", "has", "have", "had",
+  "can", "could", "will", "would", "shall", "should", "may", "might", "must",
+  "im", "youre", "dont", "cant", "wont", "aint", "ill", "ive", "id", "thats",
+  "oh", "ooh", "yeah", "ah", "la", "na", "hey", "uh", "got", "get", "just", "all", "no", "not", "now",
+  "like", "know", "let", "go", "come", "say", "one", "there", "here", "too", "then", "some",
+]);
+
+// Words counted as profanity: each stem as a whole word or with one of its
+// inflections, so "fucking" and "shitty" count, "Dickens" and "passion" don't
+const PROFANITY = new RegExp(
+  "^(?:" +
+    [
+      "(?:mother)?fuck(?:s|ed|er|ers|in|ing|y)?",
+      "shit(?:s|e|ty|ted|tin|ting|head|heads)?",
+      "bitch(?:es|ed|in|ing|y)?",
+      "cunts?",
+      "dick(?:s|head|heads)?",
+      "puss(?:y|ies)",
+      "bastards?",
+      "ass(?:hole|holes)?",
+      "(?:god)?damn(?:ed|it)?",
+      "piss(?:ed|es|in|ing)?",
+      "whores?",
+      "slut(?:s|ty)?",
+      "pricks?",
+      "bollocks",
+    ].join("|") +
+    ")$"
+);
+
+const TOP_WORDS = 5;
+
+function tokenize(line: string): string[] {
+  return (line.toLowerCase().match(/[a-z]+(?:'[a-z]+)?/g) || []).map((word) => word.replace(/'/g, ""));
+}
+
+const round = (value: number, places = 2) => Math.round(value * 10 ** places) / 10 ** places;
+
+export function analyzeLyricStats(lyrics: string): LyricStats {
+  // Section labels such as "[Chorus]" aren't lyrics
+  const lines = lyrics
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line && !/^[[(].*[\])]$/.test(line) && tokenize(line).length > 0);
+
+  const words = lines.flatMap(tokenize);
+  const wordCount = words.length;
+
+  const counts = new Map<string, number>();
+  for (const word of words) {
+    if (word.length > 1 && !STOPWORDS.has(word)) {
+      counts.set(word, (counts.get(word) || 0) + 1);
+    }
+  }
+
+  const distinctLines = new Set(lines.map((line) => tokenize(line).join(" ")));
+  const syllables = words.reduce((sum, word) => sum + countSyllables(word), 0);
+  const grade = wordCount > 0 && lines.length > 0
+    ? 0.39 * (wordCount / lines.length) + 11.8 * (syllables / wordCount) - 15.59
+    : 0;
+
+  return {
+    wordCount,
+    uniqueWordRatio: wordCount > 0 ? round(new Set(words).size / wordCount) : 0,
+    repetitionIndex: lines.length > 0 ? round(1 - distinctLines.size / lines.length) : 0,
+    averageLineLength: lines.length > 0 ? round(wordCount / lines.length, 1) : 0,
+    readabilityGrade: round(Math.max(0, grade), 1),
+    topWords: Array.from(counts.entries())
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, TOP_WORDS)
+      .map(([word, count]) => ({ word, count })),
+    profanityCount: words.filter((word) => PROFANITY.test(word)).length,
+  };
+}
+
+// Average the statistics of the given analyses, leaving out the song being
+// compared and counting each song once however many analyses it has
+export function averageLyricStats(
+  analyses: Pick<SongAnalysis, "id" | "songKey" | "lyricStats">[],
+  exclude: Pick<SongAnalysis, "id" | "songKey">
+): LyricStatsAverage | null {
+  const songs = new Map<string, LyricStats>();
+
+  for (const analysis of analyses) {
+    const key = analysis.songKey || `id:${analysis.id}`;
+    if (!analysis.lyricStats || analysis.id === exclude.id || (exclude.songKey && key === exclude.songKey)) {
+      continue;
+    }
+    if (!songs.has(key)) songs.set(key, analysis.lyricStats);
+  }
+
+  if (songs.size === 0) return null;
+
+  const stats = Array.from(songs.values());
+  const metrics = Object.fromEntries(
+    lyricStatsMetrics.map((metric) => [
+      metric,
+      round(stats.reduce((sum, entry) => sum + entry[metric], 0) / stats.length),
+    ])
+  ) as Record<LyricStatsMetric, number>;
+
+  return { songs: stats.length, metrics };
+}
@@ -0,0 +1,127 @@
+import type {
+  AnalysisMetadata,
+  MetadataClaim,
+  MetadataConfidence,
+  MetadataFieldProvenance,
+  MetadataReconciliation,
+} from "@shared/schema";
+
+// Source name recorded for the genre and year the model claims
+export const AI_SOURCE = "AI";
+
+// What one catalog lookup said about a song
+export interface CatalogClaim {
+  source: string;
+  genre?: string;
+  year?: number;
+}
+
+export interface AiClaims {
+  genre?: string;
+  year?: number;
+}
+
+type Claim<T> = Omit<MetadataClaim<T>, "agrees">;
+
+function genreTokens(genre: string): string[] {
+  return genre
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token && token !== "music");
+}
+
+// Genres are free-form tags, so "Rock" and "classic rock" agree; anything
+// sharing no words is a disagreement
+export function genresAgree(a: string, b: string): boolean {
+  const tokens = new Set(genreTokens(a));
+  return genreTokens(b).some((token) => tokens.has(token));
+}
+
+function yearsAgree(a: number, b: number): boolean {
+  return a === b;
+}
+
+// Keep the catalog value most of the sources agree with; the model only
+// breaks ties between catalogs and fills in when no catalog has a value
+function reconcileField<T>(
+  claims: Claim<T>[],
+  agree: (a: T, b: T) => boolean,
+  tieBreak: (a: Claim<T>, b: Claim<T>) => number
+): MetadataFieldProvenance<T> {
+  const support = (claim: Claim<T>) => claims.filter((other) => agree(claim.value, other.value)).length;
+  const catalog = claims
+    .filter((claim) => claim.source !== AI_SOURCE)
+    .sort((a, b) => support(b) - support(a) || tieBreak(a, b));
+  const chosen = catalog[0] ?? claims.find((claim) => claim.source === AI_SOURCE);
+
+  if (!chosen) {
+    return { value: null, source: null, confidence: "low", claims: [] };
+  }
+
+  const marked = claims.map((claim) => ({ ...claim, agrees: agree(claim.value, chosen.value) }));
+  // Only catalogs vouch for a value; the model agreeing doesn't make it verified
+  const supporting = marked.filter((claim) => claim.agrees && claim.source !== AI_SOURCE).length;
+  const disputed = marked.some((claim) => !claim.agrees);
+
+  let confidence: MetadataConfidence;
+  if (supporting >= 2) {
+    confidence = disputed ? "medium" : "high";
+  } else {
+    confidence = disputed || chosen.source === AI_SOURCE ? "low" : "medium";
+  }
+
+  return { value: chosen.value, source: chosen.source, confidence, claims: marked };
+}
+
+// Compare the genre and release year each catalog reported with what the
+// model claimed. Catalog data wins over the model; disagreements are kept as
+// claims that don't agree with the chosen value.
+export function reconcileMetadata(catalog: CatalogClaim[], ai: AiClaims = {}): MetadataReconciliation {
+  const genreClaims: Claim<string>[] = [];
+  const yearClaims: Claim<number>[] = [];
+
+  for (const { source, genre, year } of [...catalog, { source: AI_SOURCE, ...ai }]) {
+    if (genre?.trim()) genreClaims.push({ source, value: genre.trim() });
+    if (year) yearClaims.push({ source, value: year });
+  }
+
+  // Catalogs are listed most trusted first; for years, reissues and
+  // compilations carry later dates, so the earliest is the likelier original
+  const genre = reconcileField(genreClaims, genresAgree, () => 0);
+  const year = reconcileField(yearClaims, yearsAgree, (a, b) => a.value - b.value);
+
+  const fields = [genre, year];
+  const verified =
+    fields.every((field) => field.claims.every((claim) => claim.agrees)) &&
+    fields.some((field) => field.confidence === "high");
+
+  return { genre, year, verified };
+}
+
+// The catalog claims behind an earlier reconciliation, so a regenerated
+// analysis can be checked against the same lookups
+export function catalogClaimsFrom(metadata: AnalysisMetadata | null): CatalogClaim[] {
+  const reconciliation = metadata?.reconciliation;
+
+  if (!reconciliation) {
+    return metadata && (metadata.catalogGenre || metadata.catalogYear)
+      ? [{ source: "Catalog", genre: metadata.catalogGenre ?? undefined, year: metadata.catalogYear ?? undefined }]
+      : [];
+  }
+
+  const claims = new Map<string, CatalogClaim>();
+  const claimFor = (source: string) => {
+    if (!claims.has(source)) claims.set(source, { source });
+    return claims.get(source)!;
+  };
+
+  for (const claim of reconciliation.genre.claims) {
+    if (claim.source !== AI_SOURCE) claimFor(claim.source).genre = claim.value;
+  }
+  for (const claim of reconciliation.year.claims) {
+    if (claim.source !== AI_SOURCE) claimFor(claim.source).year = claim.value;
+  }
+
+  return Array.from(claims.values());
+}
@@ -1,55 +1,169 @@
-import OpenAI from "openai";
+import {
+  getAnalysisProvider,
+  type ChatMessage,
+  type CompletionRequest,
+  type CompletionResult,
+  type TokenHandler,
+} from "./analysisProvider";
+import { renderPrompt } from "./prompts";
+import { recordUsage, type UsageContext } from "./usageLedger";
+import { ProviderError } from "./resilientProvider";
+import { interpretiveDevices, type DeviceFinding } from "./literaryDevices";
+import type {
+  AnalysisAudience,
+  AnalysisDepth,
+  AnalysisPersona,
+  AnalysisSection,
+  LessonActivity,
+  QuizDifficulty,
+  QuizQuestion,
+  SongAnalysis,
+} from "@shared/schema";
 
-// the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-const openai = new OpenAI({ 
-  apiKey: process.env.OPENAI_API_KEY || process.env.OPENAI_KEY || "default_key"
-});
+export type { TokenHandler } from "./analysisProvider";
 
 export interface LyricsAnalysis {
   meaning: string;
   themes: string[];
   mood: string;
   interpretation: string;
+  // Extra sections produced by the deep dive mode
+  sections?: AnalysisSection[];
+}
+
+// Regenerating an analysis: the model sees its previous take and the
+// reader's guidance for the new one
+export interface AnalysisRevisionRequest {
+  previous: string;
+  guidance?: string;
+}
+
+export interface AnalysisOptions {
+  depth?: AnalysisDepth;
+  persona?: AnalysisPersona;
+  // The user's persona description when persona is "custom"
+  customPersona?: string | null;
+  audience?: AnalysisAudience;
+  onToken?: TokenHandler;
+  usage?: UsageContext;
+  revision?: AnalysisRevisionRequest;
+}
+
+// Response length for each analysis depth. The depth's format and sections
+// are part of the prompt templates in server/prompts.ts.
+const depthMaxTokens: Record<AnalysisDepth, { lyrics: number; songMeaning: number }> = {
+  quick: { lyrics: 300, songMeaning: 200 },
+  standard: { lyrics: 800, songMeaning: 400 },
+  deep: { lyrics: 1600, songMeaning: 1200 },
+};
+
+// Variables that select the depth, persona and audience fragments of the
+// analysis templates. A custom persona nobody has described falls back to
+// the critic.
+function analysisVariables(
+  depth: AnalysisDepth,
+  persona: AnalysisPersona,
+  customPersona: string | null | undefined,
+  audience: AnalysisAudience
+): Record<string, string> {
+  const described = persona !== "custom" || !!customPersona;
+  return {
+    depth,
+    persona: described ? persona : "critic",
+    customPersona: customPersona ?? "",
+    audience,
+  };
+}
+
+// Runs a completion on the configured provider, recording its token usage
+// against the caller when one is given. Failed calls are recorded as well.
+async function complete(
+  request: CompletionRequest,
+  usage?: UsageContext,
+  onToken?: TokenHandler
+): Promise<CompletionResult> {
+  const provider = getAnalysisProvider();
+  const startedAt = Date.now();
+  let result: CompletionResult;
+
+  try {
+    result = await provider.complete(request, onToken);
+  } catch (error) {
+    if (usage) {
+      const outcome = error instanceof ProviderError && error.code === "timeout" ? "timeout" : "error";
+      await recordUsage(usage, request.task, provider.name, { model: provider.model }, Date.now() - startedAt, outcome);
+    }
+    throw error;
+  }
+
+  if (usage) {
+    await recordUsage(usage, request.task, provider.name, result, Date.now() - startedAt);
+  }
+
+  return result;
+}
+
+function revisionMessages(revision?: AnalysisRevisionRequest): ChatMessage[] {
+  if (!revision) return [];
+
+  const prompt = renderPrompt("analysis-revision", {
+    guidance: revision.guidance?.trim() || "none given; take a fresh angle on the song",
+  });
+
+  return [
+    { role: "assistant", content: revision.previous },
+    { role: "user", content: prompt.user },
+  ];
+}
+
+// Self-hosted models without JSON mode tend to wrap JSON in prose or code
+// fences, so parse the outermost object
+function parseJsonContent(content: string): any {
+  const start = content.indexOf("{");
+  const end = content.lastIndexOf("}");
+  return JSON.parse(start >= 0 && end > start ? content.slice(start, end + 1) : "{}");
 }
 
 export async function analyzeLyrics(
   songTitle: string,
   artist: string,
-  lyrics: string
+  lyrics: string,
+  { depth = "standard", persona = "critic", customPersona, audience = "general", onToken, usage, revision }: AnalysisOptions = {}
 ): Promise<LyricsAnalysis> {
   try {
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
+    const prompt = renderPrompt("lyrics-analysis", {
+      title: songTitle,
+      artist,
+      lyrics,
+      ...analysisVariables(depth, persona, customPersona, audience),
+    });
+
+    const { content } = await complete({
+      task: "lyrics-analysis",
       messages: [
-        {
-          role: "system",
-          content: `Adopt the voice of a seasoned lyricist and literary critic. Imagine you've spent years dissecting songs from all eras and all music genres. Your tone should be thoughtful, precise, direct—no fluff and no vague generalities. Your goal is to provide deep, insightful analysis of song lyrics.  Respond with JSON in this exact format:
-          {
-            "meaning": "A comprehensive explanation of the song's overall meaning and message",
-            "themes": ["array", "of", "main", "themes"],
-            "mood": "overall emotional tone/mood",
-            "interpretation": "deeper artistic interpretation and context"
-          }`
-        },
-        {
-          role: "user",
-          content: `Analyze the lyrics of "${songTitle}" by ${artist}. Here are the lyrics:\n\n${lyrics}\n\nProvide a thoughtful analysis of the song's meaning, themes, mood, and interpretation.`
-        }
+        { role: "system", content: prompt.system },
+        { role: "user", content: prompt.user },
+        ...revisionMessages(revision)
       ],
-      response_format: { type: "json_object" },
-      max_tokens: 800
-    });
+      json: true,
+      maxTokens: depthMaxTokens[depth].lyrics
+    }, usage, onToken);
 
-    const result = JSON.parse(response.choices[0].message.content || "{}");
+    const result = parseJsonContent(content);
     
     return {
       meaning: result.meaning || "Unable to analyze the meaning of this song.",
       themes: Array.isArray(result.themes) ? result.themes : [],
       mood: result.mood || "Unknown",
-      interpretation: result.interpretation || "No additional interpretation available."
+      interpretation: result.interpretation || "No additional interpretation available.",
+      sections: Array.isArray(result.sections)
+        ? result.sections.filter((section: any) => typeof section?.heading === "string" && typeof section?.body === "string")
+        : undefined
     };
   } catch (error) {
-    console.error("Error analyzing lyrics with OpenAI:", error);
+    console.error("Error analyzing lyrics:", error);
+    // Keep the code so routes can tell the client why the provider failed
+    if (error instanceof ProviderError) throw error;
     throw new Error("Failed to analyze lyrics: " + (error instanceof Error ? error.message : "Unknown error"));
   }
 }
@@ -58,54 +172,478 @@ export async function generateSongMeaning(
   songTitle: string,
   artist: string,
   genre?: string,
-  year?: number
+  year?: number,
+  { depth = "standard", persona = "critic", customPersona, audience = "general", onToken, usage, revision }: AnalysisOptions = {}
 ): Promise<string> {
   try {
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
+    const prompt = renderPrompt("song-meaning", {
+      title: songTitle,
+      artist,
+      details: `${genre ? ` (${genre})` : ""}${year ? ` from ${year}` : ""}`,
+      ...analysisVariables(depth, persona, customPersona, audience),
+    });
+
+    const { content } = await complete({
+      task: "song-meaning",
       messages: [
-        {
-          role: "system",
-          content: `Adopt the voice of a seasoned lyricist and literary critic; Your goal is to provide original and insightful analysis of song lyrics'
+        { role: "system", content: prompt.system },
+        { role: "user", content: prompt.user },
+        ...revisionMessages(revision)
+      ],
+      maxTokens: depthMaxTokens[depth].songMeaning
+    }, usage, onToken);
 
-METADATA EXTRACTION: 
-- If the user input contains both the song and artist (e.g., "Bohemian Rhapsody Queen" or "Hotel California by Eagles"), extract clean song title and name of the artist and return separately
-- Always return the accurate genre and release year from the metadata
-- Format metadata as shown here: Genre: [genre], Release Year: [year]
+    return content || "Unable to generate analysis for this song.";
+  } catch (error) {
+    console.error("Error generating song meaning:", error);
+    if (error instanceof ProviderError) throw error;
+    throw new Error("Failed to generate song meaning: " + (error instanceof Error ? error.message : "Unknown error"));
+  }
+}
 
-ANALYSIS FORMAT - Start directly with these headers, no introduction:
+export interface LineAnnotation {
+  startLine: number;
+  endLine: number;
+  explanation: string;
+}
 
-## Core Theme
-Identify the primary message in the lyrics (1-2 sentences)
+export async function annotateLyrics(
+  songTitle: string,
+  artist: string,
+  lyrics: string,
+  granularity: "line" | "stanza",
+  usage?: UsageContext
+): Promise<LineAnnotation[]> {
+  try {
+    const lines = lyrics.split("\n");
+    const numberedLyrics = lines.map((line, index) => `${index + 1}: ${line}`).join("\n");
 
-## Emotional Tone  
-Describe predominant moods and emotional journey
+    const prompt = renderPrompt("lyric-annotations", {
+      title: songTitle,
+      artist,
+      numberedLyrics,
+      granularityInstructions: granularity === "line"
+        ? "Annotate individual lines or couplets that carry meaning worth explaining. Skip filler lines and repeated choruses after their first occurrence."
+        : "Annotate each stanza (verse, chorus, bridge) as a whole. Annotate a repeated chorus only once.",
+    });
 
-## Key Symbolism
-Highlight 2-3 important metaphors, imagery, or recurring motifs
+    const { content } = await complete({
+      task: "lyric-annotations",
+      messages: [
+        { role: "system", content: prompt.system },
+        { role: "user", content: prompt.user }
+      ],
+      json: true,
+      maxTokens: 1500
+    }, usage);
 
-## Personal or Universal?
-Note whether the message is autobiographical or intended to be broadly relatable
+    const result = parseJsonContent(content);
+    const annotations: any[] = Array.isArray(result.annotations) ? result.annotations : [];
 
-End your analysis with this exact format:
-Genre: [actual genre]
-Release Year: [actual year]
+    // Keep only well-formed ranges that fall inside the lyrics
+    return annotations
+      .filter((annotation) =>
+        Number.isInteger(annotation.startLine) &&
+        Number.isInteger(annotation.endLine) &&
+        typeof annotation.explanation === "string" &&
+        annotation.explanation.trim()
+      )
+      .map((annotation) => ({
+        startLine: Math.max(1, Math.min(annotation.startLine, annotation.endLine)),
+        endLine: Math.min(lines.length, Math.max(annotation.startLine, annotation.endLine)),
+        explanation: annotation.explanation.trim(),
+      }))
+      .filter((annotation) => annotation.startLine <= annotation.endLine)
+      .sort((a, b) => a.startLine - b.startLine);
+  } catch (error) {
+    console.error("Error annotating lyrics:", error);
+    if (error instanceof ProviderError) throw error;
+    throw new Error("Failed to annotate lyrics: " + (error instanceof Error ? error.message : "Unknown error"));
+  }
+}
+
+export async function detectLiteraryDevices(
+  songTitle: string,
+  artist: string,
+  lyrics: string,
+  usage?: UsageContext
+): Promise<DeviceFinding[]> {
+  try {
+    const lines = lyrics.split("\n");
+    const numberedLyrics = lines.map((line, index) => `${index + 1}: ${line}`).join("\n");
 
-IMPORTANT: Do not include "Analysis of..." headers. Focus on providing accurate metadata from your knowledge.`
-        },
-        {
-          role: "user",
-          content: `Analyze the song "${songTitle}" by ${artist}${genre ? ` (${genre})` : ""}${year ? ` from ${year}` : ""}. 
+    const prompt = renderPrompt("literary-devices", {
+      title: songTitle,
+      artist,
+      numberedLyrics,
+    });
 
-Use your knowledge to provide accurate genre and release year information for this song in your analysis. Follow the exact format specified in the system prompt starting with "## Core Theme". Do not include any title header or "Analysis of..." text.`
-        }
+    const { content } = await complete({
+      task: "literary-devices",
+      messages: [
+        { role: "system", content: prompt.system },
+        { role: "user", content: prompt.user }
       ],
-      max_tokens: 400
+      json: true,
+      maxTokens: 1500
+    }, usage);
+
+    const result = parseJsonContent(content);
+    const devices: any[] = Array.isArray(result.devices) ? result.devices : [];
+
+    // Keep only the devices the model is asked for, on ranges inside the lyrics
+    return devices
+      .filter((device) =>
+        interpretiveDevices.includes(device.device) &&
+        Number.isInteger(device.startLine) &&
+        Number.isInteger(device.endLine) &&
+        typeof device.excerpt === "string" &&
+        typeof device.explanation === "string" &&
+        device.explanation.trim()
+      )
+      .map((device) => ({
+        device: device.device,
+        startLine: Math.max(1, Math.min(device.startLine, device.endLine)),
+        endLine: Math.min(lines.length, Math.max(device.startLine, device.endLine)),
+        excerpt: device.excerpt.trim(),
+        explanation: device.explanation.trim(),
+        source: "llm" as const,
+      }))
+      .filter((device) => device.startLine <= device.endLine);
+  } catch (error) {
+    console.error("Error detecting literary devices:", error);
+    if (error instanceof ProviderError) throw error;
+    throw new Error("Failed to detect literary devices: " + (error instanceof Error ? error.message : "Unknown error"));
+  }
+}
+
+// Stored analysis (and lyrics, when we have them) as grounding context for
+// follow-up prompts
+function formatAnalysisContext(analysis: SongAnalysis): string {
+  const parts = [
+    `Song: "${analysis.title}" by ${analysis.artist}`,
+    analysis.genre ? `Genre: ${analysis.genre}` : null,
+    analysis.yearReleased ? `Release Year: ${analysis.yearReleased}` : null,
+    analysis.themes.length > 0 ? `Themes: ${analysis.themes.join(", ")}` : null,
+    analysis.mood ? `Mood: ${analysis.mood}` : null,
+    "",
+    "ANALYSIS:",
+    ...(analysis.sections.length > 0
+      ? analysis.sections.map((section) => `## ${section.heading}\n${section.body}`)
+      : [analysis.lyricsAnalysis]),
+  ];
+
+  if (analysis.lyrics) {
+    parts.push("", "LYRICS:", analysis.lyrics);
+  }
+
+  return parts.filter((part) => part !== null).join("\n");
+}
+
+export async function answerFollowUpQuestion(
+  analysis: SongAnalysis,
+  history: ChatMessage[],
+  question: string,
+  usage?: UsageContext
+): Promise<string> {
+  try {
+    const prompt = renderPrompt("song-chat", {
+      context: formatAnalysisContext(analysis),
+      question,
     });
 
-    return response.choices[0].message.content || "Unable to generate analysis for this song.";
+    const { content } = await complete({
+      task: "song-chat",
+      messages: [
+        { role: "system", content: prompt.system },
+        ...history,
+        { role: "user", content: prompt.user }
+      ],
+      maxTokens: 500
+    }, usage);
+
+    return content || "I'm not sure how to answer that about this song.";
   } catch (error) {
-    console.error("Error generating song meaning with OpenAI:", error);
-    throw new Error("Failed to generate song meaning: " + (error instanceof Error ? error.message : "Unknown error"));
+    console.error("Error answering follow-up question:", error);
+    if (error instanceof ProviderError) throw error;
+    throw new Error("Failed to answer question: " + (error instanceof Error ? error.message : "Unknown error"));
+  }
+}
+
+export interface AlbumNarrative {
+  summary: string;
+  themes: string[];
+  sections: AnalysisSection[];
+}
+
+export async function analyzeAlbumNarrative(
+  album: { title: string; artist: string; year?: number },
+  tracks: { position: number; title: string; analysis: SongAnalysis | null }[],
+  usage?: UsageContext
+): Promise<AlbumNarrative> {
+  try {
+    const trackSummaries = tracks.map(({ position, title, analysis }) => [
+      `${position}. "${title}"`,
+      analysis?.themes.length ? `Themes: ${analysis.themes.join(", ")}` : null,
+      analysis?.mood ? `Mood: ${analysis.mood}` : null,
+      analysis?.meaning ? `Meaning: ${analysis.meaning}` : analysis ? null : "(not analyzed)",
+    ].filter(Boolean).join("\n"));
+
+    const prompt = renderPrompt("album-analysis", {
+      title: album.title,
+      artist: album.artist,
+      year: album.year ? ` (${album.year})` : "",
+      tracks: trackSummaries.join("\n\n"),
+    });
+
+    const { content } = await complete({
+      task: "album-analysis",
+      messages: [
+        { role: "system", content: prompt.system },
+        { role: "user", content: prompt.user }
+      ],
+      json: true,
+      maxTokens: 1500
+    }, usage);
+
+    const result = parseJsonContent(content);
+
+    return {
+      summary: result.summary || "Unable to analyze this album as a whole.",
+      themes: Array.isArray(result.themes) ? result.themes.filter((theme: unknown) => typeof theme === "string") : [],
+      sections: Array.isArray(result.sections)
+        ? result.sections.filter((section: any) => typeof section?.heading === "string" && typeof section?.body === "string")
+        : []
+    };
+  } catch (error) {
+    console.error("Error analyzing album:", error);
+    if (error instanceof ProviderError) throw error;
+    throw new Error("Failed to analyze album: " + (error instanceof Error ? error.message : "Unknown error"));
+  }
+}
+
+export async function synthesizeArtistLens(
+  artist: string,
+  songs: SongAnalysis[],
+  usage?: UsageContext
+): Promise<string> {
+  try {
+    // Oldest first, so the model can speak to how the writing changed
+    const summaries = [...songs]
+      .sort((a, b) => (a.yearReleased ?? Infinity) - (b.yearReleased ?? Infinity))
+      .map((song) => [
+        `"${song.title}"${song.yearReleased ? ` (${song.yearReleased})` : ""}`,
+        song.themes.length > 0 ? `Themes: ${song.themes.join(", ")}` : null,
+        song.mood ? `Mood: ${song.mood}` : null,
+        song.meaning ? `Meaning: ${song.meaning}` : null,
+      ].filter(Boolean).join("\n"));
+
+    const prompt = renderPrompt("artist-lens", {
+      artist,
+      songs: summaries.join("\n\n"),
+    });
+
+    const { content } = await complete({
+      task: "artist-lens",
+      messages: [
+        { role: "system", content: prompt.system },
+        { role: "user", content: prompt.user }
+      ],
+      maxTokens: 600
+    }, usage);
+
+    return content.trim() || `Not enough material yet to describe ${artist}'s songwriting.`;
+  } catch (error) {
+    console.error("Error synthesizing artist lens:", error);
+    if (error instanceof ProviderError) throw error;
+    throw new Error("Failed to synthesize artist lens: " + (error instanceof Error ? error.message : "Unknown error"));
+  }
+}
+
+export interface SongComparisonResult {
+  summary: string;
+  sharedThemes: string[];
+  sections: AnalysisSection[];
+}
+
+export async function compareSongs(
+  left: SongAnalysis,
+  right: SongAnalysis,
+  usage?: UsageContext
+): Promise<SongComparisonResult> {
+  try {
+    const prompt = renderPrompt("song-comparison", {
+      left: formatAnalysisContext(left),
+      right: formatAnalysisContext(right),
+    });
+
+    const { content } = await complete({
+      task: "song-comparison",
+      messages: [
+        { role: "system", content: prompt.system },
+        { role: "user", content: prompt.user }
+      ],
+      json: true,
+      maxTokens: 1200
+    }, usage);
+
+    const result = parseJsonContent(content);
+
+    return {
+      summary: result.summary || "Unable to compare these songs.",
+      sharedThemes: Array.isArray(result.sharedThemes) ? result.sharedThemes : [],
+      sections: Array.isArray(result.sections)
+        ? result.sections.filter((section: any) => typeof section?.heading === "string" && typeof section?.body === "string")
+        : []
+    };
+  } catch (error) {
+    console.error("Error comparing songs:", error);
+    if (error instanceof ProviderError) throw error;
+    throw new Error("Failed to compare songs: " + (error instanceof Error ? error.message : "Unknown error"));
+  }
+}
+
+// Questions asked at each quiz difficulty. The difficulty's instructions are
+// part of the song-quiz template in server/prompts.ts.
+const quizQuestionCounts: Record<QuizDifficulty, number> = {
+  easy: 5,
+  medium: 6,
+  hard: 8,
+};
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === "string" && item.trim());
+}
+
+// Keep the well-formed questions, with the correct choice copied into answer
+// so the key reads the same for both question types
+function toQuizQuestion(question: any): QuizQuestion | null {
+  if (typeof question?.question !== "string" || typeof question?.explanation !== "string") {
+    return null;
   }
-}
\ No newline at end of file
+
+  if (question.type === "multiple-choice") {
+    if (!isStringList(question.choices) || question.choices.length < 2) return null;
+    if (!Number.isInteger(question.answerIndex) || !question.choices[question.answerIndex]) return null;
+
+    return {
+      type: "multiple-choice",
+      question: question.question.trim(),
+      choices: question.choices.map((choice: string) => choice.trim()),
+      answerIndex: question.answerIndex,
+      answer: question.choices[question.answerIndex].trim(),
+      explanation: question.explanation.trim(),
+    };
+  }
+
+  if (question.type === "short-answer") {
+    if (typeof question.answer !== "string" || !isStringList(question.keywords) || question.keywords.length === 0) {
+      return null;
+    }
+
+    return {
+      type: "short-answer",
+      question: question.question.trim(),
+      answer: question.answer.trim(),
+      keywords: question.keywords.map((keyword: string) => keyword.trim()),
+      explanation: question.explanation.trim(),
+    };
+  }
+
+  return null;
+}
+
+export async function generateQuizQuestions(
+  analysis: SongAnalysis,
+  difficulty: QuizDifficulty,
+  usage?: UsageContext
+): Promise<QuizQuestion[]> {
+  try {
+    const count = quizQuestionCounts[difficulty];
+    const prompt = renderPrompt("song-quiz", {
+      difficulty,
+      count: String(count),
+      context: formatAnalysisContext(analysis),
+    });
+
+    const { content } = await complete({
+      task: "song-quiz",
+      messages: [
+        { role: "system", content: prompt.system },
+        { role: "user", content: prompt.user }
+      ],
+      json: true,
+      maxTokens: 2000
+    }, usage);
+
+    const result = parseJsonContent(content);
+    const questions: unknown[] = Array.isArray(result.questions) ? result.questions : [];
+
+    return questions
+      .map(toQuizQuestion)
+      .filter((question): question is QuizQuestion => question !== null)
+      .slice(0, count);
+  } catch (error) {
+    console.error("Error generating quiz:", error);
+    if (error instanceof ProviderError) throw error;
+    throw new Error("Failed to generate quiz: " + (error instanceof Error ? error.message : "Unknown error"));
+  }
+}
+
+export interface LessonPlanContent {
+  title: string;
+  overview: string;
+  objectives: string[];
+  discussionPrompts: string[];
+  activities: LessonActivity[];
+}
+
+export async function generateLessonPlan(
+  songs: SongAnalysis[],
+  { durationMinutes, audience }: { durationMinutes: number; audience: AnalysisAudience },
+  usage?: UsageContext
+): Promise<LessonPlanContent> {
+  try {
+    const prompt = renderPrompt("lesson-plan", {
+      duration: String(durationMinutes),
+      audience,
+      songs: songs.map(formatAnalysisContext).join("\n\n---\n\n"),
+    });
+
+    const { content } = await complete({
+      task: "lesson-plan",
+      messages: [
+        { role: "system", content: prompt.system },
+        { role: "user", content: prompt.user }
+      ],
+      json: true,
+      maxTokens: 2000
+    }, usage);
+
+    const result = parseJsonContent(content);
+    const strings = (value: unknown) =>
+      Array.isArray(value) ? value.filter((item): item is string => typeof item === "string" && !!item.trim()) : [];
+
+    return {
+      title: typeof result.title === "string" && result.title.trim()
+        ? result.title.trim()
+        : songs.map((song) => song.title).join(" & "),
+      overview: result.overview || "Unable to write an overview for this lesson.",
+      objectives: strings(result.objectives),
+      discussionPrompts: strings(result.discussionPrompts),
+      activities: Array.isArray(result.activities)
+        ? result.activities
+          .filter((activity: any) => typeof activity?.title === "string" && typeof activity?.description === "string")
+          .map((activity: any) => ({
+            title: activity.title.trim(),
+            minutes: Number.isFinite(activity.minutes) ? Math.max(0, Math.round(activity.minutes)) : 0,
+            description: activity.description.trim(),
+          }))
+        : []
+    };
+  } catch (error) {
+    console.error("Error generating lesson plan:", error);
+    if (error instanceof ProviderError) throw error;
+    throw new Error("Failed to generate lesson plan: " + (error instanceof Error ? error.message : "Unknown error"));
+  }
+}
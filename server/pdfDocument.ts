@@ -0,0 +1,187 @@
+// Minimal PDF writer for text documents: word-wrapped paragraphs in the
+// standard Helvetica fonts on US Letter pages. Enough for printable exports
+// without pulling in a PDF library.
+
+export type PdfFont = "regular" | "bold" | "italic";
+
+export interface PdfParagraph {
+  text: string;
+  font?: PdfFont;
+  size?: number;
+  // Extra space above the paragraph, in points
+  spaceBefore?: number;
+  // Bullet or number drawn in the left margin of the first line
+  marker?: string;
+  indent?: number;
+}
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 72;
+const LINE_SPACING = 1.35;
+
+const fontResources: Record<PdfFont, { name: string; baseFont: string }> = {
+  regular: { name: "F1", baseFont: "Helvetica" },
+  bold: { name: "F2", baseFont: "Helvetica-Bold" },
+  italic: { name: "F3", baseFont: "Helvetica-Oblique" },
+};
+
+// Helvetica advance widths for ASCII 32-126, in thousandths of the font size
+const helveticaWidths = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+// Typographic punctuation outside Latin-1 that WinAnsiEncoding still has
+const winAnsiExtras: Record<string, number> = {
+  "‘": 0x91, "’": 0x92, "“": 0x93, "”": 0x94,
+  "•": 0x95, "–": 0x96, "—": 0x97, "…": 0x85,
+};
+
+// Re-encode as WinAnsi, one char per byte; anything it can't show becomes "?"
+function toWinAnsi(text: string): string {
+  let encoded = "";
+  for (const char of text.replace(/\s+/g, " ")) {
+    const code = char.charCodeAt(0);
+    if (winAnsiExtras[char]) {
+      encoded += String.fromCharCode(winAnsiExtras[char]);
+    } else if ((code >= 32 && code <= 126) || (code >= 0xa0 && code <= 0xff)) {
+      encoded += char;
+    } else {
+      encoded += "?";
+    }
+  }
+  return encoded;
+}
+
+// Bold runs wider than regular; scaling the regular widths keeps wrapping
+// on the safe side without a second table
+function textWidth(text: string, font: PdfFont, size: number): number {
+  let units = 0;
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    units += code >= 32 && code <= 126 ? helveticaWidths[code - 32] : 556;
+  }
+  return (units * size * (font === "bold" ? 1.08 : 1)) / 1000;
+}
+
+function wrap(text: string, font: PdfFont, size: number, width: number): string[] {
+  const lines: string[] = [];
+  let line = "";
+
+  for (const word of text.split(" ").filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && textWidth(candidate, font, size) > width) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+
+  if (line) lines.push(line);
+  return lines;
+}
+
+function escapeString(text: string): string {
+  let escaped = "";
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    if (char === "\\" || char === "(" || char === ")") {
+      escaped += `\\${char}`;
+    } else if (code > 126) {
+      escaped += `\\${code.toString(8).padStart(3, "0")}`;
+    } else {
+      escaped += char;
+    }
+  }
+  return escaped;
+}
+
+function drawText(text: string, font: PdfFont, size: number, x: number, y: number): string {
+  return `BT /${fontResources[font].name} ${size} Tf ${x.toFixed(2)} ${y.toFixed(2)} Td (${escapeString(text)}) Tj ET`;
+}
+
+// Lay the paragraphs out top to bottom, starting a new page when one fills up
+function layout(paragraphs: PdfParagraph[]): string[][] {
+  const pages: string[][] = [[]];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  for (const paragraph of paragraphs) {
+    const font = paragraph.font ?? "regular";
+    const size = paragraph.size ?? 11;
+    const indent = paragraph.indent ?? 0;
+    const lineHeight = size * LINE_SPACING;
+    const text = toWinAnsi(paragraph.text);
+    const marker = paragraph.marker ? toWinAnsi(paragraph.marker) : "";
+    const markerWidth = marker ? textWidth(`${marker} `, font, size) : 0;
+    const left = MARGIN + indent + markerWidth;
+    const lines = wrap(text, font, size, PAGE_WIDTH - MARGIN - left);
+
+    y -= paragraph.spaceBefore ?? 0;
+
+    lines.forEach((line, index) => {
+      if (y - lineHeight < MARGIN) {
+        pages.push([]);
+        y = PAGE_HEIGHT - MARGIN;
+      }
+      y -= lineHeight;
+
+      const page = pages[pages.length - 1];
+      if (index === 0 && marker) {
+        page.push(drawText(marker, font, size, MARGIN + indent, y));
+      }
+      page.push(drawText(line, font, size, left, y));
+    });
+  }
+
+  return pages;
+}
+
+export function renderPdf(paragraphs: PdfParagraph[], title: string): Buffer {
+  const pages = layout(paragraphs);
+  const fonts = Object.values(fontResources);
+
+  // Objects 1-2 are the catalog and page tree, then the info dictionary and
+  // fonts, then a page and its content stream for each page
+  const infoId = 3;
+  const firstFontId = 4;
+  const firstPageId = firstFontId + fonts.length;
+  const pageIds = pages.map((_, index) => firstPageId + index * 2);
+
+  const fontRefs = fonts.map((font, index) => `/${font.name} ${firstFontId + index} 0 R`).join(" ");
+  const objects: string[] = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`,
+    `<< /Title (${escapeString(toWinAnsi(title))}) /Producer (Lyric Sensei) >>`,
+    ...fonts.map((font) => `<< /Type /Font /Subtype /Type1 /BaseFont /${font.baseFont} /Encoding /WinAnsiEncoding >>`),
+  ];
+
+  pages.forEach((commands, index) => {
+    const content = commands.join("\n");
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << ${fontRefs} >> >> /Contents ${pageIds[index] + 1} 0 R >>`,
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+    );
+  });
+
+  // Every char is a single byte (WinAnsi), so string offsets are byte offsets
+  let pdf = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  objects.forEach((object, index) => {
+    offsets.push(pdf.length);
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, "latin1");
+}
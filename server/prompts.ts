@@ -0,0 +1,549 @@
+// Versioned prompt templates. Never edit a published version in place: add a
+// new version below it so stored analyses stay traceable to the exact prompt
+// that produced them, and older versions remain available for rollback.
+//
+// Templates interpolate {{variable}} placeholders. The latest version of each
+// template is active unless pinned with PROMPT_VERSIONS, e.g.
+// PROMPT_VERSIONS="lyrics-analysis=1,song-meaning=1"
+
+// Text a template takes from one of the caller's variables, such as the JSON
+// format for the requested analysis depth. Options may hold placeholders too.
+export interface PromptFragment {
+  selectedBy: string;
+  options: Record<string, string>;
+}
+
+export interface PromptTemplate {
+  id: string;
+  version: number;
+  description: string;
+  system: string;
+  user: string;
+  // Placeholders filled with the option of the fragment the caller selected
+  fragments?: Record<string, PromptFragment>;
+}
+
+export interface RenderedPrompt {
+  id: string;
+  version: number;
+  system: string;
+  user: string;
+}
+
+// Fragments belong to the template versions that use them and are published
+// along with them. Register a new fragment for a new version instead of
+// editing one in place.
+
+// Response format for each analysis depth (lyrics-analysis v2 and later)
+const analysisDepthFormats: PromptFragment = {
+  selectedBy: "depth",
+  options: {
+    quick: `{
+            "meaning": "Two or three sentences on what the song is about",
+            "themes": ["two", "or", "three", "themes"],
+            "mood": "overall emotional tone/mood in a few words",
+            "interpretation": "One sentence on the most interesting artistic choice"
+          }`,
+    standard: `{
+            "meaning": "A comprehensive explanation of the song's overall meaning and message",
+            "themes": ["array", "of", "main", "themes"],
+            "mood": "overall emotional tone/mood",
+            "interpretation": "deeper artistic interpretation and context"
+          }`,
+    deep: `{
+            "meaning": "A comprehensive explanation of the song's overall meaning and message",
+            "themes": ["array", "of", "main", "themes"],
+            "mood": "overall emotional tone/mood",
+            "interpretation": "deeper artistic interpretation and context",
+            "sections": [
+              { "heading": "Structure", "body": "how the verses, chorus and bridge build and shift the song's argument" },
+              { "heading": "Literary Devices", "body": "metaphor, imagery, repetition, rhyme and other devices, quoting the lines that use them" },
+              { "heading": "Historical Context", "body": "when and why the song was written, the artist's situation and how it was received" }
+            ]
+          }`,
+  },
+};
+
+// Sections to write for each analysis depth (song-meaning v2 and later)
+const songMeaningDepthSections: PromptFragment = {
+  selectedBy: "depth",
+  options: {
+    quick: `## Core Theme
+Identify the primary message in the lyrics (1-2 sentences)
+
+## Emotional Tone
+Describe the predominant mood (1 sentence)`,
+    standard: `## Core Theme
+Identify the primary message in the lyrics (1-2 sentences)
+
+## Emotional Tone  
+Describe predominant moods and emotional journey
+
+## Key Symbolism
+Highlight 2-3 important metaphors, imagery, or recurring motifs
+
+## Personal or Universal?
+Note whether the message is autobiographical or intended to be broadly relatable`,
+    deep: `## Core Theme
+Identify the primary message in the lyrics (2-3 sentences)
+
+## Emotional Tone
+Describe predominant moods and emotional journey, verse by verse
+
+## Key Symbolism
+Highlight the important metaphors, imagery, and recurring motifs
+
+## Song Structure
+Explain how the verses, chorus and bridge build and shift the song's message
+
+## Literary Devices
+Identify devices such as metaphor, allusion, repetition and rhyme, quoting the lines that use them
+
+## Historical Context
+Place the song in the artist's career and its era, and note how it was received
+
+## Personal or Universal?
+Note whether the message is autobiographical or intended to be broadly relatable`,
+  },
+};
+
+// Opening of the analysis system prompts for each persona (v3 and later)
+const analysisPersonaVoices: PromptFragment = {
+  selectedBy: "persona",
+  options: {
+    critic: "Adopt the voice of a seasoned lyricist and literary critic. Imagine you've spent years dissecting songs from all eras and all music genres. Your tone should be thoughtful, precise, direct—no fluff and no vague generalities.",
+    historian: "Adopt the voice of a music historian. Place the song in its era, its scene and the artist's career, and draw on the records, movements and events that shaped it. Your tone should be informed and precise—no fluff and no vague generalities.",
+    teacher: "Adopt the voice of a high-school English teacher walking a class through the song. Explain ideas and literary terms plainly, point to the lines that show them, and end with a question worth discussing.",
+    fan: "Adopt the voice of a fellow fan who knows the artist's catalog inside out, talking the song over with a friend. Be warm and enthusiastic about what makes it land, but stay specific about the lyrics.",
+    coach: "Adopt the voice of a songwriting coach. Treat the song as a piece of craft: the choices in structure, rhyme, imagery and point of view, why they work, and what a songwriter could learn from them.",
+    custom: "Adopt the voice of {{customPersona}}. Stay accurate and specific about the song—no fluff and no vague generalities.",
+  },
+};
+
+// Reading level for each audience, after the persona's voice (v4 and later)
+const analysisAudienceLevels: PromptFragment = {
+  selectedBy: "audience",
+  options: {
+    general: "Write for a general adult reader who loves music but may not know literary terms.",
+    "middle-school": "Write for middle-school students, ages 11 to 14: use everyday words and short sentences, explain any literary term the first time it appears, and keep every part brief. Handle mature themes such as drugs, sex and violence with care—name them plainly, without graphic detail, and don't quote explicit lines.",
+    "high-school": "Write for high-school students, ages 14 to 18: use clear vocabulary, give a one-line definition with each literary term, and keep parts to a moderate length. Discuss mature themes honestly and in context, without graphic detail or dwelling on explicit language.",
+    university: "Write for university students: use precise critical vocabulary without defining standard terms, go into depth, and engage with mature themes directly and analytically.",
+  },
+};
+
+// Instructions for each quiz difficulty (song-quiz v1)
+const quizDifficultyInstructions: PromptFragment = {
+  selectedBy: "difficulty",
+  options: {
+    easy: "Make the questions easy: ask about what the lyrics literally say and the song's main theme, with clearly wrong distractors.",
+    medium: "Make the questions moderately hard: ask what key images and lines mean and how the mood and themes come through, with plausible distractors.",
+    hard: "Make the questions hard: ask about subtext, how literary devices work, and how parts of the song relate to each other, with distractors that are close readings gone slightly wrong.",
+  },
+};
+
+// Who the class is for, by audience (lesson-plan v1)
+const lessonPlanAudiences: PromptFragment = {
+  selectedBy: "audience",
+  options: {
+    general: "The class is a group of adults, such as a community or continuing-education course.",
+    "middle-school": "The class is middle-school students, ages 11 to 14: keep tasks concrete, define literary terms, and handle mature themes with care.",
+    "high-school": "The class is high-school students, ages 14 to 18: build toward close reading and discuss mature themes honestly and in context.",
+    university: "The class is university students: expect close reading and critical vocabulary, and engage with mature themes directly.",
+  },
+};
+
+const templates: PromptTemplate[] = [
+  {
+    id: "lyrics-analysis",
+    version: 1,
+    description: "Analysis of a song's lyrics as JSON",
+    system: `Adopt the voice of a seasoned lyricist and literary critic. Imagine you’ve spent years dissecting songs from all eras and all music genres. Your tone should be thoughtful, precise, direct—no fluff and no vague generalities. Your goal is to provide deep, insightful analysis of song lyrics.  Respond with JSON in this exact format:
+          {
+            "meaning": "A summary explanation of the song's overall message",
+            "themes": ["array", "of", "main", "themes"],
+            "mood": "overall emotional tone/mood",
+            "interpretation": "deeper artistic interpretation and context"
+          }`,
+    user: `Analyze the lyrics of "{{title}}" by {{artist}}. Here are the lyrics:\n\n{{lyrics}}\n\n Provide thoughtful analysis of the meaning, themes, mood, and interpretation of these lyrics.`,
+  },
+  {
+    id: "lyrics-analysis",
+    version: 2,
+    description: "Analysis of a song's lyrics as JSON, in the format for the requested depth",
+    system: `Adopt the voice of a seasoned lyricist and literary critic. Imagine you've spent years dissecting songs from all eras and all music genres. Your tone should be thoughtful, precise, direct—no fluff and no vague generalities. Your goal is to provide deep, insightful analysis of song lyrics.  Respond with JSON in this exact format:
+          {{format}}`,
+    user: `Analyze the lyrics of "{{title}}" by {{artist}}. Here are the lyrics:\n\n{{lyrics}}\n\nProvide a thoughtful analysis of the song's meaning, themes, mood, and interpretation.`,
+    fragments: { format: analysisDepthFormats },
+  },
+  {
+    id: "lyrics-analysis",
+    version: 3,
+    description: "Analysis of a song's lyrics as JSON, in the requested depth's format and persona's voice",
+    system: `{{voice}} Your goal is to provide deep, insightful analysis of song lyrics.  Respond with JSON in this exact format:
+          {{format}}`,
+    user: `Analyze the lyrics of "{{title}}" by {{artist}}. Here are the lyrics:\n\n{{lyrics}}\n\nProvide a thoughtful analysis of the song's meaning, themes, mood, and interpretation.`,
+    fragments: { format: analysisDepthFormats, voice: analysisPersonaVoices },
+  },
+  {
+    id: "lyrics-analysis",
+    version: 4,
+    description: "Analysis of a song's lyrics as JSON, in the requested depth's format, persona's voice and audience's reading level",
+    system: `{{voice}} {{audience}} Your goal is to provide deep, insightful analysis of song lyrics.  Respond with JSON in this exact format:
+          {{format}}`,
+    user: `Analyze the lyrics of "{{title}}" by {{artist}}. Here are the lyrics:\n\n{{lyrics}}\n\nProvide a thoughtful analysis of the song's meaning, themes, mood, and interpretation.`,
+    fragments: { format: analysisDepthFormats, voice: analysisPersonaVoices, audience: analysisAudienceLevels },
+  },
+  {
+    id: "song-meaning",
+    version: 1,
+    description: "Single-paragraph song meaning from title and artist alone",
+    system: `Adopt the voice of a seasoned lyricist and literary critic. Provide a meaningful analysis of songs based on the song title, artist, and its genre. Focus on themes, and artistic interpretation. Write a standalone and concise paragraph that captures the core “meaning” of the lyrics—the big takeaway that a listener might have on a first or second listen. This paragraph should be polished enough to stand alone and show up directly in the application under a heading like “What This Song Means.`,
+    user: `Analyze the song "{{title}}" by {{artist}}{{details}}. Provide a summary explanation of its meaning and themes.`,
+  },
+  {
+    id: "song-meaning",
+    version: 2,
+    description: "Sectioned markdown analysis from title and artist when lyrics are unavailable",
+    system: `Adopt the voice of a seasoned lyricist and literary critic; Your goal is to provide original and insightful analysis of song lyrics'
+
+METADATA EXTRACTION:
+- If the user input contains both the song and artist (e.g., "Bohemian Rhapsody Queen" or "Hotel California by Eagles"), extract clean song title and name of the artist and return separately
+- Always return the accurate genre and release year from the metadata
+- Format metadata as shown here: Genre: [genre], Release Year: [year]
+
+ANALYSIS FORMAT - Start directly with these headers, no introduction:
+
+{{sections}}
+
+End your analysis with this exact format:
+Themes: [3-5 main themes, comma-separated]
+Mood: [overall mood in one to three words]
+Genre: [actual genre]
+Release Year: [actual year]
+
+IMPORTANT: Do not include "Analysis of..." headers. Focus on providing accurate metadata from your knowledge.`,
+    user: `Analyze the song "{{title}}" by {{artist}}{{details}}.
+
+Use your knowledge to provide accurate genre and release year information for this song in your analysis. Follow the exact format specified in the system prompt starting with "## Core Theme". Do not include any title header or "Analysis of..." text.`,
+    fragments: { sections: songMeaningDepthSections },
+  },
+  {
+    id: "song-meaning",
+    version: 3,
+    description: "Sectioned markdown analysis from title and artist when lyrics are unavailable, in the persona's voice",
+    system: `{{voice}} Your goal is to provide original and insightful analysis of song lyrics.
+
+METADATA EXTRACTION:
+- If the user input contains both the song and artist (e.g., "Bohemian Rhapsody Queen" or "Hotel California by Eagles"), extract clean song title and name of the artist and return separately
+- Always return the accurate genre and release year from the metadata
+- Format metadata as shown here: Genre: [genre], Release Year: [year]
+
+ANALYSIS FORMAT - Start directly with these headers, no introduction:
+
+{{sections}}
+
+End your analysis with this exact format:
+Themes: [3-5 main themes, comma-separated]
+Mood: [overall mood in one to three words]
+Genre: [actual genre]
+Release Year: [actual year]
+
+IMPORTANT: Do not include "Analysis of..." headers. Focus on providing accurate metadata from your knowledge.`,
+    user: `Analyze the song "{{title}}" by {{artist}}{{details}}.
+
+Use your knowledge to provide accurate genre and release year information for this song in your analysis. Follow the exact format specified in the system prompt starting with "## Core Theme". Do not include any title header or "Analysis of..." text.`,
+    fragments: { sections: songMeaningDepthSections, voice: analysisPersonaVoices },
+  },
+  {
+    id: "song-meaning",
+    version: 4,
+    description: "Sectioned markdown analysis from title and artist when lyrics are unavailable, in the persona's voice and audience's reading level",
+    system: `{{voice}} {{audience}} Your goal is to provide original and insightful analysis of song lyrics.
+
+METADATA EXTRACTION:
+- If the user input contains both the song and artist (e.g., "Bohemian Rhapsody Queen" or "Hotel California by Eagles"), extract clean song title and name of the artist and return separately
+- Always return the accurate genre and release year from the metadata
+- Format metadata as shown here: Genre: [genre], Release Year: [year]
+
+ANALYSIS FORMAT - Start directly with these headers, no introduction:
+
+{{sections}}
+
+End your analysis with this exact format:
+Themes: [3-5 main themes, comma-separated]
+Mood: [overall mood in one to three words]
+Genre: [actual genre]
+Release Year: [actual year]
+
+IMPORTANT: Do not include "Analysis of..." headers. Focus on providing accurate metadata from your knowledge.`,
+    user: `Analyze the song "{{title}}" by {{artist}}{{details}}.
+
+Use your knowledge to provide accurate genre and release year information for this song in your analysis. Follow the exact format specified in the system prompt starting with "## Core Theme". Do not include any title header or "Analysis of..." text.`,
+    fragments: { sections: songMeaningDepthSections, voice: analysisPersonaVoices, audience: analysisAudienceLevels },
+  },
+  {
+    id: "analysis-revision",
+    version: 1,
+    description: "Follow-up turn asking for a new take on a song analysis",
+    system: "",
+    user: `Write a new version of your analysis. The reader's guidance for this version: {{guidance}}
+
+Keep exactly the same output format as before.`,
+  },
+  {
+    id: "lyric-annotations",
+    version: 1,
+    description: "Line or stanza annotations over numbered lyrics as JSON",
+    system: `Adopt the voice of a seasoned lyricist and literary critic. Explain what specific passages of a song mean: the imagery, references, wordplay and how each passage fits the song as a whole. Be concrete and brief—two to four sentences per annotation.
+
+{{granularityInstructions}}
+
+Lines are numbered. Respond with JSON in this exact format:
+          {
+            "annotations": [
+              { "startLine": 1, "endLine": 2, "explanation": "what these lines mean" }
+            ]
+          }`,
+    user: `Annotate the lyrics of "{{title}}" by {{artist}}:\n\n{{numberedLyrics}}`,
+  },
+  {
+    id: "song-chat",
+    version: 1,
+    description: "Follow-up questions grounded in a stored analysis",
+    system: `Adopt the voice of a seasoned lyricist and literary critic answering a listener's follow-up questions about one song. Ground your answers in the lyrics and analysis below; quote specific lines when they support your point. If the material doesn't settle a question, say what is known, what is interpretation, and what is uncertain—never invent facts about the artist. Keep answers conversational and under 150 words unless asked for more.
+
+{{context}}`,
+    user: `{{question}}`,
+  },
+  {
+    id: "song-comparison",
+    version: 1,
+    description: "Side-by-side comparison of two stored analyses as JSON",
+    system: `Adopt the voice of a seasoned lyricist and literary critic preparing notes for a music discussion group. Compare two songs: be specific about what they share and where they part ways, quoting lyrics when you have them. No fluff and no vague generalities. Respond with JSON in this exact format:
+          {
+            "summary": "Two or three sentences on how the songs speak to each other",
+            "sharedThemes": ["themes", "both", "songs", "explore"],
+            "sections": [
+              { "heading": "Shared Themes", "body": "what the songs have in common and how each handles it" },
+              { "heading": "Diverging Moods", "body": "how the emotional tone differs" },
+              { "heading": "Symbolism", "body": "contrasting images, metaphors and motifs" },
+              { "heading": "Perspective", "body": "who is speaking, to whom, and from what stance" }
+            ]
+          }`,
+    user: `Compare these two songs.\n\nFIRST SONG\n{{left}}\n\nSECOND SONG\n{{right}}`,
+  },
+  {
+    id: "album-analysis",
+    version: 1,
+    description: "Album-wide narrative over the analyses of its tracks as JSON",
+    system: `Adopt the voice of a seasoned lyricist and music critic writing liner notes. You're given an album's tracklist with an analysis of each track. Read the album as a whole: the arc it traces from first track to last, the concept or question holding it together (or the lack of one), and how particular tracks answer, echo or undercut each other. Name tracks when you make a point about them. No fluff and no vague generalities. Respond with JSON in this exact format:
+          {
+            "summary": "Two or three sentences on what the album is about as a whole",
+            "themes": ["themes", "running", "through", "the", "album"],
+            "sections": [
+              { "heading": "The Arc", "body": "how the album moves from its opening to its close" },
+              { "heading": "The Concept", "body": "the idea or story holding the tracks together" },
+              { "heading": "How the Tracks Relate", "body": "tracks that mirror, answer or contrast with each other" }
+            ]
+          }`,
+    user: `Album: "{{title}}" by {{artist}}{{year}}\n\nTRACKS\n{{tracks}}`,
+  },
+  {
+    id: "artist-lens",
+    version: 1,
+    description: "Synthesized view of an artist across their analyzed songs",
+    system: `Adopt the voice of a seasoned lyricist and music critic writing the introduction to an artist's songbook. From the song analyses below, describe the lens this artist sees the world through: the themes they keep returning to, how their moods and subjects shift over time, and the images or attitudes that make a song recognizably theirs. Ground every claim in the songs listed and name them; don't bring in biography the analyses don't support. Write two short paragraphs of plain prose, no headings or lists.`,
+    user: `Artist: {{artist}}\n\n{{songs}}`,
+  },
+  {
+    id: "literary-devices",
+    version: 1,
+    description: "Metaphor, personification, hyperbole and allusion over numbered lyrics as JSON",
+    system: `Adopt the voice of a seasoned lyricist and literary critic. Find the figurative language in a song that needs interpretation to spot: metaphor, personification, hyperbole and allusion. Only report clear instances, quote the exact words, and explain in one or two sentences what each device does in the song. Do not report similes, alliteration or anaphora.
+
+Lines are numbered. Respond with JSON in this exact format:
+          {
+            "devices": [
+              { "device": "metaphor", "startLine": 3, "endLine": 3, "excerpt": "the exact words", "explanation": "what the device does here" }
+            ]
+          }`,
+    user: `Find the literary devices in "{{title}}" by {{artist}}:\n\n{{numberedLyrics}}`,
+  },
+  {
+    id: "song-quiz",
+    version: 1,
+    description: "Multiple-choice and short-answer comprehension questions with an answer key as JSON",
+    system: `You write reading-comprehension quizzes about songs for students. Build questions from the lyrics and the analysis you are given: what the lyrics say, what images and devices mean, and how the themes come through. {{difficulty}} Mix multiple-choice and short-answer questions. Multiple-choice questions have four plausible choices and exactly one correct one. Short-answer questions list two to four keywords a correct answer would mention. Every question has a one or two sentence explanation grounded in the lyrics.
+
+Respond with JSON in this exact format:
+          {
+            "questions": [
+              { "type": "multiple-choice", "question": "...", "choices": ["...", "...", "...", "..."], "answerIndex": 0, "explanation": "..." },
+              { "type": "short-answer", "question": "...", "answer": "a model answer", "keywords": ["...", "..."], "explanation": "..." }
+            ]
+          }`,
+    user: `Write {{count}} questions about this song.\n\n{{context}}`,
+    fragments: { difficulty: quizDifficultyInstructions },
+  },
+  {
+    id: "lesson-plan",
+    version: 1,
+    description: "Classroom lesson plan with objectives, discussion prompts and timed activities as JSON",
+    system: `You are an experienced teacher planning a class session that uses songs as texts. From the song analyses below, write a lesson plan for a {{duration}}-minute session. {{audience}} Objectives say what students will be able to do by the end. Discussion prompts are open questions grounded in specific lines or images. Activities run in teaching order, each with a duration in whole minutes, and their minutes add up to the session length. When there is more than one song, connect them rather than teaching each in isolation. Respond with JSON in this exact format:
+          {
+            "title": "A short title for the lesson",
+            "overview": "Two or three sentences on what the lesson covers and why these songs",
+            "objectives": ["Students will be able to ..."],
+            "discussionPrompts": ["an open question about the songs"],
+            "activities": [
+              { "title": "Warm-up", "minutes": 5, "description": "what the teacher and students do" }
+            ]
+          }`,
+    user: `{{songs}}`,
+    fragments: { audience: lessonPlanAudiences },
+  },
+];
+
+const PLACEHOLDER = /\{\{(\w+)\}\}/g;
+
+function parsePins(value: string | undefined): Map<string, number> {
+  const pins = new Map<string, number>();
+
+  for (const pin of (value || "").split(",")) {
+    const [id, version] = pin.split("=").map((part) => part.trim());
+    if (id && parseInt(version)) {
+      pins.set(id, parseInt(version));
+    }
+  }
+
+  return pins;
+}
+
+export function getTemplateVersions(id: string): PromptTemplate[] {
+  return templates.filter((template) => template.id === id).sort((a, b) => a.version - b.version);
+}
+
+// The requested version, or the active one (pinned or latest)
+export function getPromptTemplate(id: string, version?: number): PromptTemplate {
+  const versions = getTemplateVersions(id);
+  const wanted = version ?? parsePins(process.env.PROMPT_VERSIONS).get(id);
+  const template = wanted === undefined ? versions[versions.length - 1] : versions.find((v) => v.version === wanted);
+
+  if (!template) {
+    throw new Error(`Unknown prompt template ${id}${wanted === undefined ? "" : ` version ${wanted}`}`);
+  }
+
+  return template;
+}
+
+export function isActivePrompt(id: string | null, version: number | null): boolean {
+  if (!id || version === null) return false;
+  return getPromptTemplate(id).version === version;
+}
+
+// What a caller passes: plain placeholders, the variables fragments are
+// selected by and the placeholders inside fragment options
+export function templateVariables(template: PromptTemplate): string[] {
+  const fragments = template.fragments ?? {};
+  const texts = [
+    template.system,
+    template.user,
+    ...Object.values(fragments).flatMap((fragment) => Object.values(fragment.options)),
+  ];
+
+  const names = new Set<string>(Object.values(fragments).map((fragment) => fragment.selectedBy));
+  for (const text of texts) {
+    for (const match of Array.from(text.matchAll(PLACEHOLDER))) {
+      if (!(match[1] in fragments)) names.add(match[1]);
+    }
+  }
+  return Array.from(names);
+}
+
+function interpolate(text: string, variables: Record<string, string>, missing: Set<string>): string {
+  return text.replace(PLACEHOLDER, (placeholder, name: string) => {
+    if (variables[name] === undefined) {
+      missing.add(name);
+      return placeholder;
+    }
+    return variables[name];
+  });
+}
+
+// Each fragment's selected option, filled in. A selecting variable that is
+// missing or matches no option counts as missing.
+function resolveFragments(
+  template: PromptTemplate,
+  variables: Record<string, string>,
+  missing: Set<string>
+): Record<string, string> {
+  const resolved: Record<string, string> = {};
+
+  for (const [name, { selectedBy, options }] of Object.entries(template.fragments ?? {})) {
+    const choice = variables[selectedBy];
+    const option = choice !== undefined && Object.prototype.hasOwnProperty.call(options, choice) ? options[choice] : undefined;
+    if (option === undefined) {
+      missing.add(selectedBy);
+      continue;
+    }
+    resolved[name] = interpolate(option, variables, missing);
+  }
+
+  return resolved;
+}
+
+// Fills in a template. Missing variables are left as placeholders and reported
+// so previews can show them; renderPrompt rejects them.
+export function previewPrompt(
+  id: string,
+  variables: Record<string, string>,
+  version?: number
+): RenderedPrompt & { missingVariables: string[] } {
+  const template = getPromptTemplate(id, version);
+  const missing = new Set<string>();
+
+  // Fragment placeholders only ever take the fragment's text, even when a
+  // variable of the same name selects it. One whose selecting variable is
+  // missing stays a placeholder, reported under that variable.
+  const resolved = resolveFragments(template, variables, missing);
+  const filled = { ...variables };
+  for (const name of Object.keys(template.fragments ?? {})) {
+    filled[name] = resolved[name] ?? `{{${name}}}`;
+  }
+
+  return {
+    id: template.id,
+    version: template.version,
+    system: interpolate(template.system, filled, missing),
+    user: interpolate(template.user, filled, missing),
+    missingVariables: Array.from(missing),
+  };
+}
+
+export function renderPrompt(id: string, variables: Record<string, string>): RenderedPrompt {
+  const { missingVariables, ...rendered } = previewPrompt(id, variables);
+
+  if (missingVariables.length > 0) {
+    throw new Error(`Missing variables for prompt ${rendered.id}@${rendered.version}: ${missingVariables.join(", ")}`);
+  }
+
+  return rendered;
+}
+
+export function listPromptTemplates() {
+  const ids = Array.from(new Set(templates.map((template) => template.id)));
+
+  return ids.map((id) => ({
+    id,
+    activeVersion: getPromptTemplate(id).version,
+    versions: getTemplateVersions(id).map((template) => ({
+      version: template.version,
+      description: template.description,
+      variables: templateVariables(template),
+      // The values each selecting variable can take
+      choices: Object.fromEntries(
+        Object.values(template.fragments ?? {}).map((fragment) => [fragment.selectedBy, Object.keys(fragment.options)])
+      ),
+    })),
+  }));
+}
@@ -0,0 +1,71 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { analyzeProsody, countSyllables, estimateMeter, rhymeKey } from "./prosody";
+
+test("counts syllables from spelling", () => {
+  const counts: Record<string, number> = {
+    love: 1,
+    fire: 1,
+    walked: 1,
+    hello: 2,
+    away: 2,
+    cradle: 2,
+    singing: 2,
+    remember: 3,
+    tomorrow: 3,
+    beautiful: 3,
+    everything: 4,
+  };
+
+  for (const [word, syllables] of Object.entries(counts)) {
+    assert.equal(countSyllables(word), syllables, word);
+  }
+});
+
+test("gives rhyming words the same rhyme key", () => {
+  assert.equal(rhymeKey("love"), rhymeKey("above"));
+  assert.equal(rhymeKey("fire"), rhymeKey("higher"));
+  assert.equal(rhymeKey("away"), rhymeKey("today"));
+  assert.notEqual(rhymeKey("singing"), rhymeKey("walking"));
+});
+
+test("names the meter of a regular stress pattern", () => {
+  assert.equal(estimateMeter("x/x/x/x/"), "iambic tetrameter");
+  assert.equal(estimateMeter("/x/x/x/x"), "trochaic tetrameter");
+  assert.equal(estimateMeter("x/x/x/x/x/"), "iambic pentameter");
+  assert.equal(estimateMeter("//x//xx/"), null);
+});
+
+test("marks stress per syllable and finds rhyme schemes by stanza", () => {
+  const { stanzas } = analyzeProsody(
+    "The cat sat on the mat\nI saw a big fat rat\nShe ran away today\nAnd then she came to stay\n\nShall I compare thee to a summer's day\nThou art more lovely and more temperate"
+  );
+
+  assert.equal(stanzas.length, 2);
+  assert.deepEqual(
+    stanzas.map(({ startLine, endLine, rhymeScheme }) => ({ startLine, endLine, rhymeScheme })),
+    [
+      { startLine: 1, endLine: 4, rhymeScheme: "AABB" },
+      { startLine: 6, endLine: 7, rhymeScheme: "AB" },
+    ]
+  );
+
+  const lines = stanzas.flatMap((stanza) => stanza.lines);
+  for (const line of lines) {
+    assert.match(line.stress, /^[x/]+$/);
+    assert.equal(line.stress.length, line.syllables, `line ${line.line}`);
+  }
+
+  const [, , away, stay] = stanzas[0].lines;
+  assert.equal(away.stress, "x/x/x/");
+  assert.equal(away.meter, "iambic trimeter");
+  assert.equal(stay.stress, "x/x/x/");
+  assert.deepEqual(away.internalRhymes, [["away", "today"]]);
+  assert.equal(stanzas[0].meter, "iambic");
+  assert.equal(stanzas[1].lines[0].syllables, 10);
+});
+
+test("is deterministic", () => {
+  const lyrics = "Like a rolling stone\nHow does it feel\nTo be on your own";
+  assert.deepEqual(analyzeProsody(lyrics), analyzeProsody(lyrics));
+});
@@ -0,0 +1,237 @@
+import type { ProsodyAnalysis, ProsodyLine, ProsodyStanza } from "@shared/schema";
+
+// Rhyme scheme, syllable counts and a rough meter estimate computed from the
+// spelling of the lyrics alone. There is no pronunciation dictionary here, so
+// the results are heuristics: good enough to show craft patterns, not a
+// phonetic transcription.
+
+// Monosyllables that are normally unstressed in running speech
+const FUNCTION_WORDS = new Set([
+  "a", "an", "the", "and", "but", "or", "nor", "so", "yet", "if", "as", "than", "that",
+  "of", "to", "in", "on", "at", "by", "for", "from", "with", "up", "off", "out", "through",
+  "i", "me", "my", "you", "your", "he", "him", "his", "she", "her", "it", "its",
+  "we", "us", "our", "they", "them", "their", "who", "whom", "whose", "which",
+  "am", "is", "are", "was", "were", "be", "been", "do", "does", "did", "has", "have", "had",
+  "can", "could", "will", "would", "shall", "should", "may", "might", "must",
+  "im", "youre", "dont", "cant", "wont", "aint", "ill", "ive", "id",
+]);
+
+// Spellings the rules below get wrong, mapped to their rhyme sound
+const RHYME_OVERRIDES: Record<string, string> = {
+  you: "oo", do: "oo", to: "oo", too: "oo", two: "oo", who: "oo", through: "oo", shoe: "oo",
+  i: "ie", eye: "ie", bye: "ie", buy: "ie", guy: "ie",
+  how: "ou", now: "ou", wow: "ou", cow: "ou", allow: "ou", vow: "ou",
+  love: "uv", above: "uv", of: "uv", dove: "uv", glove: "uv",
+  come: "um", some: "um", done: "un", one: "un", none: "un", won: "un",
+  are: "ar", heart: "art", word: "urd", world: "urld", gone: "on", been: "in",
+  said: "ed", again: "en", says: "ez", there: "air", where: "air", their: "air",
+  were: "ur", fire: "ier", desire: "ier", higher: "ier",
+};
+
+// Final syllables too weak to carry a rhyme on their own ("singing"/"bringing"
+// rhyme, "singing"/"walking" don't)
+const WEAK_ENDINGS = new Set(["ing", "er", "ee", "en", "ed", "el", "on", "es"]);
+
+const PREFIXES = /^(be|de|re|un|ex|con|com|dis|mis|en|em|pre|pro|for|to|a)(?=[^aeiouy]*[aeiouy])/;
+
+const METER_FEET: [string, string][] = [
+  ["iambic", "x/"],
+  ["trochaic", "/x"],
+  ["anapestic", "xx/"],
+  ["dactylic", "/xx"],
+];
+
+const LINE_LENGTHS = ["", "monometer", "dimeter", "trimeter", "tetrameter", "pentameter", "hexameter", "heptameter", "octameter"];
+
+// Lowest share of syllables that must follow a foot's pattern to call the meter
+const METER_THRESHOLD = 0.75;
+
+function tokenize(line: string): string[] {
+  return line.toLowerCase().match(/[a-z]+(?:'[a-z]*)?/g) || [];
+}
+
+function bare(word: string): string {
+  return word.replace(/'/g, "");
+}
+
+export function countSyllables(word: string): number {
+  let w = bare(word);
+  if (w.length <= 3) return 1;
+
+  // Silent endings: "smile", "loved", "times"; keep "little", "wanted", "places"
+  if (!/[^aeiouy]le$/.test(w)) {
+    w = w.replace(/([^td])ed$/, "$1").replace(/([^sxzhcg])es$/, "$1").replace(/([^aeiouy])e$/, "$1");
+  }
+  w = w.replace(/^y/, "");
+
+  const groups = w.match(/[aeiouy]+/g)?.length ?? 0;
+  // Vowel pairs spoken as two syllables: "lion", "radio", "piano"
+  const hiatus = w.match(/[^tsc]i[aou]/g)?.length ?? 0;
+
+  return Math.max(1, groups + hiatus);
+}
+
+function wordStress(word: string, syllables: number): string {
+  const w = bare(word);
+
+  if (syllables === 1) {
+    return FUNCTION_WORDS.has(w) ? "x" : "/";
+  }
+
+  let stressed = 0;
+  if (/(tion|sion|cian|tial|cial|ic|ious)$/.test(w)) {
+    stressed = syllables - 2;
+  } else if (/(ity|ical)$/.test(w)) {
+    stressed = Math.max(0, syllables - 3);
+  } else if (/(ee|eer|oon|ique|ette)$/.test(w)) {
+    stressed = syllables - 1;
+  } else if (PREFIXES.test(w)) {
+    stressed = 1;
+  }
+
+  return Array.from({ length: syllables }, (_, i) => (i === stressed ? "/" : "x")).join("");
+}
+
+// The sound a word rhymes on: its last vowel and everything after it, after
+// normalizing spellings of the same sound
+export function rhymeKey(word: string): string {
+  let w = bare(word);
+  if (word.endsWith("in'")) w += "g";
+
+  const override = RHYME_OVERRIDES[w];
+  if (override) return override;
+
+  // Short words ending on a bare vowel are long: "me", "go"
+  if (/^[^aeiouy]*[eo]$/.test(w)) w += "e";
+
+  w = w
+    .replace(/ea(?=[^aeiou]*e?s?$)/, "ee")
+    .replace(/ie(?=[^aeiou]+e?s?$)/, "ee")
+    .replace(/igh/g, "ie")
+    .replace(/ph/g, "f")
+    .replace(/ck/g, "k")
+    .replace(/tch/g, "ch")
+    .replace(/dge$/, "j")
+    .replace(/(ay|ai|ey$)/g, "ae")
+    .replace(/ow$/, "oe")
+    .replace(/oa/g, "oe")
+    .replace(/(ue|ew|oo)$/, "oo")
+    // Final "y": "my" -> "ie", "happy" -> "ee"
+    .replace(/^([^aeiouy]+)y$/, "$1ie")
+    .replace(/([^aeiou])y$/, "$1ee")
+    .replace(/y/g, "i")
+    // Magic "e": "time" -> "tiem", "home" -> "hoem"
+    .replace(/([aiou])([^aeiou])e(s?)$/, "$1e$2$3")
+    .replace(/([^aeiou])e$/, "$1")
+    .replace(/([^aeiou])\1/g, "$1");
+
+  const key = w.match(/[aeiou]+[^aeiou]*$/)?.[0] || w;
+  if (WEAK_ENDINGS.has(key)) {
+    return w.match(/[aeiou]+[^aeiou]*[aeiou]+[^aeiou]*$/)?.[0] || key;
+  }
+  return key;
+}
+
+// Plurals and verb endings still rhyme: "eyes" / "lie"
+function rhymesWith(a: string, b: string): boolean {
+  return a.replace(/[sz]$/, "") === b.replace(/[sz]$/, "");
+}
+
+export function estimateMeter(stress: string): string | null {
+  if (stress.length < 4) return null;
+
+  let best: { name: string; foot: string; score: number } | null = null;
+  for (const [name, foot] of METER_FEET) {
+    const matches = Array.from(stress).filter((mark, i) => mark === foot[i % foot.length]).length;
+    const score = matches / stress.length;
+    if (!best || score > best.score) {
+      best = { name, foot, score };
+    }
+  }
+
+  if (!best || best.score < METER_THRESHOLD) return null;
+
+  const feet = Math.round(stress.length / best.foot.length);
+  const length = LINE_LENGTHS[feet];
+  return length ? `${best.name} ${length}` : best.name;
+}
+
+function findInternalRhymes(words: string[]): string[][] {
+  const groups = new Map<string, Set<string>>();
+
+  for (const word of words) {
+    const w = bare(word);
+    if (w.length < 3 || FUNCTION_WORDS.has(w)) continue;
+
+    const key = rhymeKey(word).replace(/[sz]$/, "");
+    if (!groups.has(key)) groups.set(key, new Set());
+    groups.get(key)!.add(w);
+  }
+
+  return Array.from(groups.values())
+    .filter((group) => group.size > 1)
+    .map((group) => Array.from(group));
+}
+
+function analyzeStanza(lines: { line: number; text: string }[]): ProsodyStanza {
+  const endKeys: string[] = [];
+  const letters: string[] = [];
+
+  const prosodyLines: ProsodyLine[] = lines.map(({ line, text }) => {
+    const words = tokenize(text);
+    const stress = words.map((word) => wordStress(word, countSyllables(word))).join("");
+
+    // Same letter as the earliest line in the stanza it rhymes with
+    const endKey = rhymeKey(words[words.length - 1]);
+    const match = endKeys.findIndex((key) => rhymesWith(key, endKey));
+    const rhyme = match >= 0 ? letters[match] : String.fromCharCode(65 + (new Set(letters).size % 26));
+    endKeys.push(endKey);
+    letters.push(rhyme);
+
+    return {
+      line,
+      syllables: stress.length,
+      stress,
+      meter: estimateMeter(stress),
+      rhyme,
+      internalRhymes: findInternalRhymes(words),
+    };
+  });
+
+  // A stanza's meter is the foot most of its lines share
+  const feet = prosodyLines.map((line) => line.meter?.split(" ")[0]).filter(Boolean) as string[];
+  const counts = feet.reduce((map, foot) => map.set(foot, (map.get(foot) || 0) + 1), new Map<string, number>());
+  const [topFoot, topCount] = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0] || [null, 0];
+
+  return {
+    startLine: lines[0].line,
+    endLine: lines[lines.length - 1].line,
+    rhymeScheme: letters.join(""),
+    meter: topCount * 2 >= prosodyLines.length ? topFoot : null,
+    lines: prosodyLines,
+  };
+}
+
+// Stanzas are separated by blank lines; section labels such as "[Chorus]"
+// are skipped. Line numbers match the 1-based lines of the lyrics.
+export function analyzeProsody(lyrics: string): ProsodyAnalysis {
+  const stanzas: ProsodyStanza[] = [];
+  let current: { line: number; text: string }[] = [];
+
+  const flush = () => {
+    if (current.length > 0) stanzas.push(analyzeStanza(current));
+    current = [];
+  };
+
+  lyrics.split("\n").forEach((text, index) => {
+    const trimmed = text.trim();
+    if (!trimmed) {
+      flush();
+    } else if (!/^[[(].*[\])]$/.test(trimmed) && tokenize(trimmed).length > 0) {
+      current.push({ line: index + 1, text: trimmed });
+    }
+  });
+  flush();
+
+  return { stanzas };
+}
@@ -0,0 +1,103 @@
+import { storage, type RecommendationCandidate } from "./storage";
+import { canonicalSongKey } from "./analysisCache";
+import type { SongAnalysis, SongRecommendation } from "@shared/schema";
+
+const MAX_RECOMMENDATIONS = 6;
+
+type Source = Pick<SongAnalysis, "id" | "songKey" | "title" | "artist" | "mood" | "themes">;
+
+interface Match {
+  candidate: RecommendationCandidate;
+  source: Source;
+  sharedThemes: string[];
+  sharedMood: string | null;
+  score: number;
+}
+
+function songKeyOf(song: Pick<SongAnalysis, "songKey" | "title" | "artist">): string | null {
+  // Revisions have no song key of their own
+  return song.songKey ?? canonicalSongKey(song.title, song.artist);
+}
+
+function lowercased(values: (string | null)[]): string[] {
+  return Array.from(new Set(values.filter((value): value is string => !!value?.trim()).map((value) => value.trim().toLowerCase())));
+}
+
+function joinList(items: string[]): string {
+  return items.length > 1 ? `${items.slice(0, -1).join(", ")} and ${items[items.length - 1]}` : items[0];
+}
+
+// A shared theme counts twice as much as a shared mood
+function match(source: Source, candidate: RecommendationCandidate): Match | null {
+  const candidateThemes = new Set(lowercased(candidate.themes));
+  const sharedThemes = lowercased(source.themes).filter((theme) => candidateThemes.has(theme));
+  const mood = source.mood?.trim().toLowerCase();
+  const sharedMood = mood && candidate.mood?.trim().toLowerCase() === mood ? mood : null;
+  const score = sharedThemes.length * 2 + (sharedMood ? 1 : 0);
+
+  return score > 0 ? { candidate, source, sharedThemes, sharedMood, score } : null;
+}
+
+// "Also about leaving home", or "Like "Song", it's about memory and loss"
+// when the connection is to one of several favorites
+function describe({ sharedThemes, sharedMood, source }: Match, fromFavorites: boolean): string {
+  const themes = sharedThemes.length > 0 ? joinList(sharedThemes.slice(0, 2)) : null;
+
+  if (fromFavorites) {
+    const like = `Like "${source.title}"`;
+    if (themes && sharedMood) return `${like}, it's about ${themes} and has the same ${sharedMood} mood`;
+    return themes ? `${like}, it's about ${themes}` : `${like}, it has a ${sharedMood} mood`;
+  }
+
+  if (themes && sharedMood) return `Also about ${themes}, with the same ${sharedMood} mood`;
+  return themes ? `Also about ${themes}` : `Shares its ${sharedMood} mood`;
+}
+
+// Strongest matches first, each song once. Candidates arrive newest first,
+// so a song is judged by its newest analysis and ties go to newer songs.
+async function recommend(sources: Source[], fromFavorites: boolean): Promise<SongRecommendation[]> {
+  const seen = new Set(sources.map(songKeyOf).filter((key): key is string => !!key));
+  const candidates = await storage.getAnalysesSharingThemes(
+    lowercased(sources.flatMap((source) => source.themes)),
+    lowercased(sources.map((source) => source.mood))
+  );
+
+  const matches: Match[] = [];
+  for (const candidate of candidates) {
+    if (seen.has(candidate.songKey!)) continue;
+    seen.add(candidate.songKey!);
+
+    // With several favorites, the one it has the most in common with
+    const best = sources
+      .map((source) => match(source, candidate))
+      .reduce<Match | null>((best, found) => (found && (!best || found.score > best.score) ? found : best), null);
+    if (best) matches.push(best);
+  }
+
+  return matches
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_RECOMMENDATIONS)
+    .map((found) => {
+      const { id, title, artist, yearReleased, mood, themes } = found.candidate;
+      return {
+        song: { id, title, artist, yearReleased, mood, themes },
+        sharedThemes: found.sharedThemes,
+        sharedMood: found.sharedMood,
+        basedOn: fromFavorites ? { id: found.source.id, title: found.source.title } : null,
+        reason: describe(found, fromFavorites),
+      };
+    });
+}
+
+// Other songs whose stored themes or mood overlap with the analysis
+export async function recommendForAnalysis(analysis: SongAnalysis): Promise<SongRecommendation[]> {
+  return await recommend([analysis], false);
+}
+
+// Songs connected to any of the user's favorites, leaving out the favorites
+export async function recommendForFavorites(userId: string): Promise<SongRecommendation[]> {
+  const favorites = await storage.getUserFavorites(userId);
+  if (favorites.length === 0) return [];
+
+  return await recommend(favorites.map((favorite) => favorite.songAnalysis), true);
+}
@@ -153,3 +153,16 @@ export const isAuthenticated: RequestHandler = async (req, res, next) => {
     return res.redirect("/api/login");
   }
 };
+
+// Must run after isAuthenticated. Admins are listed by user id in
+// ADMIN_USER_IDS, comma-separated.
+export const isAdmin: RequestHandler = (req, res, next) => {
+  const user = req.user as any;
+  const adminIds = (process.env.ADMIN_USER_IDS || "").split(",").map((id) => id.trim());
+
+  if (!user?.claims?.sub || !adminIds.includes(user.claims.sub)) {
+    return res.status(403).json({ message: "Forbidden" });
+  }
+
+  next();
+};
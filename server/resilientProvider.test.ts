@@ -0,0 +1,207 @@
+import { test, type TestContext } from "node:test";
+import assert from "node:assert/strict";
+import OpenAI from "openai";
+import { ProviderError, ResilientProvider, type ResilienceOptions } from "./resilientProvider";
+import type { AnalysisProvider, CompletionRequest, CompletionResult, TokenHandler } from "./analysisProvider";
+
+type Behavior = (request: CompletionRequest, onToken?: TokenHandler) => Promise<CompletionResult>;
+
+// Answers each call with the next behavior, repeating the last one
+class FakeProvider implements AnalysisProvider {
+  readonly name = "fake";
+  readonly model = "fake-model";
+  requests: CompletionRequest[] = [];
+
+  constructor(private behaviors: Behavior[]) {}
+
+  complete(request: CompletionRequest, onToken?: TokenHandler): Promise<CompletionResult> {
+    const behavior = this.behaviors[Math.min(this.requests.length, this.behaviors.length - 1)];
+    this.requests.push(request);
+    return behavior(request, onToken);
+  }
+}
+
+const succeed: Behavior = async () => ({ content: "ok", model: "fake-model" });
+const unavailable: Behavior = async () => {
+  throw new OpenAI.APIError(503, undefined, "Service unavailable", undefined);
+};
+const rejected: Behavior = async () => {
+  throw new Error("Invalid request");
+};
+// Never settles and ignores the abort signal
+const hang: Behavior = () => new Promise(() => {});
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function options(overrides: Partial<ResilienceOptions> = {}): ResilienceOptions {
+  return {
+    timeoutMs: 1_000,
+    maxRetries: 2,
+    retryBaseDelayMs: 1,
+    retryMaxDelayMs: 1,
+    circuitThreshold: 100,
+    circuitCooldownMs: 1_000,
+    ...overrides,
+  };
+}
+
+const request: CompletionRequest = {
+  task: "song-chat",
+  maxTokens: 100,
+  messages: [{ role: "user", content: "Hello" }],
+};
+
+// Silences retry and circuit warnings; reads back the retry delays they reported
+function quietWarnings(t: TestContext): () => number[] {
+  const warn = t.mock.method(console, "warn", () => {});
+  return () =>
+    warn.mock.calls
+      .map((call) => /retrying in (\d+)ms/.exec(String(call.arguments[0]))?.[1])
+      .filter((delay): delay is string => delay !== undefined)
+      .map(Number);
+}
+
+async function rejectsWith(promise: Promise<unknown>, code: string): Promise<void> {
+  await assert.rejects(promise, (error) => error instanceof ProviderError && error.code === code);
+}
+
+test("retries retryable failures until a call succeeds", async (t) => {
+  quietWarnings(t);
+  const inner = new FakeProvider([unavailable, unavailable, succeed]);
+
+  const result = await new ResilientProvider(inner, options()).complete(request);
+
+  assert.equal(result.content, "ok");
+  assert.equal(inner.requests.length, 3);
+});
+
+test("gives up after the configured number of retries", async (t) => {
+  quietWarnings(t);
+  const inner = new FakeProvider([unavailable]);
+
+  await rejectsWith(new ResilientProvider(inner, options({ maxRetries: 2 })).complete(request), "provider_unavailable");
+  assert.equal(inner.requests.length, 3);
+});
+
+test("doesn't retry a request the provider rejected", async () => {
+  const inner = new FakeProvider([rejected]);
+
+  await rejectsWith(new ResilientProvider(inner, options()).complete(request), "provider_error");
+  assert.equal(inner.requests.length, 1);
+});
+
+test("waits a jittered, exponentially growing and capped delay between retries", async (t) => {
+  const retryDelays = quietWarnings(t);
+  const random = t.mock.method(Math, "random", () => 0.5);
+  const provider = new ResilientProvider(
+    new FakeProvider([unavailable]),
+    options({ maxRetries: 3, retryBaseDelayMs: 10, retryMaxDelayMs: 30 })
+  );
+
+  await rejectsWith(provider.complete(request), "provider_unavailable");
+
+  // Half of 10, 20 and 40ms, the last capped at 30ms
+  assert.deepEqual(retryDelays(), [5, 10, 15]);
+  assert.equal(random.mock.callCount(), 3);
+});
+
+test("waits at least as long as a rate limit's retry-after", async (t) => {
+  const retryDelays = quietWarnings(t);
+  t.mock.method(Math, "random", () => 0);
+  const rateLimited: Behavior = async () => {
+    throw new OpenAI.APIError(429, undefined, "Too many requests", { "retry-after": "0.02" });
+  };
+
+  const result = await new ResilientProvider(new FakeProvider([rateLimited, succeed]), options()).complete(request);
+
+  assert.equal(result.content, "ok");
+  assert.deepEqual(retryDelays(), [20]);
+});
+
+test("times out an attempt that never settles and aborts its request", async (t) => {
+  quietWarnings(t);
+  const inner = new FakeProvider([hang, succeed]);
+  const provider = new ResilientProvider(inner, options({ timeoutMs: 20, maxRetries: 0 }));
+
+  await rejectsWith(provider.complete(request), "timeout");
+  assert.equal(inner.requests[0].signal?.aborted, true);
+});
+
+test("retries a timed out attempt", async (t) => {
+  quietWarnings(t);
+  const inner = new FakeProvider([hang, succeed]);
+
+  const result = await new ResilientProvider(inner, options({ timeoutMs: 20 })).complete(request);
+
+  assert.equal(result.content, "ok");
+  assert.equal(inner.requests.length, 2);
+});
+
+test("doesn't retry a streamed call once tokens were emitted", async (t) => {
+  quietWarnings(t);
+  const inner = new FakeProvider([
+    async (_, onToken) => {
+      onToken?.("Once upon");
+      throw new OpenAI.APIError(503, undefined, "Service unavailable", undefined);
+    },
+    succeed,
+  ]);
+  const tokens: string[] = [];
+
+  await rejectsWith(
+    new ResilientProvider(inner, options()).complete(request, (text) => tokens.push(text)),
+    "provider_unavailable"
+  );
+  assert.equal(inner.requests.length, 1);
+  assert.deepEqual(tokens, ["Once upon"]);
+});
+
+test("opens the circuit after repeated failures and fails fast while open", async (t) => {
+  quietWarnings(t);
+  const inner = new FakeProvider([unavailable]);
+  const provider = new ResilientProvider(inner, options({ maxRetries: 0, circuitThreshold: 2 }));
+
+  await rejectsWith(provider.complete(request), "provider_unavailable");
+  await rejectsWith(provider.complete(request), "provider_unavailable");
+  await assert.rejects(provider.complete(request), (error) => {
+    return error instanceof ProviderError && error.code === "provider_unavailable" && (error.retryAfterMs ?? 0) > 0;
+  });
+
+  assert.equal(inner.requests.length, 2);
+});
+
+test("lets one probe through once the cooldown has passed and closes on success", async (t) => {
+  quietWarnings(t);
+  let finishProbe!: () => void;
+  const probe: Behavior = () =>
+    new Promise((resolve) => {
+      finishProbe = () => resolve({ content: "probe", model: "fake-model" });
+    });
+  const inner = new FakeProvider([unavailable, probe, succeed]);
+  const provider = new ResilientProvider(inner, options({ maxRetries: 0, circuitThreshold: 1, circuitCooldownMs: 20 }));
+
+  await rejectsWith(provider.complete(request), "provider_unavailable");
+  await sleep(30);
+
+  // Half-open: the probe is in flight, so other calls still fail fast
+  const probing = provider.complete(request);
+  await rejectsWith(provider.complete(request), "provider_unavailable");
+  finishProbe();
+
+  assert.equal((await probing).content, "probe");
+  assert.equal((await provider.complete(request)).content, "ok");
+  assert.equal(inner.requests.length, 3);
+});
+
+test("reopens the circuit when the half-open probe fails", async (t) => {
+  quietWarnings(t);
+  const inner = new FakeProvider([unavailable, unavailable, succeed]);
+  const provider = new ResilientProvider(inner, options({ maxRetries: 0, circuitThreshold: 1, circuitCooldownMs: 20 }));
+
+  await rejectsWith(provider.complete(request), "provider_unavailable");
+  await sleep(30);
+
+  await rejectsWith(provider.complete(request), "provider_unavailable");
+  await rejectsWith(provider.complete(request), "provider_unavailable");
+  assert.equal(inner.requests.length, 2);
+});
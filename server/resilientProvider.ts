@@ -0,0 +1,197 @@
+import OpenAI from "openai";
+import type { AnalysisProvider, CompletionRequest, CompletionResult, TokenHandler } from "./analysisProvider";
+import type { ProviderErrorCode } from "@shared/analysis";
+
+// A provider failure the routes can report to the client by code
+export class ProviderError extends Error {
+  constructor(
+    readonly code: ProviderErrorCode,
+    message: string,
+    // Suggested wait before trying again, when known
+    readonly retryAfterMs?: number,
+  ) {
+    super(message);
+    this.name = "ProviderError";
+  }
+
+  get status(): number {
+    switch (this.code) {
+      case "rate_limited":
+        return 429;
+      case "provider_unavailable":
+        return 503;
+      case "timeout":
+        return 504;
+      default:
+        return 502;
+    }
+  }
+}
+
+export interface ResilienceOptions {
+  timeoutMs: number;
+  maxRetries: number;
+  retryBaseDelayMs: number;
+  retryMaxDelayMs: number;
+  // Consecutive failed calls before the circuit opens
+  circuitThreshold: number;
+  circuitCooldownMs: number;
+}
+
+export function resilienceOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): ResilienceOptions {
+  const number = (value: string | undefined, fallback: number) => {
+    const parsed = parseInt(value || "");
+    return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+  };
+
+  return {
+    timeoutMs: number(env.LLM_TIMEOUT_MS, 90_000),
+    maxRetries: number(env.LLM_MAX_RETRIES, 2),
+    retryBaseDelayMs: number(env.LLM_RETRY_BASE_MS, 500),
+    retryMaxDelayMs: number(env.LLM_RETRY_MAX_MS, 8_000),
+    circuitThreshold: number(env.LLM_CIRCUIT_THRESHOLD, 5),
+    circuitCooldownMs: number(env.LLM_CIRCUIT_COOLDOWN_MS, 30_000),
+  };
+}
+
+class TimeoutError extends Error {}
+
+// Map a provider failure to a code, and whether trying again could help
+function classifyError(error: unknown): { code: ProviderErrorCode; retryable: boolean; retryAfterMs?: number } {
+  if (error instanceof TimeoutError || error instanceof OpenAI.APIConnectionTimeoutError) {
+    return { code: "timeout", retryable: true };
+  }
+
+  if (error instanceof OpenAI.APIError) {
+    if (error.status === 429) {
+      const retryAfter = parseFloat(error.headers?.["retry-after"] || "");
+      return {
+        code: "rate_limited",
+        retryable: true,
+        retryAfterMs: Number.isFinite(retryAfter) ? retryAfter * 1000 : undefined,
+      };
+    }
+    // No status means the request never got a response
+    if (error.status === undefined || error.status >= 500) {
+      return { code: "provider_unavailable", retryable: true };
+    }
+  }
+
+  return { code: "provider_error", retryable: false };
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Wraps a provider with per-attempt timeouts, retries with jittered
+// exponential backoff for rate limits, timeouts and 5xx responses, and a
+// circuit breaker that fails fast after repeated failures until a cooldown
+// has passed. A streamed call is only retried if no tokens were emitted.
+export class ResilientProvider implements AnalysisProvider {
+  private consecutiveFailures = 0;
+  private openUntil = 0;
+  private halfOpenTrial = false;
+
+  constructor(
+    private inner: AnalysisProvider,
+    private options: ResilienceOptions = resilienceOptionsFromEnv(),
+  ) {}
+
+  get name(): string {
+    return this.inner.name;
+  }
+
+  get model(): string {
+    return this.inner.model;
+  }
+
+  async complete(request: CompletionRequest, onToken?: TokenHandler): Promise<CompletionResult> {
+    this.checkCircuit();
+
+    for (let attempt = 0; ; attempt++) {
+      let emitted = false;
+      const handler: TokenHandler | undefined = onToken && ((text) => {
+        emitted = true;
+        onToken(text);
+      });
+
+      try {
+        const result = await this.attempt(request, handler);
+        this.recordSuccess();
+        return result;
+      } catch (error) {
+        const { code, retryable, retryAfterMs } = classifyError(error);
+        const message = error instanceof Error ? error.message : "Unknown error";
+
+        if (!retryable) {
+          // The provider is up; it rejected this particular request
+          this.recordSuccess();
+          throw new ProviderError(code, message);
+        }
+
+        if (attempt >= this.options.maxRetries || emitted) {
+          this.recordFailure();
+          throw new ProviderError(code, message, retryAfterMs);
+        }
+
+        const backoff = Math.min(this.options.retryMaxDelayMs, this.options.retryBaseDelayMs * 2 ** attempt);
+        const delay = Math.max(retryAfterMs ?? 0, Math.random() * backoff);
+        console.warn(`LLM ${request.task} attempt ${attempt + 1} failed (${code}), retrying in ${Math.round(delay)}ms`);
+        await sleep(delay);
+      }
+    }
+  }
+
+  private async attempt(request: CompletionRequest, onToken?: TokenHandler): Promise<CompletionResult> {
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout | undefined;
+
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new TimeoutError(`Timed out after ${this.options.timeoutMs}ms`));
+      }, this.options.timeoutMs);
+    });
+
+    try {
+      // Race as well as abort, for providers that ignore the signal
+      return await Promise.race([
+        this.inner.complete({ ...request, signal: controller.signal }, onToken),
+        timeout,
+      ]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private checkCircuit() {
+    if (this.openUntil === 0) return;
+
+    const remaining = this.openUntil - Date.now();
+    if (remaining > 0 || this.halfOpenTrial) {
+      throw new ProviderError(
+        "provider_unavailable",
+        "Analysis provider is unavailable after repeated failures",
+        Math.max(remaining, 0),
+      );
+    }
+
+    // Cooldown over: let one call through to probe the provider
+    this.halfOpenTrial = true;
+  }
+
+  private recordSuccess() {
+    this.consecutiveFailures = 0;
+    this.openUntil = 0;
+    this.halfOpenTrial = false;
+  }
+
+  private recordFailure() {
+    this.consecutiveFailures++;
+
+    if (this.halfOpenTrial || this.consecutiveFailures >= this.options.circuitThreshold) {
+      this.openUntil = Date.now() + this.options.circuitCooldownMs;
+      this.halfOpenTrial = false;
+      console.warn(`LLM provider circuit opened for ${this.options.circuitCooldownMs}ms`);
+    }
+  }
+}
@@ -1,137 +1,1109 @@
-import type { Express } from "express";
+import type { Express, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { setupAuth, isAuthenticated } from "./replitAuth";
-import { searchSong, getSongDetails } from "./lyricsApi";
-import { analyzeLyrics, generateSongMeaning } from "./openai";
-import { insertSongAnalysisSchema, insertFavoriteSchema, insertSearchHistorySchema } from "@shared/schema";
+import { setupAuth, isAuthenticated, isAdmin } from "./replitAuth";
+import { analyzeSong, regenerateAnalysis, type SongAnalysisOptions } from "./songAnalysis";
+import { analyzeAlbum, withAlbumTracks } from "./albumAnalysis";
+import { createLessonPlan, withLessonSongs } from "./lessonPlan";
+import { exportLessonPlan, lessonPlanFormats } from "./lessonPlanExport";
+import { annotateLyrics, answerFollowUpQuestion, compareSongs, detectLiteraryDevices } from "./openai";
+import { detectPatternDevices } from "./literaryDevices";
+import { averageLyricStats } from "./lyricStats";
+import { getArtistOverview } from "./artistProfile";
+import { recommendForAnalysis, recommendForFavorites } from "./recommendations";
+import { normalizeArtist } from "./analysisCache";
+import { getTemplateVersions, listPromptTemplates, previewPrompt } from "./prompts";
+import { getUsageSummary } from "./usageLedger";
+import { getFeedbackReport } from "./feedbackReport";
+import { createQuiz, quizForTaking, submitQuizAttempt } from "./songQuiz";
+import { ProviderError } from "./resilientProvider";
+import {
+  insertSongAnalysisSchema,
+  insertFavoriteSchema,
+  insertSearchHistorySchema,
+  insertAnalysisFeedbackSchema,
+  analysisDepths,
+  analysisPersonas,
+  analysisAudiences,
+  quizDifficulties,
+  userPreferencesSchema,
+  type SongComparison,
+  type SongComparisonWithSongs,
+  type LyricStatsComparison,
+  type AnalysisRevisions,
+  type AnalysisPersona,
+} from "@shared/schema";
+import { z } from "zod";
+import { nanoid } from "nanoid";
+
+const depthSchema = z.enum(analysisDepths).default("standard");
+
+const personaSchema = z.enum(analysisPersonas).optional();
+
+const audienceSchema = z.enum(analysisAudiences).default("general");
+
+const regenerateSchema = z.object({
+  guidance: z.string().trim().max(500).optional(),
+});
+
+const feedbackSchema = insertAnalysisFeedbackSchema.pick({ rating: true, comments: true }).extend({
+  comments: insertAnalysisFeedbackSchema.shape.comments.default([]),
+});
+
+const quizDifficultySchema = z.enum(quizDifficulties).default("medium");
+
+const quizAttemptSchema = z.object({
+  responses: z.array(z.union([z.number().int().nonnegative(), z.string().max(1000), z.null()])).max(20),
+});
+
+const lessonPlanSchema = z.object({
+  songAnalysisIds: z.array(z.number().int().positive()).min(1).max(5),
+  durationMinutes: z.number().int().min(15).max(180).default(45),
+  audience: audienceSchema,
+});
+
+const lessonPlanFormatSchema = z.enum(lessonPlanFormats).default("markdown");
+
+const promptPreviewSchema = z.object({
+  version: z.number().int().positive().optional(),
+  variables: z.record(z.string()).default({}),
+});
+
+// Error body for failed LLM-backed requests. Provider failures carry a code
+// the client can explain to the user.
+function analysisErrorBody(error: unknown, message: string) {
+  return {
+    message,
+    ...(error instanceof ProviderError ? { code: error.code } : {}),
+    error: error instanceof Error ? error.message : "Unknown error"
+  };
+}
+
+function sendAnalysisError(res: Response, error: unknown, message: string) {
+  if (!(error instanceof ProviderError)) {
+    return res.status(500).json(analysisErrorBody(error, message));
+  }
+
+  if (error.retryAfterMs) {
+    res.set("Retry-After", String(Math.ceil(error.retryAfterMs / 1000)));
+  }
+  res.status(error.status).json(analysisErrorBody(error, message));
+}
+
+// Start of the usage reporting window, from a ?days= query parameter
+function usageSince(days: unknown): Date {
+  const windowDays = Math.min(Math.max(parseInt(days as string) || 30, 1), 365);
+  return new Date(Date.now() - windowDays * 24 * 60 * 60 * 1000);
+}
+
+// The persona picked for a search, falling back to the user's default.
+// Returns null when "custom" is picked before the user has described one.
+async function resolvePersona(
+  userId: string,
+  requested?: AnalysisPersona
+): Promise<Pick<SongAnalysisOptions, "persona" | "customPersona"> | null> {
+  const preferences = (await storage.getUser(userId))?.preferences ?? {};
+  const persona = requested ?? preferences.persona ?? "critic";
+
+  if (persona !== "custom") {
+    return { persona };
+  }
+
+  return preferences.customPersona ? { persona, customPersona: preferences.customPersona } : null;
+}
+
+// Prior chat messages sent back to the model with each follow-up question
+const CHAT_HISTORY_LIMIT = 20;
+
+async function withComparedSongs(comparison: SongComparison): Promise<SongComparisonWithSongs> {
+  const [left, right] = await Promise.all([
+    storage.getSongAnalysis(comparison.leftAnalysisId),
+    storage.getSongAnalysis(comparison.rightAnalysisId),
+  ]);
+  return { ...comparison, left: left!, right: right! };
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Auth middleware
   await setupAuth(app);
 
-  // Auth routes
-  app.get('/api/auth/user', isAuthenticated, async (req: any, res) => {
+  // Auth routes
+  app.get('/api/auth/user', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+      res.json(user);
+    } catch (error) {
+      console.error("Error fetching user:", error);
+      res.status(500).json({ message: "Failed to fetch user" });
+    }
+  });
+
+  app.patch("/api/user/preferences", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const body = userPreferencesSchema.safeParse(req.body);
+
+      if (!body.success) {
+        return res.status(400).json({ message: "Invalid preferences" });
+      }
+
+      const current = (await storage.getUser(userId))?.preferences ?? {};
+      const preferences = { ...current, ...body.data };
+
+      if (preferences.persona === "custom" && !preferences.customPersona) {
+        return res.status(400).json({ message: "Describe your custom persona" });
+      }
+
+      const user = await storage.updateUserPreferences(userId, preferences);
+      res.json(user);
+    } catch (error) {
+      console.error("Error updating preferences:", error);
+      res.status(500).json({ message: "Failed to update preferences" });
+    }
+  });
+
+  // Song search and analysis
+  app.post("/api/songs/search", isAuthenticated, async (req: any, res) => {
+    try {
+      const { query } = req.body;
+      const userId = req.user.claims.sub;
+
+      if (!query || typeof query !== "string") {
+        return res.status(400).json({ message: "Query is required" });
+      }
+
+      const depth = depthSchema.safeParse(req.body.depth);
+      if (!depth.success) {
+        return res.status(400).json({ message: "Invalid analysis depth" });
+      }
+
+      const requestedPersona = personaSchema.safeParse(req.body.persona);
+      if (!requestedPersona.success) {
+        return res.status(400).json({ message: "Invalid analysis persona" });
+      }
+
+      const persona = await resolvePersona(userId, requestedPersona.data);
+      if (!persona) {
+        return res.status(400).json({ message: "Describe your custom persona in your profile first" });
+      }
+
+      const audience = audienceSchema.safeParse(req.body.audience);
+      if (!audience.success) {
+        return res.status(400).json({ message: "Invalid analysis audience" });
+      }
+
+      const songAnalysis = await analyzeSong(query.trim(), userId, {
+        depth: depth.data,
+        ...persona,
+        audience: audience.data,
+      });
+
+      if (!songAnalysis) {
+        return res.status(404).json({ message: "Song not found" });
+      }
+
+      res.json(songAnalysis);
+    } catch (error) {
+      console.error("Error searching song:", error);
+      sendAnalysisError(res, error, "Failed to analyze song");
+    }
+  });
+
+  // Streaming variant of song search: pushes progress phases and analysis
+  // tokens over Server-Sent Events, then the persisted analysis
+  app.get("/api/songs/search/stream", isAuthenticated, async (req: any, res) => {
+    const { query } = req.query;
+    const userId = req.user.claims.sub;
+
+    if (!query || typeof query !== "string") {
+      return res.status(400).json({ message: "Query is required" });
+    }
+
+    const depth = depthSchema.safeParse(req.query.depth);
+    if (!depth.success) {
+      return res.status(400).json({ message: "Invalid analysis depth" });
+    }
+
+    const requestedPersona = personaSchema.safeParse(req.query.persona);
+    if (!requestedPersona.success) {
+      return res.status(400).json({ message: "Invalid analysis persona" });
+    }
+
+    // Looked up before the stream opens, so a failure still gets a JSON error
+    let persona: Awaited<ReturnType<typeof resolvePersona>>;
+    try {
+      persona = await resolvePersona(userId, requestedPersona.data);
+    } catch (error) {
+      console.error("Error resolving analysis persona:", error);
+      return res.status(500).json({ message: "Failed to analyze song" });
+    }
+    if (!persona) {
+      return res.status(400).json({ message: "Describe your custom persona in your profile first" });
+    }
+
+    const audience = audienceSchema.safeParse(req.query.audience);
+    if (!audience.success) {
+      return res.status(400).json({ message: "Invalid analysis audience" });
+    }
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+
+    // Once the client has gone away the analysis still finishes and is saved,
+    // but nothing more is written to the closed stream
+    const disconnected = new AbortController();
+    res.on("close", () => {
+      if (!res.writableEnded) disconnected.abort();
+    });
+
+    const send = (event: string, data: unknown) => {
+      if (disconnected.signal.aborted) return;
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    try {
+      const songAnalysis = await analyzeSong(query.trim(), userId, { depth: depth.data, ...persona, audience: audience.data }, {
+        onPhase: (phase, song) => send("phase", { phase, song }),
+        onToken: (text) => send("token", { text }),
+      });
+
+      if (!songAnalysis) {
+        send("failed", { message: "Song not found" });
+      } else {
+        send("complete", songAnalysis);
+      }
+    } catch (error) {
+      console.error("Error streaming song analysis:", error);
+      send("failed", analysisErrorBody(error, "Failed to analyze song"));
+    } finally {
+      res.end();
+    }
+  });
+
+  // Get user's song analyses (history)
+  app.get("/api/songs/history", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const limit = parseInt(req.query.limit as string) || 20;
+      
+      const analyses = await storage.getUserSongAnalyses(userId, limit);
+      res.json(analyses);
+    } catch (error) {
+      console.error("Error fetching user history:", error);
+      res.status(500).json({ message: "Failed to fetch history" });
+    }
+  });
+
+  // Get specific song analysis
+  app.get("/api/songs/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const analysis = await storage.getSongAnalysis(id);
+      
+      if (!analysis) {
+        return res.status(404).json({ message: "Song analysis not found" });
+      }
+      
+      res.json(analysis);
+    } catch (error) {
+      console.error("Error fetching song analysis:", error);
+      res.status(500).json({ message: "Failed to fetch song analysis" });
+    }
+  });
+
+  // Songs sharing themes or mood with an analysis
+  app.get("/api/songs/:id/recommendations", isAuthenticated, async (req: any, res) => {
+    try {
+      const analysis = await storage.getSongAnalysis(parseInt(req.params.id));
+
+      if (!analysis) {
+        return res.status(404).json({ message: "Song analysis not found" });
+      }
+
+      res.json(await recommendForAnalysis(analysis));
+    } catch (error) {
+      console.error("Error fetching recommendations:", error);
+      res.status(500).json({ message: "Failed to fetch recommendations" });
+    }
+  });
+
+  // Line-by-line lyric annotations
+  app.get("/api/songs/:id/annotations", isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const granularity = req.query.granularity === "stanza" ? "stanza" : "line";
+
+      const annotations = await storage.getLyricAnnotations(id, granularity);
+      res.json(annotations);
+    } catch (error) {
+      console.error("Error fetching annotations:", error);
+      res.status(500).json({ message: "Failed to fetch annotations" });
+    }
+  });
+
+  app.post("/api/songs/:id/annotations", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      const granularity = req.body.granularity === "stanza" ? "stanza" : "line";
+      const analysis = await storage.getSongAnalysis(id);
+
+      if (!analysis) {
+        return res.status(404).json({ message: "Song analysis not found" });
+      }
+
+      if (!analysis.lyrics) {
+        return res.status(400).json({ message: "No lyrics available to annotate" });
+      }
+
+      // Annotations are generated once per analysis and mode
+      const existing = await storage.getLyricAnnotations(id, granularity);
+      if (existing.length > 0) {
+        return res.json(existing);
+      }
+
+      const annotations = await annotateLyrics(analysis.title, analysis.artist, analysis.lyrics, granularity, {
+        userId,
+        songAnalysisId: id,
+      });
+      const saved = await storage.createLyricAnnotations(
+        annotations.map((annotation) => ({ ...annotation, songAnalysisId: id, granularity }))
+      );
+      res.status(201).json(saved);
+    } catch (error) {
+      console.error("Error annotating lyrics:", error);
+      sendAnalysisError(res, error, "Failed to annotate lyrics");
+    }
+  });
+
+  // Themes, moods and the synthesized lens across an artist's analyzed songs
+  app.get("/api/artists/:name", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const overview = await getArtistOverview(req.params.name, userId);
+
+      if (!overview) {
+        return res.status(404).json({ message: "No analyzed songs by this artist" });
+      }
+
+      res.json(overview);
+    } catch (error) {
+      console.error("Error fetching artist profile:", error);
+      res.status(500).json({ message: "Failed to fetch artist profile" });
+    }
+  });
+
+  // Write the artist lens, or rewrite it when songs were analyzed since
+  app.post("/api/artists/:name/lens", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const overview = await getArtistOverview(req.params.name, userId, { refreshLens: true });
+
+      if (!overview) {
+        return res.status(404).json({ message: "No analyzed songs by this artist" });
+      }
+
+      res.json(overview);
+    } catch (error) {
+      console.error("Error writing artist lens:", error);
+      sendAnalysisError(res, error, "Failed to write artist lens");
+    }
+  });
+
+  // Lyric statistics next to the user's other songs and the artist's average
+  app.get("/api/songs/:id/stats", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      const analysis = await storage.getSongAnalysis(id);
+
+      if (!analysis) {
+        return res.status(404).json({ message: "Song analysis not found" });
+      }
+
+      if (!analysis.lyricStats) {
+        return res.status(404).json({ message: "No lyric statistics for this song" });
+      }
+
+      const [library, artist] = await Promise.all([
+        storage.getUserLyricStats(userId),
+        storage.getArtistLyricStats(normalizeArtist(analysis.artist)),
+      ]);
+
+      const comparison: LyricStatsComparison = {
+        song: analysis.lyricStats,
+        library: averageLyricStats(library, analysis),
+        artist: averageLyricStats(artist, analysis),
+      };
+      res.json(comparison);
+    } catch (error) {
+      console.error("Error fetching lyric statistics:", error);
+      res.status(500).json({ message: "Failed to fetch lyric statistics" });
+    }
+  });
+
+  // Literary devices with the lines they appear on
+  app.get("/api/songs/:id/devices", isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const devices = await storage.getLiteraryDevices(id);
+      res.json(devices);
+    } catch (error) {
+      console.error("Error fetching literary devices:", error);
+      res.status(500).json({ message: "Failed to fetch literary devices" });
+    }
+  });
+
+  app.post("/api/songs/:id/devices", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      const analysis = await storage.getSongAnalysis(id);
+
+      if (!analysis) {
+        return res.status(404).json({ message: "Song analysis not found" });
+      }
+
+      if (!analysis.lyrics) {
+        return res.status(400).json({ message: "No lyrics available to examine" });
+      }
+
+      // Devices are detected once per analysis
+      const existing = await storage.getLiteraryDevices(id);
+      if (existing.length > 0) {
+        return res.json(existing);
+      }
+
+      // Pattern matching finds the surface devices; the model finds the ones
+      // that need interpretation
+      const interpreted = await detectLiteraryDevices(analysis.title, analysis.artist, analysis.lyrics, {
+        userId,
+        songAnalysisId: id,
+      });
+      const saved = await storage.createLiteraryDevices(
+        [...detectPatternDevices(analysis.lyrics), ...interpreted].map((device) => ({ ...device, songAnalysisId: id }))
+      );
+      res.status(201).json(saved);
+    } catch (error) {
+      console.error("Error detecting literary devices:", error);
+      sendAnalysisError(res, error, "Failed to detect literary devices");
+    }
+  });
+
+  // Regenerated revisions of an analysis
+  app.get("/api/songs/:id/revisions", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      const analysis = await storage.getSongAnalysis(id);
+
+      if (!analysis) {
+        return res.status(404).json({ message: "Song analysis not found" });
+      }
+
+      const rootId = analysis.parentAnalysisId ?? analysis.id;
+      const [revisions, pinned] = await Promise.all([
+        storage.getAnalysisRevisions(rootId, userId),
+        storage.getPinnedRevision(rootId, userId),
+      ]);
+
+      const result: AnalysisRevisions = { primaryId: pinned?.id ?? rootId, revisions };
+      res.json(result);
+    } catch (error) {
+      console.error("Error fetching analysis revisions:", error);
+      res.status(500).json({ message: "Failed to fetch analysis revisions" });
+    }
+  });
+
+  app.post("/api/songs/:id/regenerate", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      const body = regenerateSchema.safeParse(req.body ?? {});
+
+      if (!body.success) {
+        return res.status(400).json({ message: "Guidance must be 500 characters or fewer" });
+      }
+
+      const analysis = await storage.getSongAnalysis(id);
+
+      if (!analysis) {
+        return res.status(404).json({ message: "Song analysis not found" });
+      }
+
+      const revision = await regenerateAnalysis(analysis, body.data.guidance || undefined, userId);
+      res.status(201).json(revision);
+    } catch (error) {
+      console.error("Error regenerating analysis:", error);
+      sendAnalysisError(res, error, "Failed to regenerate analysis");
+    }
+  });
+
+  app.post("/api/songs/:id/pin", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      const analysis = await storage.getSongAnalysis(id);
+
+      if (!analysis || (analysis.parentAnalysisId && analysis.userId !== userId)) {
+        return res.status(404).json({ message: "Song analysis not found" });
+      }
+
+      const rootId = analysis.parentAnalysisId ?? analysis.id;
+      const updated = await storage.pinAnalysisRevision(userId, rootId, id);
+
+      // Pinning a song the user never searched for adds it to their history
+      if (updated === 0) {
+        await storage.addToSearchHistory({
+          userId,
+          searchQuery: `${analysis.artist} - ${analysis.title}`,
+          songAnalysisId: id,
+        });
+      }
+
+      res.json({ primaryId: id });
+    } catch (error) {
+      console.error("Error pinning analysis revision:", error);
+      res.status(500).json({ message: "Failed to pin analysis revision" });
+    }
+  });
+
+  // Reader ratings and comments on an analysis
+  app.get("/api/songs/:id/feedback", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      const feedback = await storage.getAnalysisFeedback(id, userId);
+      res.json(feedback ?? null);
+    } catch (error) {
+      console.error("Error fetching feedback:", error);
+      res.status(500).json({ message: "Failed to fetch feedback" });
+    }
+  });
+
+  app.put("/api/songs/:id/feedback", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      const body = feedbackSchema.safeParse(req.body);
+
+      if (!body.success) {
+        return res.status(400).json({ message: "Invalid feedback" });
+      }
+
+      const analysis = await storage.getSongAnalysis(id);
+
+      if (!analysis) {
+        return res.status(404).json({ message: "Song analysis not found" });
+      }
+
+      const feedback = await storage.upsertAnalysisFeedback({ ...body.data, songAnalysisId: id, userId });
+      res.json(feedback);
+    } catch (error) {
+      console.error("Error saving feedback:", error);
+      res.status(500).json({ message: "Failed to save feedback" });
+    }
+  });
+
+  app.delete("/api/songs/:id/feedback", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      await storage.deleteAnalysisFeedback(id, userId);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting feedback:", error);
+      res.status(500).json({ message: "Failed to delete feedback" });
+    }
+  });
+
+  // Comprehension quizzes: the latest quiz per difficulty is shared by
+  // everyone reading the analysis; answers are only revealed once graded
+  app.get("/api/songs/:id/quiz", isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const difficulty = quizDifficultySchema.safeParse(req.query.difficulty);
+
+      if (!difficulty.success) {
+        return res.status(400).json({ message: "Invalid difficulty" });
+      }
+
+      const quiz = await storage.getLatestQuiz(id, difficulty.data);
+      res.json(quiz ? quizForTaking(quiz) : null);
+    } catch (error) {
+      console.error("Error fetching quiz:", error);
+      res.status(500).json({ message: "Failed to fetch quiz" });
+    }
+  });
+
+  // Generates a quiz, or a fresh set of questions when one already exists
+  app.post("/api/songs/:id/quiz", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      const difficulty = quizDifficultySchema.safeParse(req.body.difficulty);
+
+      if (!difficulty.success) {
+        return res.status(400).json({ message: "Invalid difficulty" });
+      }
+
+      const analysis = await storage.getSongAnalysis(id);
+
+      if (!analysis) {
+        return res.status(404).json({ message: "Song analysis not found" });
+      }
+
+      const quiz = await createQuiz(analysis, difficulty.data, userId);
+      res.status(201).json(quizForTaking(quiz));
+    } catch (error) {
+      console.error("Error generating quiz:", error);
+      sendAnalysisError(res, error, "Failed to generate quiz");
+    }
+  });
+
+  app.get("/api/quizzes/:id/attempts", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-      res.json(user);
+      const id = parseInt(req.params.id);
+      const attempts = await storage.getUserQuizAttempts(id, userId);
+      res.json(attempts);
     } catch (error) {
-      console.error("Error fetching user:", error);
-      res.status(500).json({ message: "Failed to fetch user" });
+      console.error("Error fetching quiz attempts:", error);
+      res.status(500).json({ message: "Failed to fetch quiz attempts" });
     }
   });
 
-  // Song search and analysis
-  app.post("/api/songs/search", isAuthenticated, async (req: any, res) => {
+  app.post("/api/quizzes/:id/attempts", isAuthenticated, async (req: any, res) => {
     try {
-      const { query } = req.body;
       const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      const body = quizAttemptSchema.safeParse(req.body);
 
-      if (!query || typeof query !== "string") {
-        return res.status(400).json({ message: "Query is required" });
+      if (!body.success) {
+        return res.status(400).json({ message: "Invalid quiz answers" });
       }
 
-      // Search for song information
-      const songInfo = await searchSong(query.trim());
-      
-      if (!songInfo) {
-        return res.status(404).json({ message: "Song not found" });
+      const quiz = await storage.getQuiz(id);
+
+      if (!quiz) {
+        return res.status(404).json({ message: "Quiz not found" });
       }
 
-      // Get additional details if we have basic info
-      const detailedInfo = await getSongDetails(songInfo.title, songInfo.artist);
-      const finalSongInfo = { ...songInfo, ...detailedInfo };
+      const graded = await submitQuizAttempt(quiz, userId, body.data.responses);
+      res.status(201).json(graded);
+    } catch (error) {
+      console.error("Error grading quiz:", error);
+      res.status(500).json({ message: "Failed to grade quiz" });
+    }
+  });
 
-      // Generate AI analysis
-      let analysis: string;
-      
-      if (finalSongInfo.lyrics) {
-        // Analyze actual lyrics if available
-        const lyricsAnalysis = await analyzeLyrics(
-          finalSongInfo.title,
-          finalSongInfo.artist,
-          finalSongInfo.lyrics
-        );
-        analysis = `${lyricsAnalysis.meaning}\n\nKey themes: ${lyricsAnalysis.themes.join(", ")}\nMood: ${lyricsAnalysis.mood}\n\n${lyricsAnalysis.interpretation}`;
-      } else {
-        // Generate analysis based on song info
-        analysis = await generateSongMeaning(
-          finalSongInfo.title,
-          finalSongInfo.artist,
-          finalSongInfo.genre,
-          finalSongInfo.year
-        );
-      }
-
-      // Extract metadata from AI analysis
-      const genreMatch = analysis.match(/Genre:\s*(.+)/i);
-      const yearMatch = analysis.match(/Release Year:\s*(\d{4})/i);
-      
-      const extractedGenre = genreMatch ? genreMatch[1].trim() : finalSongInfo.genre;
-      const extractedYear = yearMatch ? parseInt(yearMatch[1]) : finalSongInfo.year;
-
-      // Clean analysis by removing metadata lines
-      const cleanedAnalysis = analysis
-        .replace(/Genre:\s*.+/gi, '')
-        .replace(/Release Year:\s*\d{4}/gi, '')
-        .trim();
-
-      // Save analysis to database
-      const songAnalysis = await storage.createSongAnalysis({
-        title: finalSongInfo.title,
-        artist: finalSongInfo.artist,
-        genre: extractedGenre || null,
-        yearReleased: extractedYear || null,
-        lyricsAnalysis: cleanedAnalysis,
-        userId
-      });
+  // Follow-up Q&A about an analysis
+  app.get("/api/songs/:id/chat", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+
+      const messages = await storage.getChatMessages(id, userId);
+      res.json(messages);
+    } catch (error) {
+      console.error("Error fetching chat:", error);
+      res.status(500).json({ message: "Failed to fetch chat" });
+    }
+  });
+
+  app.post("/api/songs/:id/chat", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      const { message } = req.body;
+
+      if (!message || typeof message !== "string" || !message.trim()) {
+        return res.status(400).json({ message: "Message is required" });
+      }
+
+      const analysis = await storage.getSongAnalysis(id);
+      if (!analysis) {
+        return res.status(404).json({ message: "Song analysis not found" });
+      }
+
+      // Keep the prompt bounded on long threads
+      const history = (await storage.getChatMessages(id, userId))
+        .slice(-CHAT_HISTORY_LIMIT)
+        .map(({ role, content }) => ({ role, content }));
 
-      // Add to search history
-      await storage.addToSearchHistory({
+      const reply = await answerFollowUpQuestion(analysis, history, message.trim(), { userId, songAnalysisId: id });
+
+      const userMessage = await storage.addChatMessage({
+        songAnalysisId: id,
+        userId,
+        role: "user",
+        content: message.trim()
+      });
+      const assistantMessage = await storage.addChatMessage({
+        songAnalysisId: id,
         userId,
-        searchQuery: query,
-        songAnalysisId: songAnalysis.id
+        role: "assistant",
+        content: reply
       });
 
-      res.json(songAnalysis);
+      res.status(201).json([userMessage, assistantMessage]);
     } catch (error) {
-      console.error("Error searching song:", error);
-      res.status(500).json({ 
-        message: "Failed to analyze song", 
-        error: error instanceof Error ? error.message : "Unknown error"
+      console.error("Error answering chat message:", error);
+      sendAnalysisError(res, error, "Failed to answer question");
+    }
+  });
+
+  app.delete("/api/songs/:id/chat", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+
+      await storage.clearChatMessages(id, userId);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error clearing chat:", error);
+      res.status(500).json({ message: "Failed to clear chat" });
+    }
+  });
+
+  // Album analysis: every track, then an album-wide narrative. Streams
+  // progress over Server-Sent Events since a full album takes a while.
+  app.get("/api/albums/search/stream", isAuthenticated, async (req: any, res) => {
+    const { query } = req.query;
+    const userId = req.user.claims.sub;
+
+    if (!query || typeof query !== "string") {
+      return res.status(400).json({ message: "Query is required" });
+    }
+
+    const depth = depthSchema.safeParse(req.query.depth);
+    if (!depth.success) {
+      return res.status(400).json({ message: "Invalid analysis depth" });
+    }
+
+    const requestedPersona = personaSchema.safeParse(req.query.persona);
+    if (!requestedPersona.success) {
+      return res.status(400).json({ message: "Invalid analysis persona" });
+    }
+
+    let persona: Awaited<ReturnType<typeof resolvePersona>>;
+    try {
+      persona = await resolvePersona(userId, requestedPersona.data);
+    } catch (error) {
+      console.error("Error resolving analysis persona:", error);
+      return res.status(500).json({ message: "Failed to analyze album" });
+    }
+    if (!persona) {
+      return res.status(400).json({ message: "Describe your custom persona in your profile first" });
+    }
+
+    const audience = audienceSchema.safeParse(req.query.audience);
+    if (!audience.success) {
+      return res.status(400).json({ message: "Invalid analysis audience" });
+    }
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+
+    const send = (event: string, data: unknown) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    // Stop analyzing tracks once the client has gone away
+    const disconnected = new AbortController();
+    res.on("close", () => {
+      if (!res.writableEnded) disconnected.abort();
+    });
+
+    try {
+      const album = await analyzeAlbum(query.trim(), userId, { depth: depth.data, ...persona, audience: audience.data }, {
+        onAlbum: ({ title, artist, year, tracks }) => send("album", { title, artist, year, tracks }),
+        onTrack: (position, status) => send("track", { position, status }),
+        onNarrative: () => send("narrative", {}),
+        signal: disconnected.signal,
       });
+
+      if (disconnected.signal.aborted) {
+        return;
+      }
+
+      if (!album) {
+        send("failed", { message: "Album not found" });
+      } else {
+        send("complete", album);
+      }
+    } catch (error) {
+      console.error("Error streaming album analysis:", error);
+      send("failed", analysisErrorBody(error, "Failed to analyze album"));
+    } finally {
+      res.end();
     }
   });
 
-  // Get user's song analyses (history)
-  app.get("/api/songs/history", isAuthenticated, async (req: any, res) => {
+  app.get("/api/albums", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const limit = parseInt(req.query.limit as string) || 20;
-      
-      const analyses = await storage.getUserSongAnalyses(userId, limit);
-      res.json(analyses);
+      const albums = await storage.getUserAlbumAnalyses(userId);
+      res.json(albums);
     } catch (error) {
-      console.error("Error fetching user history:", error);
-      res.status(500).json({ message: "Failed to fetch history" });
+      console.error("Error fetching albums:", error);
+      res.status(500).json({ message: "Failed to fetch albums" });
     }
   });
 
-  // Get specific song analysis
-  app.get("/api/songs/:id", isAuthenticated, async (req: any, res) => {
+  app.get("/api/albums/:id", isAuthenticated, async (req: any, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const analysis = await storage.getSongAnalysis(id);
-      
-      if (!analysis) {
+      const userId = req.user.claims.sub;
+      const album = await storage.getAlbumAnalysis(parseInt(req.params.id));
+
+      if (!album || album.userId !== userId) {
+        return res.status(404).json({ message: "Album not found" });
+      }
+
+      res.json(await withAlbumTracks(album));
+    } catch (error) {
+      console.error("Error fetching album:", error);
+      res.status(500).json({ message: "Failed to fetch album" });
+    }
+  });
+
+  // Lesson plans written from songs in the user's history or favorites
+  app.post("/api/lesson-plans", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const body = lessonPlanSchema.safeParse(req.body);
+
+      if (!body.success) {
+        return res.status(400).json({ message: "Pick between one and five songs and a session length" });
+      }
+
+      const { songAnalysisIds, ...options } = body.data;
+      const plan = await createLessonPlan(songAnalysisIds, userId, options);
+
+      if (!plan) {
         return res.status(404).json({ message: "Song analysis not found" });
       }
-      
-      res.json(analysis);
+
+      res.status(201).json(plan);
     } catch (error) {
-      console.error("Error fetching song analysis:", error);
-      res.status(500).json({ message: "Failed to fetch song analysis" });
+      console.error("Error generating lesson plan:", error);
+      sendAnalysisError(res, error, "Failed to generate lesson plan");
+    }
+  });
+
+  app.get("/api/lesson-plans", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const plans = await storage.getUserLessonPlans(userId);
+      res.json(plans);
+    } catch (error) {
+      console.error("Error fetching lesson plans:", error);
+      res.status(500).json({ message: "Failed to fetch lesson plans" });
+    }
+  });
+
+  app.get("/api/lesson-plans/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const plan = await storage.getLessonPlan(parseInt(req.params.id));
+
+      if (!plan || plan.userId !== userId) {
+        return res.status(404).json({ message: "Lesson plan not found" });
+      }
+
+      res.json(await withLessonSongs(plan));
+    } catch (error) {
+      console.error("Error fetching lesson plan:", error);
+      res.status(500).json({ message: "Failed to fetch lesson plan" });
+    }
+  });
+
+  // Download as Markdown, Word-compatible HTML or PDF
+  app.get("/api/lesson-plans/:id/export", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const format = lessonPlanFormatSchema.safeParse(req.query.format);
+
+      if (!format.success) {
+        return res.status(400).json({ message: "Invalid export format" });
+      }
+
+      const plan = await storage.getLessonPlan(parseInt(req.params.id));
+
+      if (!plan || plan.userId !== userId) {
+        return res.status(404).json({ message: "Lesson plan not found" });
+      }
+
+      const exported = exportLessonPlan(await withLessonSongs(plan), format.data);
+      const filename = plan.title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "lesson-plan";
+
+      res.set("Content-Type", exported.contentType);
+      res.set("Content-Disposition", `attachment; filename="${filename}.${exported.extension}"`);
+      res.send(exported.body);
+    } catch (error) {
+      console.error("Error exporting lesson plan:", error);
+      res.status(500).json({ message: "Failed to export lesson plan" });
+    }
+  });
+
+  // Song comparisons
+  app.post("/api/comparisons", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { leftId, rightId, leftQuery, rightQuery } = req.body;
+
+      if (!(leftId || leftQuery) || !(rightId || rightQuery)) {
+        return res.status(400).json({ message: "Two song analysis ids or search queries are required" });
+      }
+
+      const requestedPersona = personaSchema.safeParse(req.body.persona);
+      if (!requestedPersona.success) {
+        return res.status(400).json({ message: "Invalid analysis persona" });
+      }
+
+      const audience = audienceSchema.safeParse(req.body.audience);
+      if (!audience.success) {
+        return res.status(400).json({ message: "Invalid analysis audience" });
+      }
+
+      // Songs searched for here are analyzed in the same voice as a regular search
+      const persona = await resolvePersona(userId, requestedPersona.data);
+      if (!persona && !(leftId && rightId)) {
+        return res.status(400).json({ message: "Describe your custom persona in your profile first" });
+      }
+
+      // Each side is an existing analysis id or a query to search and analyze
+      const resolveSide = async (id: unknown, query: unknown) => {
+        if (id) return await storage.getSongAnalysis(parseInt(String(id)));
+        if (typeof query === "string" && query.trim()) {
+          return await analyzeSong(query.trim(), userId, { ...persona, audience: audience.data });
+        }
+        return undefined;
+      };
+
+      const left = await resolveSide(leftId, leftQuery);
+      const right = await resolveSide(rightId, rightQuery);
+
+      if (!left || !right) {
+        return res.status(404).json({ message: "Song not found" });
+      }
+
+      const result = await compareSongs(left, right, { userId });
+      const comparison = await storage.createComparison({
+        userId,
+        leftAnalysisId: left.id,
+        rightAnalysisId: right.id,
+        ...result
+      });
+
+      res.status(201).json({ ...comparison, left, right });
+    } catch (error) {
+      console.error("Error comparing songs:", error);
+      sendAnalysisError(res, error, "Failed to compare songs");
+    }
+  });
+
+  app.get("/api/comparisons", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const comparisons = await storage.getUserComparisons(userId);
+      res.json(await Promise.all(comparisons.map(withComparedSongs)));
+    } catch (error) {
+      console.error("Error fetching comparisons:", error);
+      res.status(500).json({ message: "Failed to fetch comparisons" });
+    }
+  });
+
+  // Read access for anyone holding the share link
+  app.get("/api/comparisons/shared/:shareToken", isAuthenticated, async (req: any, res) => {
+    try {
+      const comparison = await storage.getComparisonByShareToken(req.params.shareToken);
+
+      if (!comparison) {
+        return res.status(404).json({ message: "Comparison not found" });
+      }
+
+      res.json(await withComparedSongs(comparison));
+    } catch (error) {
+      console.error("Error fetching shared comparison:", error);
+      res.status(500).json({ message: "Failed to fetch comparison" });
+    }
+  });
+
+  app.get("/api/comparisons/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const comparison = await storage.getComparison(parseInt(req.params.id));
+
+      if (!comparison || comparison.userId !== userId) {
+        return res.status(404).json({ message: "Comparison not found" });
+      }
+
+      res.json(await withComparedSongs(comparison));
+    } catch (error) {
+      console.error("Error fetching comparison:", error);
+      res.status(500).json({ message: "Failed to fetch comparison" });
+    }
+  });
+
+  app.patch("/api/comparisons/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      const { isFavorite } = req.body;
+
+      if (typeof isFavorite !== "boolean") {
+        return res.status(400).json({ message: "isFavorite must be a boolean" });
+      }
+
+      const comparison = await storage.getComparison(id);
+      if (!comparison || comparison.userId !== userId) {
+        return res.status(404).json({ message: "Comparison not found" });
+      }
+
+      const updated = await storage.updateComparison(id, { isFavorite });
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating comparison:", error);
+      res.status(500).json({ message: "Failed to update comparison" });
+    }
+  });
+
+  app.post("/api/comparisons/:id/share", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+
+      const comparison = await storage.getComparison(id);
+      if (!comparison || comparison.userId !== userId) {
+        return res.status(404).json({ message: "Comparison not found" });
+      }
+
+      const updated = comparison.shareToken
+        ? comparison
+        : await storage.updateComparison(id, { shareToken: nanoid(12) });
+      res.json({ shareToken: updated!.shareToken });
+    } catch (error) {
+      console.error("Error sharing comparison:", error);
+      res.status(500).json({ message: "Failed to share comparison" });
+    }
+  });
+
+  // Songs sharing themes or mood with the user's favorites
+  app.get("/api/recommendations", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      res.json(await recommendForFavorites(userId));
+    } catch (error) {
+      console.error("Error fetching recommendations:", error);
+      res.status(500).json({ message: "Failed to fetch recommendations" });
     }
   });
 
@@ -207,6 +1179,64 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // LLM usage
+  app.get("/api/usage", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      res.json(await getUsageSummary(userId, usageSince(req.query.days)));
+    } catch (error) {
+      console.error("Error fetching usage:", error);
+      res.status(500).json({ message: "Failed to fetch usage" });
+    }
+  });
+
+  app.get("/api/admin/usage", isAuthenticated, isAdmin, async (req: any, res) => {
+    try {
+      res.json(await storage.getUsageByUser(usageSince(req.query.days)));
+    } catch (error) {
+      console.error("Error fetching usage by user:", error);
+      res.status(500).json({ message: "Failed to fetch usage" });
+    }
+  });
+
+  app.get("/api/admin/feedback", isAuthenticated, isAdmin, async (req: any, res) => {
+    try {
+      res.json(await getFeedbackReport(usageSince(req.query.days)));
+    } catch (error) {
+      console.error("Error building feedback report:", error);
+      res.status(500).json({ message: "Failed to build feedback report" });
+    }
+  });
+
+  // Prompt templates (admin only)
+  app.get("/api/admin/prompts", isAuthenticated, isAdmin, async (req: any, res) => {
+    try {
+      res.json(listPromptTemplates());
+    } catch (error) {
+      console.error("Error listing prompt templates:", error);
+      res.status(500).json({ message: "Failed to list prompt templates" });
+    }
+  });
+
+  app.post("/api/admin/prompts/:id/preview", isAuthenticated, isAdmin, async (req: any, res) => {
+    try {
+      const body = promptPreviewSchema.safeParse(req.body);
+      if (!body.success) {
+        return res.status(400).json({ message: "Invalid preview request" });
+      }
+
+      const versions = getTemplateVersions(req.params.id);
+      if (versions.length === 0 || (body.data.version && !versions.some((t) => t.version === body.data.version))) {
+        return res.status(404).json({ message: "Prompt template not found" });
+      }
+
+      res.json(previewPrompt(req.params.id, body.data.variables, body.data.version));
+    } catch (error) {
+      console.error("Error previewing prompt:", error);
+      res.status(500).json({ message: "Failed to preview prompt" });
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
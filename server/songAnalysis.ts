@@ -0,0 +1,278 @@
+import { storage } from "./storage";
+import { searchSong, getSongDetails } from "./lyricsApi";
+import { analyzeLyrics, generateSongMeaning, type AnalysisOptions, type TokenHandler } from "./openai";
+import { analysisVariant, canonicalSongKey, getCachedAnalysis, cacheAnalysis } from "./analysisCache";
+import { getPromptTemplate } from "./prompts";
+import type { UsageContext } from "./usageLedger";
+import { getArtistOverview } from "./artistProfile";
+import { analyzeProsody } from "./prosody";
+import { analyzeEmotionalArc } from "./emotionalArc";
+import { analyzeLyricStats } from "./lyricStats";
+import { catalogClaimsFrom, reconcileMetadata } from "./metadataReconciliation";
+import type { AnalysisAudience, AnalysisDepth, AnalysisPersona, SongAnalysis } from "@shared/schema";
+import {
+  buildSections,
+  parseAnalysisText,
+  type AnalysisStreamPhase,
+  type SongPreview,
+  type StructuredAnalysis,
+} from "@shared/analysis";
+
+export interface SongAnalysisOptions {
+  depth?: AnalysisDepth;
+  persona?: AnalysisPersona;
+  // The user's persona description when persona is "custom"
+  customPersona?: string | null;
+  audience?: AnalysisAudience;
+  // Off when the song is analyzed as part of something else, like an album,
+  // so it doesn't show up as a search of its own
+  recordHistory?: boolean;
+}
+
+export interface AnalysisProgress {
+  onPhase?: (phase: AnalysisStreamPhase, song?: SongPreview) => void;
+  onToken?: TokenHandler;
+}
+
+interface AnalysisSubject {
+  title: string;
+  artist: string;
+  lyrics?: string | null;
+  genre?: string | null;
+  year?: number | null;
+}
+
+interface GeneratedAnalysis {
+  rawAnalysis: string;
+  structured: StructuredAnalysis;
+  aiGenre?: string;
+  aiYear?: number;
+}
+
+// Analyze the lyrics when we have them, otherwise write the meaning from the
+// song's title, artist and catalog details
+async function generateAnalysis(song: AnalysisSubject, options: AnalysisOptions): Promise<GeneratedAnalysis> {
+  if (song.lyrics) {
+    const lyricsAnalysis = await analyzeLyrics(song.title, song.artist, song.lyrics, options);
+    return {
+      rawAnalysis: JSON.stringify(lyricsAnalysis, null, 2),
+      structured: {
+        ...lyricsAnalysis,
+        sections: [
+          ...buildSections(lyricsAnalysis.meaning, lyricsAnalysis.interpretation),
+          ...(lyricsAnalysis.sections || []),
+        ],
+      },
+    };
+  }
+
+  const rawAnalysis = await generateSongMeaning(
+    song.title,
+    song.artist,
+    song.genre || undefined,
+    song.year || undefined,
+    options
+  );
+  const { genre, year, ...structured } = parseAnalysisText(rawAnalysis);
+  return { rawAnalysis, structured, aiGenre: genre, aiYear: year };
+}
+
+// Look up a song, generate its analysis and persist it for the user.
+// Returns null when the song can't be found.
+export async function analyzeSong(
+  query: string,
+  userId: string,
+  {
+    depth = "standard",
+    persona = "critic",
+    customPersona = null,
+    audience = "general",
+    recordHistory = true,
+  }: SongAnalysisOptions = {},
+  progress: AnalysisProgress = {}
+): Promise<SongAnalysis | null> {
+  // Search for song information
+  progress.onPhase?.("lookup");
+  const songInfo = await searchSong(query);
+
+  if (!songInfo) {
+    return null;
+  }
+
+  // Serve a shared cached analysis when another search already produced one
+  const songKey = canonicalSongKey(songInfo.title, songInfo.artist);
+  const variant = analysisVariant(depth, persona, audience);
+  const cached = songKey && variant ? await getCachedAnalysis(songKey, variant) : undefined;
+
+  if (cached) {
+    // Users who pinned a regenerated revision keep getting it back
+    const primary = (await storage.getPinnedRevision(cached.id, userId)) ?? cached;
+    if (recordHistory) {
+      await storage.addToSearchHistory({
+        userId,
+        searchQuery: query,
+        songAnalysisId: primary.id
+      });
+    }
+    return primary;
+  }
+
+  // Get additional details if we have basic info
+  progress.onPhase?.("metadata", { title: songInfo.title, artist: songInfo.artist });
+  const detailedInfo = await getSongDetails(songInfo.title, songInfo.artist);
+  const catalogClaims = [...(detailedInfo?.claims ?? []), ...(songInfo.claims ?? [])];
+  const catalog = reconcileMetadata(catalogClaims);
+  const finalSongInfo = {
+    ...songInfo,
+    ...detailedInfo,
+    genre: catalog.genre.value ?? undefined,
+    year: catalog.year.value ?? undefined,
+  };
+
+  // Generate AI analysis
+  progress.onPhase?.("analysis", {
+    title: finalSongInfo.title,
+    artist: finalSongInfo.artist,
+    genre: finalSongInfo.genre || null,
+    yearReleased: finalSongInfo.year || null,
+  });
+
+  // Ledger entries are linked to the analysis once it is saved
+  const usageEntryIds: number[] = [];
+  const usage: UsageContext = { userId, entryIds: usageEntryIds };
+
+  const { rawAnalysis, structured, aiGenre, aiYear } = await generateAnalysis(
+    finalSongInfo,
+    { depth, persona, customPersona, audience, onToken: progress.onToken, usage }
+  );
+
+  // Catalog data wins over the genre and year the model claims; where they
+  // disagree, both are kept in the metadata
+  const reconciliation = reconcileMetadata(catalogClaims, { genre: aiGenre, year: aiYear });
+
+  // Save analysis to database, stamped with the prompt version that produced it
+  const prompt = getPromptTemplate(finalSongInfo.lyrics ? "lyrics-analysis" : "song-meaning");
+  const songAnalysis = await storage.createSongAnalysis({
+    songKey,
+    title: finalSongInfo.title,
+    artist: finalSongInfo.artist,
+    genre: reconciliation.genre.value,
+    yearReleased: reconciliation.year.value,
+    lyricsAnalysis: rawAnalysis,
+    lyrics: finalSongInfo.lyrics || null,
+    prosody: finalSongInfo.lyrics ? analyzeProsody(finalSongInfo.lyrics) : null,
+    emotionalArc: finalSongInfo.lyrics ? analyzeEmotionalArc(finalSongInfo.lyrics) : null,
+    lyricStats: finalSongInfo.lyrics ? analyzeLyricStats(finalSongInfo.lyrics) : null,
+    depth,
+    persona,
+    customPersona: persona === "custom" ? customPersona : null,
+    audience,
+    ...structured,
+    metadata: {
+      source: finalSongInfo.lyrics ? "lyrics" : "song-info",
+      catalogGenre: finalSongInfo.genre || null,
+      catalogYear: finalSongInfo.year || null,
+      aiGenre: aiGenre || null,
+      aiYear: aiYear || null,
+      reconciliation,
+    },
+    promptId: prompt.id,
+    promptVersion: prompt.version,
+    userId
+  });
+
+  await storage.linkUsageToAnalysis(usageEntryIds, songAnalysis.id);
+
+  if (songKey && variant) {
+    await cacheAnalysis(songKey, variant, songAnalysis);
+  }
+
+  // Bring the artist lens up to date with the new song in the background; a
+  // failed rewrite leaves the lens stale for the next visit to refresh
+  getArtistOverview(songAnalysis.artist, userId, { refreshLens: true }).catch((error) => {
+    console.error("Error refreshing artist lens:", error);
+  });
+
+  // Add to search history
+  if (recordHistory) {
+    await storage.addToSearchHistory({
+      userId,
+      searchQuery: query,
+      songAnalysisId: songAnalysis.id
+    });
+  }
+
+  return songAnalysis;
+}
+
+// Regenerate an analysis as a new revision of the original, steered by the
+// reader's guidance. The revision reuses the original's lyrics and metrics,
+// isn't cached, and only becomes the user's primary once pinned.
+export async function regenerateAnalysis(
+  original: SongAnalysis,
+  guidance: string | undefined,
+  userId: string
+): Promise<SongAnalysis> {
+  const depth = original.depth;
+  const usageEntryIds: number[] = [];
+  const usage: UsageContext = { userId, entryIds: usageEntryIds };
+
+  const { rawAnalysis, structured, aiGenre, aiYear } = await generateAnalysis(
+    {
+      title: original.title,
+      artist: original.artist,
+      lyrics: original.lyrics,
+      genre: original.metadata?.catalogGenre ?? original.genre,
+      year: original.metadata?.catalogYear ?? original.yearReleased,
+    },
+    {
+      depth,
+      persona: original.persona,
+      customPersona: original.customPersona,
+      audience: original.audience,
+      usage,
+      revision: { previous: original.lyricsAnalysis, guidance },
+    }
+  );
+
+  const catalogClaims = catalogClaimsFrom(original.metadata);
+  const reconciliation = catalogClaims.length > 0 || aiGenre || aiYear
+    ? reconcileMetadata(catalogClaims, { genre: aiGenre, year: aiYear })
+    : undefined;
+
+  // Stamped with the revision turn that produced it rather than the base
+  // analysis prompt it follows up on
+  const prompt = getPromptTemplate("analysis-revision");
+  const revision = await storage.createSongAnalysis({
+    songKey: null,
+    title: original.title,
+    artist: original.artist,
+    genre: reconciliation ? reconciliation.genre.value : original.genre,
+    yearReleased: reconciliation ? reconciliation.year.value : original.yearReleased,
+    lyricsAnalysis: rawAnalysis,
+    lyrics: original.lyrics,
+    prosody: original.prosody,
+    emotionalArc: original.emotionalArc,
+    lyricStats: original.lyricStats,
+    depth,
+    persona: original.persona,
+    customPersona: original.customPersona,
+    audience: original.audience,
+    ...structured,
+    metadata: original.metadata && {
+      ...original.metadata,
+      aiGenre: aiGenre || null,
+      aiYear: aiYear || null,
+      reconciliation,
+    },
+    promptId: prompt.id,
+    promptVersion: prompt.version,
+    parentAnalysisId: original.parentAnalysisId ?? original.id,
+    guidance: guidance || null,
+    userId
+  });
+
+  await storage.linkUsageToAnalysis(usageEntryIds, revision.id);
+
+  return revision;
+}
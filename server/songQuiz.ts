@@ -0,0 +1,127 @@
+import { storage } from "./storage";
+import { generateQuizQuestions } from "./openai";
+import { getPromptTemplate } from "./prompts";
+import type {
+  GradedQuizAttempt,
+  QuizAnswerResult,
+  QuizDifficulty,
+  QuizForTaking,
+  QuizQuestion,
+  QuizResponse,
+  SongAnalysis,
+  SongQuiz,
+} from "@shared/schema";
+
+// Write a new quiz for the analysis at the given difficulty. It becomes the
+// one served for that difficulty; earlier quizzes keep their attempts.
+export async function createQuiz(
+  analysis: SongAnalysis,
+  difficulty: QuizDifficulty,
+  userId: string
+): Promise<SongQuiz> {
+  const questions = await generateQuizQuestions(analysis, difficulty, {
+    userId,
+    songAnalysisId: analysis.id,
+  });
+
+  if (questions.length === 0) {
+    throw new Error("Failed to generate quiz: no usable questions");
+  }
+
+  const prompt = getPromptTemplate("song-quiz");
+
+  return await storage.createQuiz({
+    songAnalysisId: analysis.id,
+    difficulty,
+    questions,
+    promptId: prompt.id,
+    promptVersion: prompt.version,
+  });
+}
+
+// The quiz without its answer key, for someone about to take it
+export function quizForTaking(quiz: SongQuiz): QuizForTaking {
+  return {
+    id: quiz.id,
+    songAnalysisId: quiz.songAnalysisId,
+    difficulty: quiz.difficulty,
+    questions: quiz.questions.map(({ type, question, choices }) => ({ type, question, choices })),
+    createdAt: quiz.createdAt,
+  };
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9\s]/g, " ").replace(/\s+/g, " ").trim();
+}
+
+const suffixes = ["ness", "ment", "ful", "ity", "ing", "al", "ed", "es", "s"];
+
+// Strip common endings so "universally", "universal" and "universe" share a
+// base, while "warm" still doesn't count as "war". Only adverbs made from
+// adjectives lose their "ly", which keeps "lovely" apart from "love".
+function wordBase(word: string): string {
+  let base = word.length > 4 ? word.replace(/ies$/, "y") : word;
+  base = base.replace(/(al|ful|ous|ive|ate|ent|ant)ly$/, "$1");
+  for (let stripped = true; stripped; ) {
+    stripped = false;
+    for (const suffix of suffixes) {
+      if (base.endsWith(suffix) && base.length - suffix.length >= 3) {
+        base = base.slice(0, -suffix.length);
+        stripped = true;
+        break;
+      }
+    }
+  }
+  return base.endsWith("e") && base.length > 3 ? base.slice(0, -1) : base;
+}
+
+// Whole words only, allowing for endings: "privately" counts for "private",
+// and a phrase has to appear word for word
+function mentions(response: string, keyword: string): boolean {
+  const wanted = normalize(keyword).split(" ").filter(Boolean).map(wordBase);
+  if (wanted.length === 0) return false;
+
+  const words = response.split(" ").map(wordBase);
+  return words.some((_, start) => wanted.every((base, offset) => words[start + offset] === base));
+}
+
+function gradeResponse(question: QuizQuestion, response: QuizResponse): boolean {
+  if (question.type === "multiple-choice") {
+    return response === question.answerIndex;
+  }
+
+  if (typeof response !== "string" || !response.trim()) return false;
+
+  // A short answer is right when it covers at least half the keywords
+  const text = normalize(response);
+  const keywords = question.keywords ?? [];
+  const matched = keywords.filter((keyword) => mentions(text, keyword)).length;
+  return matched > 0 && matched >= Math.ceil(keywords.length / 2);
+}
+
+export function gradeQuiz(quiz: SongQuiz, responses: QuizResponse[]): QuizAnswerResult[] {
+  return quiz.questions.map((question, index) => {
+    const response = responses[index] ?? null;
+    return { response, correct: gradeResponse(question, response) };
+  });
+}
+
+// Grade the responses and record them as the user's attempt, returning the
+// answer key alongside so the results can explain each question
+export async function submitQuizAttempt(
+  quiz: SongQuiz,
+  userId: string,
+  responses: QuizResponse[]
+): Promise<GradedQuizAttempt> {
+  const answers = gradeQuiz(quiz, responses);
+
+  const attempt = await storage.createQuizAttempt({
+    quizId: quiz.id,
+    userId,
+    answers,
+    score: answers.filter((answer) => answer.correct).length,
+    total: answers.length,
+  });
+
+  return { attempt, questions: quiz.questions };
+}
@@ -3,27 +3,187 @@ import {
   songAnalyses,
   favorites,
   searchHistory,
+  lyricAnnotations,
+  literaryDevices,
+  analysisCache,
+  artistProfiles,
+  analysisChatMessages,
+  analysisFeedback,
+  songQuizzes,
+  quizAttempts,
+  songComparisons,
+  albumAnalyses,
+  albumTracks,
+  lessonPlans,
+  llmUsage,
   type User,
   type UpsertUser,
+  type UserPreferences,
   type SongAnalysis,
   type InsertSongAnalysis,
   type Favorite,
   type InsertFavorite,
   type SearchHistory,
   type InsertSearchHistory,
+  type LyricAnnotation,
+  type InsertLyricAnnotation,
+  type AnnotationGranularity,
+  type LiteraryDevice,
+  type InsertLiteraryDevice,
+  type AnalysisCacheEntry,
+  type InsertAnalysisCacheEntry,
+  type ArtistProfile,
+  type InsertArtistProfile,
+  type AnalysisChatMessage,
+  type InsertAnalysisChatMessage,
+  type AnalysisFeedback,
+  type InsertAnalysisFeedback,
+  type SongQuiz,
+  type InsertSongQuiz,
+  type QuizDifficulty,
+  type QuizAttempt,
+  type InsertQuizAttempt,
+  type SongComparison,
+  type InsertSongComparison,
+  type AlbumAnalysis,
+  type AlbumAnalysisVoice,
+  type InsertAlbumAnalysis,
+  type InsertAlbumTrack,
+  type AlbumTrackWithSong,
+  type LessonPlan,
+  type InsertLessonPlan,
+  type LlmUsage,
+  type InsertLlmUsage,
+  type UsageTotals,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and } from "drizzle-orm";
+import { eq, desc, and, or, asc, isNull, isNotNull, max, gt, gte, inArray, like, sql, getTableColumns } from "drizzle-orm";
+
+// Aggregates shared by the usage summaries
+const usageTotalsColumns = {
+  calls: sql<number>`count(*)`.mapWith(Number),
+  failures: sql<number>`count(*) filter (where ${llmUsage.outcome} <> 'success')`.mapWith(Number),
+  promptTokens: sql<number>`coalesce(sum(${llmUsage.promptTokens}), 0)`.mapWith(Number),
+  completionTokens: sql<number>`coalesce(sum(${llmUsage.completionTokens}), 0)`.mapWith(Number),
+  estimatedCost: sql<number>`coalesce(sum(${llmUsage.estimatedCost}), 0)`.mapWith(Number),
+};
+
+// Just what the lyric statistics comparisons need, without the lyrics
+const lyricStatsColumns = {
+  id: songAnalyses.id,
+  songKey: songAnalyses.songKey,
+  lyricStats: songAnalyses.lyricStats,
+};
+
+export type LyricStatsRow = Pick<SongAnalysis, "id" | "songKey" | "lyricStats">;
+
+// What recommendations are scored on, without the lyrics and analysis text
+const recommendationColumns = {
+  id: songAnalyses.id,
+  songKey: songAnalyses.songKey,
+  title: songAnalyses.title,
+  artist: songAnalyses.artist,
+  yearReleased: songAnalyses.yearReleased,
+  mood: songAnalyses.mood,
+  themes: songAnalyses.themes,
+};
+
+export type RecommendationCandidate = Pick<
+  SongAnalysis,
+  "id" | "songKey" | "title" | "artist" | "yearReleased" | "mood" | "themes"
+>;
+
+// A rating joined with what produced the analysis, for the feedback report
+export type FeedbackReportRow = Pick<AnalysisFeedback, "songAnalysisId" | "rating" | "comments"> &
+  Pick<SongAnalysis, "title" | "artist" | "promptId" | "promptVersion"> & {
+    provider: string | null;
+    source: string | null;
+  };
 
 export interface IStorage {
   // User operations (mandatory for Replit Auth)
   getUser(id: string): Promise<User | undefined>;
   upsertUser(user: UpsertUser): Promise<User>;
+  updateUserPreferences(id: string, preferences: UserPreferences): Promise<User | undefined>;
   
   // Song analysis operations
   createSongAnalysis(analysis: InsertSongAnalysis): Promise<SongAnalysis>;
   getSongAnalysis(id: number): Promise<SongAnalysis | undefined>;
+  getSongAnalysesByIds(ids: number[]): Promise<SongAnalysis[]>;
   getUserSongAnalyses(userId: string, limit?: number): Promise<SongAnalysis[]>;
+  getUnstructuredSongAnalyses(limit?: number): Promise<SongAnalysis[]>;
+  getSongAnalysesMissingCraftMetrics(limit?: number): Promise<SongAnalysis[]>;
+  getSongAnalysesMissingSongKey(afterId: number, limit?: number): Promise<SongAnalysis[]>;
+  getUserLyricStats(userId: string): Promise<LyricStatsRow[]>;
+  getArtistLyricStats(artistKey: string): Promise<LyricStatsRow[]>;
+  getArtistSongAnalyses(artistKey: string): Promise<SongAnalysis[]>;
+  getAnalysesSharingThemes(themes: string[], moods: string[], limit?: number): Promise<RecommendationCandidate[]>;
+  updateSongAnalysis(id: number, analysis: Partial<InsertSongAnalysis>): Promise<SongAnalysis | undefined>;
+
+  // Analysis revision operations
+  getAnalysisRevisions(rootId: number, userId: string): Promise<SongAnalysis[]>;
+  getPinnedRevision(rootId: number, userId: string): Promise<SongAnalysis | undefined>;
+  pinAnalysisRevision(userId: string, rootId: number, songAnalysisId: number): Promise<number>;
+  
+  // Analysis cache operations
+  getAnalysisCacheEntry(songKey: string, variant: string): Promise<AnalysisCacheEntry | undefined>;
+  upsertAnalysisCacheEntry(entry: InsertAnalysisCacheEntry): Promise<AnalysisCacheEntry>;
+
+  // Artist profile operations
+  getArtistProfile(artistKey: string): Promise<ArtistProfile | undefined>;
+  upsertArtistProfile(profile: InsertArtistProfile): Promise<ArtistProfile>;
+  
+  // Lyric annotation operations
+  getLyricAnnotations(songAnalysisId: number, granularity: AnnotationGranularity): Promise<LyricAnnotation[]>;
+  createLyricAnnotations(annotations: InsertLyricAnnotation[]): Promise<LyricAnnotation[]>;
+
+  // Literary device operations
+  getLiteraryDevices(songAnalysisId: number): Promise<LiteraryDevice[]>;
+  createLiteraryDevices(devices: InsertLiteraryDevice[]): Promise<LiteraryDevice[]>;
+  
+  // Follow-up chat operations
+  getChatMessages(songAnalysisId: number, userId: string): Promise<AnalysisChatMessage[]>;
+  addChatMessage(message: InsertAnalysisChatMessage): Promise<AnalysisChatMessage>;
+  clearChatMessages(songAnalysisId: number, userId: string): Promise<void>;
+  
+  // Feedback operations
+  getAnalysisFeedback(songAnalysisId: number, userId: string): Promise<AnalysisFeedback | undefined>;
+  upsertAnalysisFeedback(feedback: InsertAnalysisFeedback): Promise<AnalysisFeedback>;
+  deleteAnalysisFeedback(songAnalysisId: number, userId: string): Promise<void>;
+  getFeedbackSince(since: Date): Promise<FeedbackReportRow[]>;
+
+  // Quiz operations
+  createQuiz(quiz: InsertSongQuiz): Promise<SongQuiz>;
+  getQuiz(id: number): Promise<SongQuiz | undefined>;
+  getLatestQuiz(songAnalysisId: number, difficulty: QuizDifficulty): Promise<SongQuiz | undefined>;
+  createQuizAttempt(attempt: InsertQuizAttempt): Promise<QuizAttempt>;
+  getUserQuizAttempts(quizId: number, userId: string): Promise<QuizAttempt[]>;
+
+  // Song comparison operations
+  createComparison(comparison: InsertSongComparison): Promise<SongComparison>;
+  getComparison(id: number): Promise<SongComparison | undefined>;
+  getComparisonByShareToken(shareToken: string): Promise<SongComparison | undefined>;
+  getUserComparisons(userId: string, limit?: number): Promise<SongComparison[]>;
+  updateComparison(id: number, comparison: Partial<InsertSongComparison>): Promise<SongComparison | undefined>;
+  
+  // Album analysis operations
+  createAlbumAnalysis(album: InsertAlbumAnalysis, tracks: Omit<InsertAlbumTrack, "albumAnalysisId">[]): Promise<AlbumAnalysis>;
+  getAlbumAnalysis(id: number): Promise<AlbumAnalysis | undefined>;
+  getAlbumTracks(albumAnalysisId: number): Promise<AlbumTrackWithSong[]>;
+  getUserAlbumAnalyses(userId: string, limit?: number): Promise<AlbumAnalysis[]>;
+  findUserAlbumAnalysis(userId: string, albumKey: string, voice: AlbumAnalysisVoice): Promise<AlbumAnalysis | undefined>;
+
+  // Lesson plan operations
+  createLessonPlan(plan: InsertLessonPlan): Promise<LessonPlan>;
+  getLessonPlan(id: number): Promise<LessonPlan | undefined>;
+  getUserLessonPlans(userId: string, limit?: number): Promise<LessonPlan[]>;
+  
+  // LLM usage operations
+  createUsageEntry(entry: InsertLlmUsage): Promise<LlmUsage>;
+  linkUsageToAnalysis(ids: number[], songAnalysisId: number): Promise<void>;
+  getUserUsageByTask(userId: string, since: Date): Promise<(UsageTotals & { task: string })[]>;
+  getRecentUsage(userId: string, limit?: number): Promise<LlmUsage[]>;
+  getUsageByUser(since: Date): Promise<(UsageTotals & { userId: string })[]>;
   
   // Favorites operations
   addToFavorites(favorite: InsertFavorite): Promise<Favorite>;
@@ -59,6 +219,15 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async updateUserPreferences(id: string, preferences: UserPreferences): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({ preferences, updatedAt: new Date() })
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
   // Song analysis operations
   async createSongAnalysis(analysis: InsertSongAnalysis): Promise<SongAnalysis> {
     const [songAnalysis] = await db
@@ -76,15 +245,578 @@ export class DatabaseStorage implements IStorage {
     return analysis;
   }
 
+  // In no particular order; callers order them as they need
+  async getSongAnalysesByIds(ids: number[]): Promise<SongAnalysis[]> {
+    if (ids.length === 0) return [];
+    return await db
+      .select()
+      .from(songAnalyses)
+      .where(inArray(songAnalyses.id, ids));
+  }
+
+  // Analyses are shared, so a user's analyses are the ones they searched for,
+  // most recently searched first
   async getUserSongAnalyses(userId: string, limit = 50): Promise<SongAnalysis[]> {
+    return await db
+      .select(getTableColumns(songAnalyses))
+      .from(songAnalyses)
+      .innerJoin(searchHistory, eq(searchHistory.songAnalysisId, songAnalyses.id))
+      .where(eq(searchHistory.userId, userId))
+      .groupBy(songAnalyses.id)
+      .orderBy(desc(max(searchHistory.createdAt)))
+      .limit(limit);
+  }
+
+  // Rows written before analyses were stored as structured fields
+  async getUnstructuredSongAnalyses(limit = 500): Promise<SongAnalysis[]> {
+    return await db
+      .select()
+      .from(songAnalyses)
+      .where(isNull(songAnalyses.meaning))
+      .limit(limit);
+  }
+
+  async getSongAnalysesMissingCraftMetrics(limit = 500): Promise<SongAnalysis[]> {
+    return await db
+      .select()
+      .from(songAnalyses)
+      .where(
+        and(
+          isNotNull(songAnalyses.lyrics),
+          or(
+            isNull(songAnalyses.prosody),
+            isNull(songAnalyses.emotionalArc),
+            isNull(songAnalyses.lyricStats)
+          )
+        )
+      )
+      .limit(limit);
+  }
+
+  // Originals written before the song-key cache, oldest first. Paged by id,
+  // since rows for an unknown artist never get a key.
+  async getSongAnalysesMissingSongKey(afterId: number, limit = 500): Promise<SongAnalysis[]> {
+    return await db
+      .select()
+      .from(songAnalyses)
+      .where(
+        and(
+          isNull(songAnalyses.songKey),
+          isNull(songAnalyses.parentAnalysisId),
+          gt(songAnalyses.id, afterId)
+        )
+      )
+      .orderBy(asc(songAnalyses.id))
+      .limit(limit);
+  }
+
+  async getUserLyricStats(userId: string): Promise<LyricStatsRow[]> {
+    return await db
+      .select(lyricStatsColumns)
+      .from(songAnalyses)
+      .innerJoin(searchHistory, eq(searchHistory.songAnalysisId, songAnalyses.id))
+      .where(and(eq(searchHistory.userId, userId), isNotNull(songAnalyses.lyricStats)))
+      .groupBy(songAnalyses.id);
+  }
+
+  async getArtistLyricStats(artistKey: string): Promise<LyricStatsRow[]> {
+    return await db
+      .select(lyricStatsColumns)
+      .from(songAnalyses)
+      .where(and(like(songAnalyses.songKey, `${artistKey}::%`), isNotNull(songAnalyses.lyricStats)));
+  }
+
+  // Song keys start with the normalized artist, see canonicalSongKey
+  async getArtistSongAnalyses(artistKey: string): Promise<SongAnalysis[]> {
     return await db
       .select()
       .from(songAnalyses)
-      .where(eq(songAnalyses.userId, userId))
-      .orderBy(desc(songAnalyses.createdAt))
+      .where(like(songAnalyses.songKey, `${artistKey}::%`))
+      .orderBy(desc(songAnalyses.createdAt), desc(songAnalyses.id));
+  }
+
+  // Original analyses (not revisions) with any of the themes or moods,
+  // compared case-insensitively; pass them lowercased. Newest first.
+  async getAnalysesSharingThemes(themes: string[], moods: string[], limit = 200): Promise<RecommendationCandidate[]> {
+    const matches = [
+      themes.length > 0
+        ? sql`exists (select 1 from unnest(${songAnalyses.themes}) as theme where lower(theme) in ${themes})`
+        : undefined,
+      moods.length > 0 ? sql`lower(${songAnalyses.mood}) in ${moods}` : undefined,
+    ].filter((match) => match !== undefined);
+
+    if (matches.length === 0) return [];
+
+    return await db
+      .select(recommendationColumns)
+      .from(songAnalyses)
+      .where(and(isNotNull(songAnalyses.songKey), or(...matches)))
+      .orderBy(desc(songAnalyses.createdAt), desc(songAnalyses.id))
+      .limit(limit);
+  }
+
+  async updateSongAnalysis(id: number, analysis: Partial<InsertSongAnalysis>): Promise<SongAnalysis | undefined> {
+    const [updated] = await db
+      .update(songAnalyses)
+      .set(analysis)
+      .where(eq(songAnalyses.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Analysis revision operations
+  // The original analysis followed by the user's regenerated revisions of it
+  async getAnalysisRevisions(rootId: number, userId: string): Promise<SongAnalysis[]> {
+    return await db
+      .select()
+      .from(songAnalyses)
+      .where(
+        or(
+          eq(songAnalyses.id, rootId),
+          and(eq(songAnalyses.parentAnalysisId, rootId), eq(songAnalyses.userId, userId))
+        )
+      )
+      .orderBy(asc(songAnalyses.createdAt), asc(songAnalyses.id));
+  }
+
+  // A pinned revision replaces the original in the user's search history
+  async getPinnedRevision(rootId: number, userId: string): Promise<SongAnalysis | undefined> {
+    const [pinned] = await db
+      .select(getTableColumns(songAnalyses))
+      .from(songAnalyses)
+      .innerJoin(searchHistory, eq(searchHistory.songAnalysisId, songAnalyses.id))
+      .where(and(eq(songAnalyses.parentAnalysisId, rootId), eq(searchHistory.userId, userId)))
+      .orderBy(desc(searchHistory.createdAt))
+      .limit(1);
+    return pinned;
+  }
+
+  // Point the user's history entries for any version of the analysis at the
+  // pinned one; returns how many entries were updated
+  async pinAnalysisRevision(userId: string, rootId: number, songAnalysisId: number): Promise<number> {
+    const family = db
+      .select({ id: songAnalyses.id })
+      .from(songAnalyses)
+      .where(or(eq(songAnalyses.id, rootId), eq(songAnalyses.parentAnalysisId, rootId)));
+
+    const updated = await db
+      .update(searchHistory)
+      .set({ songAnalysisId })
+      .where(and(eq(searchHistory.userId, userId), inArray(searchHistory.songAnalysisId, family)))
+      .returning({ id: searchHistory.id });
+    return updated.length;
+  }
+
+  // Analysis cache operations
+  async getAnalysisCacheEntry(songKey: string, variant: string): Promise<AnalysisCacheEntry | undefined> {
+    const [entry] = await db
+      .select()
+      .from(analysisCache)
+      .where(
+        and(
+          eq(analysisCache.songKey, songKey),
+          eq(analysisCache.variant, variant)
+        )
+      );
+    return entry;
+  }
+
+  async upsertAnalysisCacheEntry(entry: InsertAnalysisCacheEntry): Promise<AnalysisCacheEntry> {
+    const [cached] = await db
+      .insert(analysisCache)
+      .values(entry)
+      .onConflictDoUpdate({
+        target: [analysisCache.songKey, analysisCache.variant],
+        set: {
+          ...entry,
+          createdAt: new Date(),
+        },
+      })
+      .returning();
+    return cached;
+  }
+
+  // Artist profile operations
+  async getArtistProfile(artistKey: string): Promise<ArtistProfile | undefined> {
+    const [profile] = await db
+      .select()
+      .from(artistProfiles)
+      .where(eq(artistProfiles.artistKey, artistKey));
+    return profile;
+  }
+
+  async upsertArtistProfile(profile: InsertArtistProfile): Promise<ArtistProfile> {
+    const [saved] = await db
+      .insert(artistProfiles)
+      .values(profile)
+      .onConflictDoUpdate({
+        target: artistProfiles.artistKey,
+        set: {
+          ...profile,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return saved;
+  }
+
+  // Lyric annotation operations
+  async getLyricAnnotations(songAnalysisId: number, granularity: AnnotationGranularity): Promise<LyricAnnotation[]> {
+    return await db
+      .select()
+      .from(lyricAnnotations)
+      .where(
+        and(
+          eq(lyricAnnotations.songAnalysisId, songAnalysisId),
+          eq(lyricAnnotations.granularity, granularity)
+        )
+      )
+      .orderBy(asc(lyricAnnotations.startLine));
+  }
+
+  async createLyricAnnotations(annotations: InsertLyricAnnotation[]): Promise<LyricAnnotation[]> {
+    if (annotations.length === 0) return [];
+    return await db
+      .insert(lyricAnnotations)
+      .values(annotations)
+      .returning();
+  }
+
+  // Literary device operations
+  async getLiteraryDevices(songAnalysisId: number): Promise<LiteraryDevice[]> {
+    return await db
+      .select()
+      .from(literaryDevices)
+      .where(eq(literaryDevices.songAnalysisId, songAnalysisId))
+      .orderBy(asc(literaryDevices.startLine), asc(literaryDevices.id));
+  }
+
+  async createLiteraryDevices(devices: InsertLiteraryDevice[]): Promise<LiteraryDevice[]> {
+    if (devices.length === 0) return [];
+    return await db
+      .insert(literaryDevices)
+      .values(devices)
+      .returning();
+  }
+
+  // Follow-up chat operations
+  async getChatMessages(songAnalysisId: number, userId: string): Promise<AnalysisChatMessage[]> {
+    return await db
+      .select()
+      .from(analysisChatMessages)
+      .where(
+        and(
+          eq(analysisChatMessages.songAnalysisId, songAnalysisId),
+          eq(analysisChatMessages.userId, userId)
+        )
+      )
+      .orderBy(asc(analysisChatMessages.createdAt), asc(analysisChatMessages.id));
+  }
+
+  async addChatMessage(message: InsertAnalysisChatMessage): Promise<AnalysisChatMessage> {
+    const [newMessage] = await db
+      .insert(analysisChatMessages)
+      .values(message)
+      .returning();
+    return newMessage;
+  }
+
+  async clearChatMessages(songAnalysisId: number, userId: string): Promise<void> {
+    await db
+      .delete(analysisChatMessages)
+      .where(
+        and(
+          eq(analysisChatMessages.songAnalysisId, songAnalysisId),
+          eq(analysisChatMessages.userId, userId)
+        )
+      );
+  }
+
+  // Feedback operations
+  async getAnalysisFeedback(songAnalysisId: number, userId: string): Promise<AnalysisFeedback | undefined> {
+    const [feedback] = await db
+      .select()
+      .from(analysisFeedback)
+      .where(and(eq(analysisFeedback.songAnalysisId, songAnalysisId), eq(analysisFeedback.userId, userId)));
+    return feedback;
+  }
+
+  async upsertAnalysisFeedback(feedback: InsertAnalysisFeedback): Promise<AnalysisFeedback> {
+    const [saved] = await db
+      .insert(analysisFeedback)
+      .values(feedback)
+      .onConflictDoUpdate({
+        target: [analysisFeedback.songAnalysisId, analysisFeedback.userId],
+        set: {
+          rating: feedback.rating,
+          comments: feedback.comments,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteAnalysisFeedback(songAnalysisId: number, userId: string): Promise<void> {
+    await db
+      .delete(analysisFeedback)
+      .where(and(eq(analysisFeedback.songAnalysisId, songAnalysisId), eq(analysisFeedback.userId, userId)));
+  }
+
+  // The provider is taken from the analysis's first ledger entry; analyses
+  // from before the ledger have none
+  async getFeedbackSince(since: Date): Promise<FeedbackReportRow[]> {
+    return await db
+      .select({
+        songAnalysisId: analysisFeedback.songAnalysisId,
+        rating: analysisFeedback.rating,
+        comments: analysisFeedback.comments,
+        title: songAnalyses.title,
+        artist: songAnalyses.artist,
+        promptId: songAnalyses.promptId,
+        promptVersion: songAnalyses.promptVersion,
+        provider: sql<string | null>`(
+          select ${llmUsage.provider} from ${llmUsage}
+          where ${llmUsage.songAnalysisId} = ${songAnalyses.id}
+          order by ${llmUsage.id}
+          limit 1
+        )`,
+        source: sql<string | null>`${songAnalyses.metadata}->>'source'`,
+      })
+      .from(analysisFeedback)
+      .innerJoin(songAnalyses, eq(analysisFeedback.songAnalysisId, songAnalyses.id))
+      .where(gte(analysisFeedback.updatedAt, since));
+  }
+
+  // Quiz operations
+  async createQuiz(quiz: InsertSongQuiz): Promise<SongQuiz> {
+    const [newQuiz] = await db
+      .insert(songQuizzes)
+      .values(quiz)
+      .returning();
+    return newQuiz;
+  }
+
+  async getQuiz(id: number): Promise<SongQuiz | undefined> {
+    const [quiz] = await db
+      .select()
+      .from(songQuizzes)
+      .where(eq(songQuizzes.id, id));
+    return quiz;
+  }
+
+  async getLatestQuiz(songAnalysisId: number, difficulty: QuizDifficulty): Promise<SongQuiz | undefined> {
+    const [quiz] = await db
+      .select()
+      .from(songQuizzes)
+      .where(and(eq(songQuizzes.songAnalysisId, songAnalysisId), eq(songQuizzes.difficulty, difficulty)))
+      .orderBy(desc(songQuizzes.id))
+      .limit(1);
+    return quiz;
+  }
+
+  async createQuizAttempt(attempt: InsertQuizAttempt): Promise<QuizAttempt> {
+    const [newAttempt] = await db
+      .insert(quizAttempts)
+      .values(attempt)
+      .returning();
+    return newAttempt;
+  }
+
+  async getUserQuizAttempts(quizId: number, userId: string): Promise<QuizAttempt[]> {
+    return await db
+      .select()
+      .from(quizAttempts)
+      .where(and(eq(quizAttempts.quizId, quizId), eq(quizAttempts.userId, userId)))
+      .orderBy(desc(quizAttempts.createdAt));
+  }
+
+  // Song comparison operations
+  async createComparison(comparison: InsertSongComparison): Promise<SongComparison> {
+    const [newComparison] = await db
+      .insert(songComparisons)
+      .values(comparison)
+      .returning();
+    return newComparison;
+  }
+
+  async getComparison(id: number): Promise<SongComparison | undefined> {
+    const [comparison] = await db
+      .select()
+      .from(songComparisons)
+      .where(eq(songComparisons.id, id));
+    return comparison;
+  }
+
+  async getComparisonByShareToken(shareToken: string): Promise<SongComparison | undefined> {
+    const [comparison] = await db
+      .select()
+      .from(songComparisons)
+      .where(eq(songComparisons.shareToken, shareToken));
+    return comparison;
+  }
+
+  async getUserComparisons(userId: string, limit = 20): Promise<SongComparison[]> {
+    return await db
+      .select()
+      .from(songComparisons)
+      .where(eq(songComparisons.userId, userId))
+      .orderBy(desc(songComparisons.createdAt))
       .limit(limit);
   }
 
+  async updateComparison(id: number, comparison: Partial<InsertSongComparison>): Promise<SongComparison | undefined> {
+    const [updated] = await db
+      .update(songComparisons)
+      .set(comparison)
+      .where(eq(songComparisons.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Album analysis operations
+  async createAlbumAnalysis(
+    album: InsertAlbumAnalysis,
+    tracks: Omit<InsertAlbumTrack, "albumAnalysisId">[]
+  ): Promise<AlbumAnalysis> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(albumAnalyses).values(album).returning();
+      if (tracks.length > 0) {
+        await tx.insert(albumTracks).values(tracks.map((track) => ({ ...track, albumAnalysisId: created.id })));
+      }
+      return created;
+    });
+  }
+
+  async getAlbumAnalysis(id: number): Promise<AlbumAnalysis | undefined> {
+    const [album] = await db
+      .select()
+      .from(albumAnalyses)
+      .where(eq(albumAnalyses.id, id));
+    return album;
+  }
+
+  async getAlbumTracks(albumAnalysisId: number): Promise<AlbumTrackWithSong[]> {
+    const rows = await db
+      .select({
+        track: albumTracks,
+        songAnalysis: {
+          id: songAnalyses.id,
+          title: songAnalyses.title,
+          mood: songAnalyses.mood,
+          themes: songAnalyses.themes,
+        },
+      })
+      .from(albumTracks)
+      .leftJoin(songAnalyses, eq(albumTracks.songAnalysisId, songAnalyses.id))
+      .where(eq(albumTracks.albumAnalysisId, albumAnalysisId))
+      .orderBy(asc(albumTracks.position));
+
+    return rows.map(({ track, songAnalysis }) => ({ ...track, songAnalysis }));
+  }
+
+  async getUserAlbumAnalyses(userId: string, limit = 20): Promise<AlbumAnalysis[]> {
+    return await db
+      .select()
+      .from(albumAnalyses)
+      .where(eq(albumAnalyses.userId, userId))
+      .orderBy(desc(albumAnalyses.createdAt))
+      .limit(limit);
+  }
+
+  async findUserAlbumAnalysis(
+    userId: string,
+    albumKey: string,
+    { depth, persona, customPersona, audience }: AlbumAnalysisVoice
+  ): Promise<AlbumAnalysis | undefined> {
+    const [album] = await db
+      .select()
+      .from(albumAnalyses)
+      .where(
+        and(
+          eq(albumAnalyses.userId, userId),
+          eq(albumAnalyses.albumKey, albumKey),
+          eq(albumAnalyses.depth, depth),
+          eq(albumAnalyses.persona, persona),
+          customPersona ? eq(albumAnalyses.customPersona, customPersona) : isNull(albumAnalyses.customPersona),
+          eq(albumAnalyses.audience, audience)
+        )
+      )
+      .orderBy(desc(albumAnalyses.createdAt))
+      .limit(1);
+    return album;
+  }
+
+  // Lesson plan operations
+  async createLessonPlan(plan: InsertLessonPlan): Promise<LessonPlan> {
+    const [newPlan] = await db
+      .insert(lessonPlans)
+      .values(plan)
+      .returning();
+    return newPlan;
+  }
+
+  async getLessonPlan(id: number): Promise<LessonPlan | undefined> {
+    const [plan] = await db
+      .select()
+      .from(lessonPlans)
+      .where(eq(lessonPlans.id, id));
+    return plan;
+  }
+
+  async getUserLessonPlans(userId: string, limit = 20): Promise<LessonPlan[]> {
+    return await db
+      .select()
+      .from(lessonPlans)
+      .where(eq(lessonPlans.userId, userId))
+      .orderBy(desc(lessonPlans.createdAt))
+      .limit(limit);
+  }
+
+  // LLM usage operations
+  async createUsageEntry(entry: InsertLlmUsage): Promise<LlmUsage> {
+    const [newEntry] = await db
+      .insert(llmUsage)
+      .values(entry)
+      .returning();
+    return newEntry;
+  }
+
+  async linkUsageToAnalysis(ids: number[], songAnalysisId: number): Promise<void> {
+    if (ids.length === 0) return;
+    await db
+      .update(llmUsage)
+      .set({ songAnalysisId })
+      .where(inArray(llmUsage.id, ids));
+  }
+
+  async getUserUsageByTask(userId: string, since: Date): Promise<(UsageTotals & { task: string })[]> {
+    return await db
+      .select({ task: llmUsage.task, ...usageTotalsColumns })
+      .from(llmUsage)
+      .where(and(eq(llmUsage.userId, userId), gte(llmUsage.createdAt, since)))
+      .groupBy(llmUsage.task)
+      .orderBy(desc(usageTotalsColumns.estimatedCost));
+  }
+
+  async getRecentUsage(userId: string, limit = 20): Promise<LlmUsage[]> {
+    return await db
+      .select()
+      .from(llmUsage)
+      .where(eq(llmUsage.userId, userId))
+      .orderBy(desc(llmUsage.createdAt))
+      .limit(limit);
+  }
+
+  async getUsageByUser(since: Date): Promise<(UsageTotals & { userId: string })[]> {
+    return await db
+      .select({ userId: llmUsage.userId, ...usageTotalsColumns })
+      .from(llmUsage)
+      .where(gte(llmUsage.createdAt, since))
+      .groupBy(llmUsage.userId)
+      .orderBy(desc(usageTotalsColumns.estimatedCost));
+  }
+
   // Favorites operations
   async addToFavorites(favorite: InsertFavorite): Promise<Favorite> {
     const [newFavorite] = await db
@@ -112,16 +844,7 @@ export class DatabaseStorage implements IStorage {
         userId: favorites.userId,
         songAnalysisId: favorites.songAnalysisId,
         createdAt: favorites.createdAt,
-        songAnalysis: {
-          id: songAnalyses.id,
-          title: songAnalyses.title,
-          artist: songAnalyses.artist,
-          genre: songAnalyses.genre,
-          yearReleased: songAnalyses.yearReleased,
-          lyricsAnalysis: songAnalyses.lyricsAnalysis,
-          userId: songAnalyses.userId,
-          createdAt: songAnalyses.createdAt,
-        },
+        songAnalysis: getTableColumns(songAnalyses),
       })
       .from(favorites)
       .innerJoin(songAnalyses, eq(favorites.songAnalysisId, songAnalyses.id))
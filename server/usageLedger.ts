@@ -0,0 +1,99 @@
+import { storage } from "./storage";
+import type { CompletionResult } from "./analysisProvider";
+import type { LlmUsageOutcome, UsageSummary, UsageTotals } from "@shared/schema";
+
+// Who an LLM call is billed to. Calls made before their analysis is saved
+// collect their ledger entry ids so they can be linked to it afterwards.
+export interface UsageContext {
+  userId: string;
+  songAnalysisId?: number;
+  entryIds?: number[];
+}
+
+interface ModelPricing {
+  // USD per million tokens
+  input: number;
+  output: number;
+}
+
+// Matched by prefix so dated snapshots ("gpt-4o-2024-08-06") resolve too;
+// longer prefixes first so "gpt-4o-mini" doesn't match "gpt-4o"
+const modelPricing: [string, ModelPricing][] = [
+  ["gpt-4o-mini", { input: 0.15, output: 0.6 }],
+  ["gpt-4o", { input: 2.5, output: 10 }],
+  ["gpt-4.1-nano", { input: 0.1, output: 0.4 }],
+  ["gpt-4.1-mini", { input: 0.4, output: 1.6 }],
+  ["gpt-4.1", { input: 2, output: 8 }],
+  ["gpt-4-turbo", { input: 10, output: 30 }],
+  ["gpt-3.5-turbo", { input: 0.5, output: 1.5 }],
+];
+
+// LLM_PRICING="<input>,<output>" (USD per million tokens) prices models
+// missing from the table, e.g. a hosted openai-compatible endpoint
+function getModelPricing(model: string): ModelPricing | undefined {
+  const match = modelPricing.find(([prefix]) => model.startsWith(prefix));
+  if (match) return match[1];
+
+  const [input, output] = (process.env.LLM_PRICING || "").split(",").map(parseFloat);
+  return Number.isFinite(input) && Number.isFinite(output) ? { input, output } : undefined;
+}
+
+export function estimateCost(model: string, promptTokens: number, completionTokens: number): number | null {
+  const pricing = getModelPricing(model);
+  if (!pricing) return null;
+  return (promptTokens * pricing.input + completionTokens * pricing.output) / 1_000_000;
+}
+
+// Ledger writes never fail the call they describe. Failed calls are recorded
+// with the model that was asked and no token counts, which providers don't
+// report for them.
+export async function recordUsage(
+  context: UsageContext,
+  task: string,
+  provider: string,
+  result: Pick<CompletionResult, "model" | "usage">,
+  latencyMs: number,
+  outcome: LlmUsageOutcome = "success"
+): Promise<void> {
+  try {
+    const promptTokens = result.usage?.promptTokens ?? 0;
+    const completionTokens = result.usage?.completionTokens ?? 0;
+
+    const entry = await storage.createUsageEntry({
+      userId: context.userId,
+      songAnalysisId: context.songAnalysisId ?? null,
+      task,
+      provider,
+      model: result.model,
+      promptTokens,
+      completionTokens,
+      latencyMs,
+      estimatedCost: estimateCost(result.model, promptTokens, completionTokens),
+      outcome,
+    });
+
+    context.entryIds?.push(entry.id);
+  } catch (error) {
+    console.error("Error recording LLM usage:", error);
+  }
+}
+
+export async function getUsageSummary(userId: string, since: Date): Promise<UsageSummary> {
+  const [byTask, recent] = await Promise.all([
+    storage.getUserUsageByTask(userId, since),
+    storage.getRecentUsage(userId),
+  ]);
+
+  const totals = byTask.reduce<UsageTotals>(
+    (sum, task) => ({
+      calls: sum.calls + task.calls,
+      failures: sum.failures + task.failures,
+      promptTokens: sum.promptTokens + task.promptTokens,
+      completionTokens: sum.completionTokens + task.completionTokens,
+      estimatedCost: sum.estimatedCost + task.estimatedCost,
+    }),
+    { calls: 0, failures: 0, promptTokens: 0, completionTokens: 0, estimatedCost: 0 }
+  );
+
+  return { since: since.toISOString(), totals, byTask, recent };
+}
@@ -0,0 +1,195 @@
+import type { AnalysisAudience, AnalysisDepth, AnalysisPersona, AnalysisSection, QuizDifficulty } from "./schema";
+
+export const depthLabels: Record<AnalysisDepth, string> = {
+  quick: "Quick Take",
+  standard: "Standard",
+  deep: "Deep Dive",
+};
+
+export const personaLabels: Record<AnalysisPersona, string> = {
+  critic: "Critic",
+  historian: "Music Historian",
+  teacher: "High-School Teacher",
+  fan: "Fellow Fan",
+  coach: "Songwriting Coach",
+  custom: "Custom",
+};
+
+export const audienceLabels: Record<AnalysisAudience, string> = {
+  general: "General",
+  "middle-school": "Middle School",
+  "high-school": "High School",
+  university: "University",
+};
+
+export const quizDifficultyLabels: Record<QuizDifficulty, string> = {
+  easy: "Easy",
+  medium: "Medium",
+  hard: "Hard",
+};
+
+export interface StructuredAnalysis {
+  meaning: string;
+  themes: string[];
+  mood: string | null;
+  interpretation: string | null;
+  sections: AnalysisSection[];
+}
+
+export interface ParsedAnalysisText extends StructuredAnalysis {
+  genre?: string;
+  year?: number;
+}
+
+// Progress phases reported by the streaming search endpoint
+export type AnalysisStreamPhase = "lookup" | "metadata" | "analysis";
+
+export interface SongPreview {
+  title: string;
+  artist: string;
+  genre?: string | null;
+  yearReleased?: number | null;
+}
+
+// Error codes returned by endpoints that call the LLM provider
+export const providerErrorCodes = ["rate_limited", "provider_unavailable", "timeout", "provider_error"] as const;
+export type ProviderErrorCode = typeof providerErrorCodes[number];
+
+export const providerErrorMessages: Record<ProviderErrorCode, string> = {
+  rate_limited: "The analysis service is busy right now. Please try again in a minute.",
+  provider_unavailable: "The analysis service is temporarily unavailable. Please try again shortly.",
+  timeout: "The analysis took too long to respond. Please try again.",
+  provider_error: "The analysis service couldn't complete this request.",
+};
+
+const HEADER_PATTERN = /^#{2,3}\s*(.+)$/;
+
+// Split "## Heading" style markdown into sections. Text before the first
+// header becomes an untitled "Overview" section.
+export function parseMarkdownSections(text: string): AnalysisSection[] {
+  const sections: AnalysisSection[] = [];
+  let current: AnalysisSection | null = null;
+
+  for (const line of text.split("\n")) {
+    const header = line.trim().match(HEADER_PATTERN);
+    if (header) {
+      current = { heading: header[1].replace(/\*\*/g, "").trim(), body: "" };
+      sections.push(current);
+      continue;
+    }
+
+    if (!current) {
+      if (!line.trim()) continue;
+      current = { heading: "Overview", body: "" };
+      sections.push(current);
+    }
+    current.body += (current.body ? "\n" : "") + line;
+  }
+
+  return sections
+    .map((section) => ({ heading: section.heading, body: section.body.replace(/\*\*/g, "").trim() }))
+    .filter((section) => section.body);
+}
+
+// Parse free-text analysis output into structured fields. Handles both the
+// markdown format from generateSongMeaning and the legacy flattened format
+// ("meaning\n\nKey themes: ...\nMood: ...\n\ninterpretation").
+export function parseAnalysisText(text: string): ParsedAnalysisText {
+  let genre: string | undefined;
+  let year: number | undefined;
+  let themes: string[] = [];
+  let mood: string | null = null;
+
+  const bodyLines: string[] = [];
+  for (const line of text.split("\n")) {
+    const trimmed = line.trim().replace(/\*\*/g, "");
+    const genreMatch = trimmed.match(/^Genre:\s*(.+)$/i);
+    const yearMatch = trimmed.match(/^Release Year:\s*(\d{4})/i);
+    const themesMatch = trimmed.match(/^(?:Key\s+)?Themes:\s*(.+)$/i);
+    const moodMatch = trimmed.match(/^Mood:\s*(.+)$/i);
+
+    if (genreMatch) {
+      genre = genreMatch[1].trim();
+    } else if (yearMatch) {
+      year = parseInt(yearMatch[1]);
+    } else if (themesMatch) {
+      themes = themesMatch[1].split(",").map((theme) => theme.trim()).filter(Boolean);
+    } else if (moodMatch) {
+      mood = moodMatch[1].trim();
+    } else {
+      bodyLines.push(line);
+    }
+  }
+
+  const body = bodyLines.join("\n").trim();
+
+  if (body.split("\n").some((line) => HEADER_PATTERN.test(line.trim()))) {
+    const sections = parseMarkdownSections(body);
+    return {
+      meaning: sections[0]?.body || "",
+      themes,
+      mood,
+      interpretation: null,
+      sections,
+      genre,
+      year,
+    };
+  }
+
+  const paragraphs = body.split(/\n\s*\n/).map((paragraph) => paragraph.trim()).filter(Boolean);
+  const meaning = paragraphs[0] || "";
+  const interpretation = paragraphs.slice(1).join("\n\n") || null;
+
+  return {
+    meaning,
+    themes,
+    mood,
+    interpretation,
+    sections: buildSections(meaning, interpretation),
+    genre,
+    year,
+  };
+}
+
+export function buildSections(meaning: string, interpretation: string | null): AnalysisSection[] {
+  const sections: AnalysisSection[] = [];
+  if (meaning) sections.push({ heading: "Meaning", body: meaning });
+  if (interpretation) sections.push({ heading: "Interpretation", body: interpretation });
+  return sections;
+}
+
+// Read a string field out of a possibly incomplete JSON document
+function extractPartialJsonString(text: string, field: string): string | null {
+  const match = text.match(new RegExp(`"${field}"\\s*:\\s*"((?:[^"\\\\]|\\\\.)*)`));
+  if (!match) return null;
+  const raw = match[1].replace(/\\+$/, (slashes) => (slashes.length % 2 ? slashes.slice(1) : slashes));
+  try {
+    return JSON.parse(`"${raw}"`);
+  } catch {
+    return raw;
+  }
+}
+
+// Best-effort structured view of analysis text that is still streaming in.
+// Lyric analyses arrive as JSON, song-info analyses as markdown.
+export function parsePartialAnalysis(text: string): StructuredAnalysis {
+  if (!text.trimStart().startsWith("{")) {
+    const { genre, year, ...parsed } = parseAnalysisText(text);
+    return parsed;
+  }
+
+  const meaning = extractPartialJsonString(text, "meaning") || "";
+  const interpretation = extractPartialJsonString(text, "interpretation");
+  const themesMatch = text.match(/"themes"\s*:\s*\[([^\]]*)/);
+  const themes = themesMatch
+    ? Array.from(themesMatch[1].matchAll(/"((?:[^"\\]|\\.)*)"/g), (match) => match[1])
+    : [];
+
+  return {
+    meaning,
+    themes,
+    mood: extractPartialJsonString(text, "mood"),
+    interpretation,
+    sections: buildSections(meaning, interpretation),
+  };
+}
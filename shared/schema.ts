@@ -4,9 +4,13 @@ import {
   varchar,
   timestamp,
   jsonb,
+  doublePrecision,
   index,
   serial,
   integer,
+  uniqueIndex,
+  boolean,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -29,22 +33,472 @@ export const users = pgTable("users", {
   firstName: varchar("first_name"),
   lastName: varchar("last_name"),
   profileImageUrl: varchar("profile_image_url"),
+  preferences: jsonb("preferences").$type<UserPreferences>().notNull().default({}),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
-// Song analysis results
+// Defaults the user picked in their profile
+export interface UserPreferences {
+  persona?: AnalysisPersona;
+  // The voice used when persona is "custom", e.g. "a jazz pianist"
+  customPersona?: string;
+}
+
+// A titled block of analysis prose, e.g. "Core Theme" or "Interpretation"
+export interface AnalysisSection {
+  heading: string;
+  body: string;
+}
+
+// Where a genre or release year came from and whether it agrees with the
+// value that was kept, see server/metadataReconciliation.ts
+export interface MetadataClaim<T> {
+  // Catalog name, e.g. "MusicBrainz", or "AI" for the model's claim
+  source: string;
+  value: T;
+  agrees: boolean;
+}
+
+export const metadataConfidences = ["high", "medium", "low"] as const;
+export type MetadataConfidence = typeof metadataConfidences[number];
+
+export interface MetadataFieldProvenance<T> {
+  value: T | null;
+  source: string | null;
+  confidence: MetadataConfidence;
+  claims: MetadataClaim<T>[];
+}
+
+export interface MetadataReconciliation {
+  genre: MetadataFieldProvenance<string>;
+  year: MetadataFieldProvenance<number>;
+  // Independent sources agree on the metadata and none contradict it
+  verified: boolean;
+}
+
+// How an analysis was produced and what the catalog lookups returned
+export interface AnalysisMetadata {
+  source: "lyrics" | "song-info" | "legacy";
+  model?: string;
+  catalogGenre?: string | null;
+  catalogYear?: number | null;
+  aiGenre?: string | null;
+  aiYear?: number | null;
+  reconciliation?: MetadataReconciliation;
+}
+
+// Craft metrics computed from the lyrics without the LLM, see server/prosody.ts
+export interface ProsodyLine {
+  // 1-based line number in the lyrics
+  line: number;
+  syllables: number;
+  // One mark per syllable: "/" stressed, "x" unstressed
+  stress: string;
+  // e.g. "iambic tetrameter"; null when no foot fits well
+  meter: string | null;
+  // Rhyme scheme letter within the stanza
+  rhyme: string;
+  // Groups of words that rhyme with each other inside the line
+  internalRhymes: string[][];
+}
+
+export interface ProsodyStanza {
+  startLine: number;
+  endLine: number;
+  rhymeScheme: string;
+  meter: string | null;
+  lines: ProsodyLine[];
+}
+
+export interface ProsodyAnalysis {
+  stanzas: ProsodyStanza[];
+}
+
+export const arcEmotions = ["joy", "love", "hope", "sadness", "anger", "fear"] as const;
+export type ArcEmotion = typeof arcEmotions[number];
+
+// Sentiment per lyric section computed without the LLM, see
+// server/emotionalArc.ts
+export interface ArcSection {
+  // From a section header in the lyrics ("Chorus"), or inferred ("Verse 2")
+  label: string;
+  startLine: number;
+  endLine: number;
+  // -1 (most negative) to 1 (most positive)
+  score: number;
+  // Strongest emotion in the section; null when none stands out
+  emotion: ArcEmotion | null;
+}
+
+export interface EmotionalArc {
+  sections: ArcSection[];
+}
+
+// Vocabulary and readability figures computed from the lyrics, see
+// server/lyricStats.ts
+export interface LyricStats {
+  wordCount: number;
+  // Distinct words over all words
+  uniqueWordRatio: number;
+  // Share of lines that repeat an earlier line
+  repetitionIndex: number;
+  // Words per line
+  averageLineLength: number;
+  // Flesch-Kincaid grade level, reading each line as a sentence
+  readabilityGrade: number;
+  // Most frequent words, stopwords excluded
+  topWords: { word: string; count: number }[];
+  profanityCount: number;
+}
+
+export const lyricStatsMetrics = [
+  "wordCount",
+  "uniqueWordRatio",
+  "repetitionIndex",
+  "averageLineLength",
+  "readabilityGrade",
+  "profanityCount",
+] as const;
+export type LyricStatsMetric = typeof lyricStatsMetrics[number];
+
+export interface LyricStatsAverage {
+  // Distinct songs averaged
+  songs: number;
+  metrics: Record<LyricStatsMetric, number>;
+}
+
+// A song's statistics next to the averages of the user's other analyzed songs
+// and of the artist's other songs; an average is null when there is nothing to
+// compare against
+export interface LyricStatsComparison {
+  song: LyricStats;
+  library: LyricStatsAverage | null;
+  artist: LyricStatsAverage | null;
+}
+
+export const analysisDepths = ["quick", "standard", "deep"] as const;
+export type AnalysisDepth = typeof analysisDepths[number];
+
+// Voices an analysis can be written in; "custom" uses the user's own
+// description of a persona
+export const analysisPersonas = ["critic", "historian", "teacher", "fan", "coach", "custom"] as const;
+export type AnalysisPersona = typeof analysisPersonas[number];
+
+// Who an analysis is written for; sets vocabulary, length and how mature
+// themes are handled
+export const analysisAudiences = ["general", "middle-school", "high-school", "university"] as const;
+export type AnalysisAudience = typeof analysisAudiences[number];
+
+// Song analysis results. Rows are shared between users through the analysis
+// cache; each user's link to a row is their search history entry.
 export const songAnalyses = pgTable("song_analyses", {
   id: serial("id").primaryKey(),
+  // Canonical song identity, see canonicalSongKey in server/analysisCache.ts
+  songKey: text("song_key"),
   title: text("title").notNull(),
   artist: text("artist").notNull(),
   genre: text("genre"),
   yearReleased: integer("year_released"),
+  // Raw model output, kept for reference; render from the structured columns
   lyricsAnalysis: text("lyrics_analysis").notNull(),
+  lyrics: text("lyrics"),
+  depth: varchar("depth", { enum: analysisDepths }).notNull().default("standard"),
+  persona: varchar("persona", { enum: analysisPersonas }).notNull().default("critic"),
+  // The user's description when persona is "custom"
+  customPersona: text("custom_persona"),
+  audience: varchar("audience", { enum: analysisAudiences }).notNull().default("general"),
+  meaning: text("meaning"),
+  themes: text("themes").array().notNull().default([]),
+  mood: text("mood"),
+  interpretation: text("interpretation"),
+  sections: jsonb("sections").$type<AnalysisSection[]>().notNull().default([]),
+  metadata: jsonb("metadata").$type<AnalysisMetadata>(),
+  prosody: jsonb("prosody").$type<ProsodyAnalysis>(),
+  emotionalArc: jsonb("emotional_arc").$type<EmotionalArc>(),
+  lyricStats: jsonb("lyric_stats").$type<LyricStats>(),
+  // Prompt template that produced the analysis, see server/prompts.ts
+  promptId: varchar("prompt_id"),
+  promptVersion: integer("prompt_version"),
+  // Set on regenerated revisions: the original analysis they revise, and
+  // the reader's steering for the new take. Revisions have no song key, so
+  // the cache and artist aggregates only see originals.
+  parentAnalysisId: integer("parent_analysis_id").references((): AnyPgColumn => songAnalyses.id),
+  guidance: text("guidance"),
+  // The user whose search first produced this analysis
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("song_analyses_user_id_idx").on(table.userId),
+  index("song_analyses_mood_idx").on(table.mood),
+  index("song_analyses_song_key_idx").on(table.songKey),
+  index("song_analyses_parent_analysis_id_idx").on(table.parentAnalysisId),
+]);
+
+// Shared analysis cache: maps a canonical song key and analysis variant to
+// the analysis that can be reused for it until it expires or the prompts change
+export const analysisCache = pgTable("analysis_cache", {
+  id: serial("id").primaryKey(),
+  songKey: text("song_key").notNull(),
+  variant: text("variant").notNull(),
+  // "<promptId>@<version>" of the cached analysis
+  promptVersion: text("prompt_version").notNull(),
+  songAnalysisId: integer("song_analysis_id").references(() => songAnalyses.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  expiresAt: timestamp("expires_at").notNull(),
+}, (table) => [
+  uniqueIndex("analysis_cache_song_key_variant_idx").on(table.songKey, table.variant),
+]);
+
+// Explanations anchored to line ranges of an analysis' lyrics (1-based, inclusive)
+export const lyricAnnotations = pgTable("lyric_annotations", {
+  id: serial("id").primaryKey(),
+  songAnalysisId: integer("song_analysis_id").references(() => songAnalyses.id).notNull(),
+  granularity: varchar("granularity", { enum: ["line", "stanza"] }).notNull(),
+  startLine: integer("start_line").notNull(),
+  endLine: integer("end_line").notNull(),
+  explanation: text("explanation").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("lyric_annotations_song_analysis_id_idx").on(table.songAnalysisId),
+]);
+
+export const literaryDeviceTypes = [
+  "metaphor",
+  "simile",
+  "alliteration",
+  "anaphora",
+  "personification",
+  "hyperbole",
+  "allusion",
+] as const;
+
+// Literary devices found in an analysis' lyrics, anchored to line ranges
+// (1-based, inclusive). "pattern" findings come from server/literaryDevices.ts,
+// "llm" findings from the model.
+export const literaryDevices = pgTable("literary_devices", {
+  id: serial("id").primaryKey(),
+  songAnalysisId: integer("song_analysis_id").references(() => songAnalyses.id).notNull(),
+  device: varchar("device", { enum: literaryDeviceTypes }).notNull(),
+  startLine: integer("start_line").notNull(),
+  endLine: integer("end_line").notNull(),
+  excerpt: text("excerpt").notNull(),
+  explanation: text("explanation").notNull(),
+  source: varchar("source", { enum: ["pattern", "llm"] }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("literary_devices_song_analysis_id_idx").on(table.songAnalysisId),
+]);
+
+// Follow-up Q&A about an analysis; each user has their own thread per analysis
+export const analysisChatMessages = pgTable("analysis_chat_messages", {
+  id: serial("id").primaryKey(),
+  songAnalysisId: integer("song_analysis_id").references(() => songAnalyses.id).notNull(),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  role: varchar("role", { enum: ["user", "assistant"] }).notNull(),
+  content: text("content").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("analysis_chat_messages_thread_idx").on(table.songAnalysisId, table.userId),
+]);
+
+// Reader feedback on an analysis: one rating per user per analysis, with
+// optional comments pinned to the section they're about
+export const feedbackRatings = ["up", "down"] as const;
+
+export interface FeedbackComment {
+  // Heading of the analysis section, or "Overall"
+  section: string;
+  comment: string;
+}
+
+export const analysisFeedback = pgTable("analysis_feedback", {
+  id: serial("id").primaryKey(),
+  songAnalysisId: integer("song_analysis_id").references(() => songAnalyses.id).notNull(),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  rating: varchar("rating", { enum: feedbackRatings }).notNull(),
+  comments: jsonb("comments").$type<FeedbackComment[]>().notNull().default([]),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("analysis_feedback_analysis_user_idx").on(table.songAnalysisId, table.userId),
+  index("analysis_feedback_created_at_idx").on(table.createdAt),
+]);
+
+// Comprehension quizzes generated from an analysis and its lyrics. Quizzes
+// are shared by everyone reading the analysis; regenerating adds a new quiz
+// and the latest one per difficulty is the one served.
+export const quizDifficulties = ["easy", "medium", "hard"] as const;
+
+export const quizQuestionTypes = ["multiple-choice", "short-answer"] as const;
+
+export interface QuizQuestion {
+  type: typeof quizQuestionTypes[number];
+  question: string;
+  // Multiple choice only: the options and the index of the correct one
+  choices?: string[];
+  answerIndex?: number;
+  // The correct choice, or a model answer for short-answer questions
+  answer: string;
+  // Short answer only: terms a correct answer mentions
+  keywords?: string[];
+  explanation: string;
+}
+
+export const songQuizzes = pgTable("song_quizzes", {
+  id: serial("id").primaryKey(),
+  songAnalysisId: integer("song_analysis_id").references(() => songAnalyses.id).notNull(),
+  difficulty: varchar("difficulty", { enum: quizDifficulties }).notNull(),
+  questions: jsonb("questions").$type<QuizQuestion[]>().notNull(),
+  promptId: varchar("prompt_id"),
+  promptVersion: integer("prompt_version"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("song_quizzes_analysis_difficulty_idx").on(table.songAnalysisId, table.difficulty),
+]);
+
+// The user's response to one question: a choice index or free text
+export type QuizResponse = number | string | null;
+
+export interface QuizAnswerResult {
+  response: QuizResponse;
+  correct: boolean;
+}
+
+export const quizAttempts = pgTable("quiz_attempts", {
+  id: serial("id").primaryKey(),
+  quizId: integer("quiz_id").references(() => songQuizzes.id).notNull(),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  answers: jsonb("answers").$type<QuizAnswerResult[]>().notNull(),
+  score: integer("score").notNull(),
+  total: integer("total").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("quiz_attempts_quiz_user_idx").on(table.quizId, table.userId),
+]);
+
+// Contrastive analysis of two songs, owned by the user who requested it
+export const songComparisons = pgTable("song_comparisons", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  leftAnalysisId: integer("left_analysis_id").references(() => songAnalyses.id).notNull(),
+  rightAnalysisId: integer("right_analysis_id").references(() => songAnalyses.id).notNull(),
+  summary: text("summary").notNull(),
+  sharedThemes: text("shared_themes").array().notNull().default([]),
+  sections: jsonb("sections").$type<AnalysisSection[]>().notNull().default([]),
+  isFavorite: boolean("is_favorite").notNull().default(false),
+  // Set once the owner shares the comparison; grants read access by link
+  shareToken: varchar("share_token").unique(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("song_comparisons_user_id_idx").on(table.userId),
+]);
+
+// Album-wide narrative analysis, owned by the user who requested it. Each
+// track links to its own song analysis, shared through the analysis cache.
+export const albumAnalyses = pgTable("album_analyses", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  // Normalized "artist::album", built like canonicalSongKey
+  albumKey: varchar("album_key").notNull(),
+  title: text("title").notNull(),
+  artist: text("artist").notNull(),
+  yearReleased: integer("year_released"),
+  musicBrainzId: varchar("musicbrainz_id"),
+  depth: varchar("depth", { enum: analysisDepths }).notNull().default("standard"),
+  persona: varchar("persona", { enum: analysisPersonas }).notNull().default("critic"),
+  // The user's description when persona is "custom"
+  customPersona: text("custom_persona"),
+  audience: varchar("audience", { enum: analysisAudiences }).notNull().default("general"),
+  summary: text("summary").notNull(),
+  themes: text("themes").array().notNull().default([]),
+  sections: jsonb("sections").$type<AnalysisSection[]>().notNull().default([]),
+  promptId: varchar("prompt_id"),
+  promptVersion: integer("prompt_version"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("album_analyses_user_id_idx").on(table.userId),
+  index("album_analyses_album_key_idx").on(table.albumKey),
+]);
+
+// Tracklist of an album analysis, in album order. The song analysis is null
+// when the track couldn't be analyzed.
+export const albumTracks = pgTable("album_tracks", {
+  id: serial("id").primaryKey(),
+  albumAnalysisId: integer("album_analysis_id").references(() => albumAnalyses.id).notNull(),
+  position: integer("position").notNull(),
+  title: text("title").notNull(),
+  songAnalysisId: integer("song_analysis_id").references(() => songAnalyses.id),
+}, (table) => [
+  index("album_tracks_album_analysis_id_idx").on(table.albumAnalysisId),
+]);
+
+// Classroom lesson plan written from one or more analyses, owned by the
+// user who requested it. Songs are listed in the order they're taught.
+export interface LessonActivity {
+  title: string;
+  minutes: number;
+  description: string;
+}
+
+export const lessonPlans = pgTable("lesson_plans", {
+  id: serial("id").primaryKey(),
   userId: varchar("user_id").references(() => users.id).notNull(),
+  songAnalysisIds: integer("song_analysis_ids").array().notNull(),
+  audience: varchar("audience", { enum: analysisAudiences }).notNull().default("general"),
+  durationMinutes: integer("duration_minutes").notNull(),
+  title: text("title").notNull(),
+  overview: text("overview").notNull(),
+  objectives: text("objectives").array().notNull().default([]),
+  discussionPrompts: text("discussion_prompts").array().notNull().default([]),
+  activities: jsonb("activities").$type<LessonActivity[]>().notNull().default([]),
+  promptId: varchar("prompt_id"),
+  promptVersion: integer("prompt_version"),
   createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("lesson_plans_user_id_idx").on(table.userId),
+]);
+
+// Synthesized "artist lens" across an artist's analyzed songs. Rewritten
+// when the set of songs it was written from changes.
+export const artistProfiles = pgTable("artist_profiles", {
+  id: serial("id").primaryKey(),
+  // Normalized artist name, see normalizeArtist in server/analysisCache.ts
+  artistKey: varchar("artist_key").notNull().unique(),
+  name: text("name").notNull(),
+  lens: text("lens").notNull(),
+  songCount: integer("song_count").notNull(),
+  // Newest analysis the lens was written from
+  latestSongAnalysisId: integer("latest_song_analysis_id").references(() => songAnalyses.id).notNull(),
+  promptId: varchar("prompt_id"),
+  promptVersion: integer("prompt_version"),
+  updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Ledger of LLM calls: one row per completion, billed to the user who
+// triggered it and linked to the analysis it produced or was about. Calls
+// that failed after retries are kept too, since attempts can still be billed.
+export const llmUsageOutcomes = ["success", "error", "timeout"] as const;
+
+export const llmUsage = pgTable("llm_usage", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  songAnalysisId: integer("song_analysis_id").references(() => songAnalyses.id),
+  task: varchar("task").notNull(),
+  provider: varchar("provider").notNull(),
+  model: varchar("model").notNull(),
+  promptTokens: integer("prompt_tokens").notNull().default(0),
+  completionTokens: integer("completion_tokens").notNull().default(0),
+  latencyMs: integer("latency_ms").notNull(),
+  // USD; null when the model has no known pricing
+  estimatedCost: doublePrecision("estimated_cost"),
+  outcome: varchar("outcome", { enum: llmUsageOutcomes }).notNull().default("success"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("llm_usage_user_id_created_at_idx").on(table.userId, table.createdAt),
+  index("llm_usage_song_analysis_id_idx").on(table.songAnalysisId),
+]);
+
 // User favorites
 export const favorites = pgTable("favorites", {
   id: serial("id").primaryKey(),
@@ -66,11 +520,119 @@ export const searchHistory = pgTable("search_history", {
 });
 
 // Insert schemas
-export const insertSongAnalysisSchema = createInsertSchema(songAnalyses).omit({
+export const analysisSectionSchema = z.object({
+  heading: z.string(),
+  body: z.string(),
+});
+
+export const analysisMetadataSchema = z.object({
+  source: z.enum(["lyrics", "song-info", "legacy"]),
+  model: z.string().optional(),
+  catalogGenre: z.string().nullable().optional(),
+  catalogYear: z.number().nullable().optional(),
+  aiGenre: z.string().nullable().optional(),
+  aiYear: z.number().nullable().optional(),
+  reconciliation: z.custom<MetadataReconciliation>().optional(),
+});
+
+export const insertSongAnalysisSchema = createInsertSchema(songAnalyses, {
+  sections: z.array(analysisSectionSchema),
+  metadata: analysisMetadataSchema.nullable(),
+  prosody: z.custom<ProsodyAnalysis>().nullable(),
+  emotionalArc: z.custom<EmotionalArc>().nullable(),
+  lyricStats: z.custom<LyricStats>().nullable(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertLyricAnnotationSchema = createInsertSchema(lyricAnnotations).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertLiteraryDeviceSchema = createInsertSchema(literaryDevices).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertAnalysisCacheSchema = createInsertSchema(analysisCache).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertAnalysisChatMessageSchema = createInsertSchema(analysisChatMessages).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const feedbackCommentSchema = z.object({
+  section: z.string().trim().min(1).max(100),
+  comment: z.string().trim().min(1).max(500),
+});
+
+export const insertAnalysisFeedbackSchema = createInsertSchema(analysisFeedback, {
+  comments: z.array(feedbackCommentSchema).max(20),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertSongQuizSchema = createInsertSchema(songQuizzes, {
+  questions: z.array(z.custom<QuizQuestion>()),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertQuizAttemptSchema = createInsertSchema(quizAttempts, {
+  answers: z.array(z.custom<QuizAnswerResult>()),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertSongComparisonSchema = createInsertSchema(songComparisons, {
+  sections: z.array(analysisSectionSchema),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertAlbumAnalysisSchema = createInsertSchema(albumAnalyses, {
+  sections: z.array(analysisSectionSchema),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertAlbumTrackSchema = createInsertSchema(albumTracks).omit({
+  id: true,
+});
+
+export const insertLessonPlanSchema = createInsertSchema(lessonPlans, {
+  activities: z.array(z.custom<LessonActivity>()),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertArtistProfileSchema = createInsertSchema(artistProfiles).omit({
+  id: true,
+  updatedAt: true,
+});
+
+export const insertLlmUsageSchema = createInsertSchema(llmUsage).omit({
   id: true,
   createdAt: true,
 });
 
+export const userPreferencesSchema = z.object({
+  persona: z.enum(analysisPersonas).optional(),
+  customPersona: z.string().trim().max(200).optional(),
+});
+
 export const insertFavoriteSchema = createInsertSchema(favorites).omit({
   id: true,
   createdAt: true,
@@ -86,6 +648,136 @@ export type UpsertUser = typeof users.$inferInsert;
 export type User = typeof users.$inferSelect;
 export type InsertSongAnalysis = z.infer<typeof insertSongAnalysisSchema>;
 export type SongAnalysis = typeof songAnalyses.$inferSelect;
+export type InsertLyricAnnotation = z.infer<typeof insertLyricAnnotationSchema>;
+export type LyricAnnotation = typeof lyricAnnotations.$inferSelect;
+export type AnnotationGranularity = LyricAnnotation["granularity"];
+export type LiteraryDeviceType = typeof literaryDeviceTypes[number];
+export type InsertLiteraryDevice = z.infer<typeof insertLiteraryDeviceSchema>;
+export type LiteraryDevice = typeof literaryDevices.$inferSelect;
+export type InsertAnalysisCacheEntry = z.infer<typeof insertAnalysisCacheSchema>;
+export type AnalysisCacheEntry = typeof analysisCache.$inferSelect;
+export type InsertAnalysisChatMessage = z.infer<typeof insertAnalysisChatMessageSchema>;
+export type AnalysisChatMessage = typeof analysisChatMessages.$inferSelect;
+export type FeedbackRating = typeof feedbackRatings[number];
+export type InsertAnalysisFeedback = z.infer<typeof insertAnalysisFeedbackSchema>;
+export type AnalysisFeedback = typeof analysisFeedback.$inferSelect;
+export type QuizDifficulty = typeof quizDifficulties[number];
+export type InsertSongQuiz = z.infer<typeof insertSongQuizSchema>;
+export type SongQuiz = typeof songQuizzes.$inferSelect;
+export type InsertQuizAttempt = z.infer<typeof insertQuizAttemptSchema>;
+export type QuizAttempt = typeof quizAttempts.$inferSelect;
+export type InsertSongComparison = z.infer<typeof insertSongComparisonSchema>;
+export type SongComparison = typeof songComparisons.$inferSelect;
+export type SongComparisonWithSongs = SongComparison & { left: SongAnalysis; right: SongAnalysis };
+export type InsertAlbumAnalysis = z.infer<typeof insertAlbumAnalysisSchema>;
+export type AlbumAnalysis = typeof albumAnalyses.$inferSelect;
+export type InsertAlbumTrack = z.infer<typeof insertAlbumTrackSchema>;
+export type AlbumTrack = typeof albumTracks.$inferSelect;
+export type AlbumTrackWithSong = AlbumTrack & {
+  songAnalysis: Pick<SongAnalysis, "id" | "title" | "mood" | "themes"> | null;
+};
+export type AlbumAnalysisWithTracks = AlbumAnalysis & { tracks: AlbumTrackWithSong[] };
+// What an album analysis was written with; a saved album is only reused for the same voice
+export type AlbumAnalysisVoice = Pick<AlbumAnalysis, "depth" | "persona" | "customPersona" | "audience">;
+export type InsertLessonPlan = z.infer<typeof insertLessonPlanSchema>;
+export type LessonPlan = typeof lessonPlans.$inferSelect;
+export type LessonPlanWithSongs = LessonPlan & { songs: SongAnalysis[] };
+export type InsertArtistProfile = z.infer<typeof insertArtistProfileSchema>;
+export type ArtistProfile = typeof artistProfiles.$inferSelect;
+export type InsertLlmUsage = z.infer<typeof insertLlmUsageSchema>;
+export type LlmUsage = typeof llmUsage.$inferSelect;
+export type LlmUsageOutcome = typeof llmUsageOutcomes[number];
+
+export interface UsageTotals {
+  calls: number;
+  // Calls that errored or timed out
+  failures: number;
+  promptTokens: number;
+  completionTokens: number;
+  estimatedCost: number;
+}
+
+export interface UsageSummary {
+  since: string;
+  totals: UsageTotals;
+  byTask: (UsageTotals & { task: string })[];
+  recent: LlmUsage[];
+}
+
+// Admin report on reader feedback, see server/feedbackReport.ts. Analyses
+// are grouped by the prompt version and provider that produced them.
+export interface FeedbackReportAnalysis {
+  songAnalysisId: number;
+  title: string;
+  artist: string;
+  // "lyrics" or "song-info", see AnalysisMetadata
+  source: string | null;
+  upvotes: number;
+  downvotes: number;
+  comments: FeedbackComment[];
+}
+
+export interface FeedbackReportGroup {
+  promptId: string | null;
+  promptVersion: number | null;
+  provider: string | null;
+  ratings: number;
+  downvotes: number;
+  // Analyses rated down more often than up, worst first
+  lowRated: FeedbackReportAnalysis[];
+}
+
+export interface FeedbackReport {
+  since: string;
+  groups: FeedbackReportGroup[];
+}
+
+// An original analysis and the user's regenerated revisions of it, oldest
+// first. The primary revision is the one the user's history points at.
+export interface AnalysisRevisions {
+  primaryId: number;
+  revisions: SongAnalysis[];
+}
+
+// Everything analyzed for one artist, see server/artistProfile.ts
+export interface ArtistOverview {
+  name: string;
+  songs: Pick<SongAnalysis, "id" | "title" | "yearReleased" | "mood" | "themes">[];
+  themes: { theme: string; count: number }[];
+  moods: { mood: string; count: number }[];
+  yearSpan: { from: number; to: number } | null;
+  lens: string | null;
+  lensUpdatedAt: string | null;
+  // Songs were analyzed since the lens was written, or there is none yet
+  lensStale: boolean;
+}
+
+// A quiz as sent to someone taking it, without the answer key
+export interface QuizForTaking {
+  id: number;
+  songAnalysisId: number;
+  difficulty: QuizDifficulty;
+  questions: Pick<QuizQuestion, "type" | "question" | "choices">[];
+  createdAt: Date | null;
+}
+
+// A graded attempt together with the answer key and explanations
+export interface GradedQuizAttempt {
+  attempt: QuizAttempt;
+  questions: QuizQuestion[];
+}
+
+// A song suggested because its themes or mood overlap with an analysis, or
+// with one of the user's favorites
+export interface SongRecommendation {
+  song: Pick<SongAnalysis, "id" | "title" | "artist" | "yearReleased" | "mood" | "themes">;
+  sharedThemes: string[];
+  sharedMood: string | null;
+  // The favorite it connects to, for recommendations from favorites
+  basedOn: Pick<SongAnalysis, "id" | "title"> | null;
+  reason: string;
+}
+
 export type InsertFavorite = z.infer<typeof insertFavoriteSchema>;
 export type Favorite = typeof favorites.$inferSelect;
 export type InsertSearchHistory = z.infer<typeof insertSearchHistorySchema>;